@@ -4,16 +4,23 @@
  * Tests session CRUD and the main query/getDetail flows using mocked fetch
  * (remote API) + mocked getValidToken (auth store).
  */
+import { mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 import {
+  _resetSessionStore,
   createSession,
+  fetchPage,
   getAllSessions,
   getDetail,
   getOrCreateSession,
+  getProfile,
   getSession,
   query,
+  queryStream,
 } from "./agent";
+import { readUsage } from "./usage";
 
 // Use vi.spyOn instead of vi.mock to avoid cross-file mock contamination.
 // vi.mock leaks across test files in Bun 1.x and mock.restore() does not clear it.
@@ -21,6 +28,13 @@ import {
 let getValidTokenSpy: ReturnType<typeof vi.spyOn> | undefined;
 let toAIFriendlyErrorSpy: ReturnType<typeof vi.spyOn> | undefined;
 
+// Redirect the on-disk session cache (~/.talent-agent/sessions) to a temp dir.
+let tempHome: string;
+vi.mock("node:os", () => ({
+  homedir: () => tempHome,
+  tmpdir: () => require("os").tmpdir(),
+}));
+
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
 /**
@@ -32,6 +46,8 @@ function buildStreamBody(parts: {
   toolCalls?: { toolCallId: string; toolName: string; args: unknown }[];
   toolResults?: { toolCallId: string; result: unknown }[];
   error?: string;
+  /** Raw `finish-step` / `finish` events to end the stream with. */
+  finish?: Record<string, unknown>[];
 }): string {
   const lines: string[] = [];
 
@@ -58,10 +74,13 @@ function buildStreamBody(parts: {
       `data: ${JSON.stringify({ type: "error", message: parts.error })}`,
     );
   }
-  lines.push(`data: ${JSON.stringify({ type: "finish-step" })}`);
-  lines.push(
-    `data: ${JSON.stringify({ type: "finish", finishReason: "stop" })}`,
-  );
+  const finish = parts.finish ?? [
+    { type: "finish-step" },
+    { type: "finish", finishReason: "stop" },
+  ];
+  for (const event of finish) {
+    lines.push(`data: ${JSON.stringify(event)}`);
+  }
   lines.push("data: [DONE]");
 
   return lines.join("\n") + "\n";
@@ -99,7 +118,8 @@ function mockRoutedFetch(
   chatStreamBody: string,
   overrides?: {
     detailResponse?: Response;
-    chatResponse?: Response;
+    /** A fixed response, or a factory called once per chat request. */
+    chatResponse?: Response | (() => Response);
     sessionCreateResponse?: Response;
   },
 ) {
@@ -151,7 +171,8 @@ function mockRoutedFetch(
 
       // Chat API (default)
       if (url.includes("/api/chat")) {
-        if (overrides?.chatResponse) return overrides.chatResponse;
+        const chat = overrides?.chatResponse;
+        if (chat) return typeof chat === "function" ? chat() : chat;
         return mockFetchResponse(chatStreamBody);
       }
 
@@ -164,6 +185,7 @@ function mockRoutedFetch(
 const originalEnv = { ...process.env };
 
 beforeEach(async () => {
+  tempHome = mkdtempSync(join(require("os").tmpdir(), "talent-agent-test-"));
   process.env.TALENT_PRO_URL = "http://localhost:3000";
 
   // Spy on auth store and errors modules (ESM live bindings propagate to ./agent)
@@ -185,6 +207,7 @@ beforeEach(async () => {
 });
 
 afterEach(() => {
+  rmSync(tempHome, { recursive: true, force: true });
   process.env = { ...originalEnv };
   getValidTokenSpy?.mockRestore();
   toAIFriendlyErrorSpy?.mockRestore();
@@ -369,6 +392,10 @@ describe("getDetail", () => {
   });
 
   it("returns error when session does not exist", async () => {
+    mockRoutedFetch("", {
+      sessionCreateResponse: new Response("Not found", { status: 404 }),
+    });
+
     const result = await getDetail("nonexistent", 0);
 
     expect(result.result.type).toBe("error");
@@ -509,6 +536,39 @@ describe("getDetail", () => {
   });
 });
 
+describe("getProfile", () => {
+  it("fetches a profile by ID from the detail endpoint", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+      new Response(JSON.stringify({ profile: { id: "p 1", name: "Jane" } }), {
+        status: 200,
+      }),
+    );
+
+    const profile = await getProfile("p 1");
+
+    expect(profile).toEqual({ id: "p 1", name: "Jane" });
+    expect(String(fetchSpy.mock.calls[0]![0])).toBe(
+      "http://localhost:3000/api/profile/p%201/detail",
+    );
+  });
+
+  it("throws the API error for a missing profile", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(
+      new Response(JSON.stringify({ error: "Profile not found" }), {
+        status: 404,
+      }),
+    );
+
+    await expect(getProfile("nope")).rejects.toThrow("Profile not found");
+  });
+
+  it("throws when not authenticated", async () => {
+    getValidTokenSpy!.mockResolvedValueOnce(null as any);
+
+    await expect(getProfile("p1")).rejects.toThrow("Not authenticated");
+  });
+});
+
 describe("extractToolNames (via query meta)", () => {
   it("extracts tool names from stream response", async () => {
     const body = buildStreamBody({
@@ -544,3 +604,459 @@ describe("extractToolNames (via query meta)", () => {
     expect(result.meta.toolsCalled).toEqual([]);
   });
 });
+
+describe("cross-process session cache", () => {
+  it("getDetail finds search results written by a previous process", async () => {
+    const searchBody = buildStreamBody({
+      toolCalls: [{ toolCallId: "tc-1", toolName: "searchProfiles", args: {} }],
+      toolResults: [
+        {
+          toolCallId: "tc-1",
+          result: { profiles: [{ id: "p1", displayName: "Jane" }] },
+        },
+      ],
+    });
+    mockRoutedFetch(searchBody, {
+      detailResponse: new Response(
+        JSON.stringify({ profile: { id: "p1", displayName: "Jane" } }),
+        { status: 200, headers: { "Content-Type": "application/json" } },
+      ),
+    });
+
+    const first = await query("Find devs");
+    const sessionId = first.result.session;
+
+    // Simulate a fresh process: drop the in-memory entries, keep the disk cache
+    _resetSessionStore();
+    expect(getSession(sessionId)).toBeUndefined();
+
+    const detail = await getDetail(sessionId, 0);
+    expect(detail.result.type).toBe("detail");
+  });
+});
+
+describe("resuming server sessions", () => {
+  it("getDetail rebuilds lastResult from server tool call history", async () => {
+    const fetchSpy = mockRoutedFetch("", {
+      sessionCreateResponse: new Response(
+        JSON.stringify({
+          session: {
+            id: 314,
+            messages: [
+              { id: 1, role: "user", content: "Find devs", tool_calls: [] },
+              {
+                id: 2,
+                role: "assistant",
+                content: "Found 1.",
+                tool_calls: [
+                  {
+                    tool_call_id: "tc-1",
+                    tool_name: "searchProfiles",
+                    arguments: {},
+                    result: { profiles: [{ id: "p9" }], totalMatches: 1 },
+                    status: "completed",
+                  },
+                ],
+              },
+            ],
+          },
+        }),
+        { status: 200, headers: { "Content-Type": "application/json" } },
+      ),
+      detailResponse: new Response(
+        JSON.stringify({ profile: { id: "p9", displayName: "Sam" } }),
+        { status: 200, headers: { "Content-Type": "application/json" } },
+      ),
+    });
+
+    const result = await getDetail("314", 0);
+
+    expect(result.result.type).toBe("detail");
+    const detailCall = fetchSpy.mock.calls.find((c) =>
+      String(c[0]).includes("/api/profile/p9/detail"),
+    );
+    expect(detailCall).toBeDefined();
+    const chatCall = fetchSpy.mock.calls.find((c) =>
+      String(c[0]).endsWith("/api/chat"),
+    );
+    expect(chatCall).toBeUndefined();
+  });
+});
+
+describe("pagination", () => {
+  function pageBody(ids: string[], totalMatches: number): string {
+    return buildStreamBody({
+      toolCalls: [{ toolCallId: "tc-1", toolName: "searchProfiles", args: {} }],
+      toolResults: [
+        {
+          toolCallId: "tc-1",
+          result: {
+            profiles: ids.map((id) => ({ id, displayName: id })),
+            totalMatches,
+          },
+        },
+      ],
+    });
+  }
+
+  it("query attaches pagination and asks the agent for the requested page", async () => {
+    const fetchSpy = mockRoutedFetch(pageBody(["p1", "p2", "p3"], 7));
+
+    const { result } = await query("Find devs", undefined, {
+      page: 1,
+      limit: 2,
+    });
+
+    expect(result.type).toBe("search");
+    if (result.type === "search") {
+      expect(result.profiles).toHaveLength(2);
+      expect(result.pagination).toEqual({
+        page: 1,
+        pageSize: 2,
+        offset: 0,
+        hasMore: true,
+      });
+    }
+
+    const chatCall = fetchSpy.mock.calls.find((c) =>
+      String(c[0]).endsWith("/api/chat"),
+    );
+    const body = JSON.parse((chatCall![1] as RequestInit).body as string);
+    const lastText = body.messages.at(-1).parts[0].text;
+    expect(lastText).toContain("page 1, results 1-2");
+  });
+
+  it("keeps the page directive out of the session history", async () => {
+    const fetchSpy = mockRoutedFetch(pageBody(["p1", "p2"], 7));
+
+    const { result } = await query("Find devs", undefined, {
+      page: 1,
+      limit: 2,
+    });
+
+    const session = getSession(result.session)!;
+    expect(session.messages[0]!.parts).toEqual([
+      { type: "text", text: "Find devs" },
+    ]);
+    if (result.type === "search") expect(result.query).toBe("Find devs");
+    const bulkCall = fetchSpy.mock.calls.find((c) =>
+      String(c[0]).includes("/messages/bulk"),
+    );
+    const body = JSON.parse((bulkCall![1] as RequestInit).body as string);
+    expect(body.messages[0].content).toBe("Find devs");
+  });
+
+  it("query leaves pagination off when no page is requested", async () => {
+    mockRoutedFetch(pageBody(["p1", "p2", "p3"], 7));
+
+    const { result } = await query("Find devs");
+
+    expect(result.type).toBe("search");
+    if (result.type === "search") {
+      expect(result.profiles).toHaveLength(3);
+      expect(result.pagination).toBeUndefined();
+    }
+  });
+
+  it("fetchPage requests the next slice and keeps the original query", async () => {
+    mockRoutedFetch(pageBody(["p1", "p2"], 3));
+    const first = await query("Find devs", undefined, { limit: 2 });
+    const sessionId = first.result.session;
+
+    vi.restoreAllMocks();
+    const store = await import("./auth/store");
+    vi.spyOn(store, "getValidToken").mockResolvedValue("mock-token" as any);
+    mockRoutedFetch(pageBody(["p3"], 3));
+
+    const { result } = await fetchPage(sessionId, 2);
+
+    expect(result.type).toBe("search");
+    if (result.type === "search") {
+      expect(result.query).toBe("Find devs");
+      expect(result.profiles.map((p) => p.id)).toEqual(["p3"]);
+      expect(result.pagination).toEqual({
+        page: 2,
+        pageSize: 2,
+        offset: 2,
+        hasMore: false,
+      });
+    }
+  });
+
+  it("fetchPage keeps the previous position when the agent repeats the page", async () => {
+    mockRoutedFetch(pageBody(["p1", "p2"], 5));
+    const first = await query("Find devs", undefined, { limit: 2 });
+    const sessionId = first.result.session;
+
+    const { result } = await fetchPage(sessionId, 2);
+
+    expect(result.type).toBe("search");
+    if (result.type === "search") {
+      expect(result.pagination).toEqual({
+        page: 1,
+        pageSize: 2,
+        offset: 0,
+        hasMore: true,
+      });
+    }
+  });
+
+  it("fetchPage rejects pages past the last one", async () => {
+    mockRoutedFetch(pageBody(["p1", "p2"], 3));
+    const first = await query("Find devs", undefined, { limit: 2 });
+
+    const { result } = await fetchPage(first.result.session, 3);
+
+    expect(result.type).toBe("error");
+    if (result.type === "error") {
+      expect(result.code).toBe("INDEX_OUT_OF_RANGE");
+    }
+  });
+
+  it("fetchPage returns an error when the session has no search", async () => {
+    const sessionId = createSession();
+
+    const { result } = await fetchPage(sessionId, 2);
+
+    expect(result.type).toBe("error");
+    if (result.type === "error") {
+      expect(result.code).toBe("SESSION_NOT_FOUND");
+    }
+  });
+});
+
+describe("queryStream", () => {
+  it("yields tool steps and text deltas in order, then the result", async () => {
+    mockRoutedFetch(
+      buildStreamBody({
+        toolCalls: [
+          { toolCallId: "tc-1", toolName: "searchProfiles", args: { q: 1 } },
+        ],
+        toolResults: [
+          {
+            toolCallId: "tc-1",
+            result: { profiles: [{ id: "p1" }], totalMatches: 1 },
+          },
+        ],
+        textParts: ["Found ", "1 developer."],
+      }),
+    );
+
+    const events = [];
+    for await (const event of queryStream("Find devs")) {
+      events.push(event);
+    }
+
+    expect(events.map((e) => e.type)).toEqual([
+      "tool-call",
+      "tool-result",
+      "text-delta",
+      "text-delta",
+      "done",
+    ]);
+    expect(events[1]).toMatchObject({ toolName: "searchProfiles" });
+    const done = events.at(-1)!;
+    if (done.type === "done") {
+      expect(done.result.type).toBe("search");
+      expect(done.meta.toolsCalled).toEqual(["searchProfiles"]);
+      expect(getSession(done.result.session)?.lastResult).toEqual(done.result);
+    }
+  });
+
+  it("reports stream errors as an event and an error result", async () => {
+    mockRoutedFetch(buildStreamBody({ error: "Model overloaded" }));
+
+    const events = [];
+    for await (const event of queryStream("Find devs")) {
+      events.push(event);
+    }
+
+    expect(events[0]).toEqual({ type: "error", error: "Model overloaded" });
+    const done = events.at(-1)!;
+    expect(done.type).toBe("done");
+    if (done.type === "done") {
+      expect(done.result.type).toBe("error");
+    }
+  });
+});
+
+describe("retries", () => {
+  it("retries a rate-limited chat request and reports it in meta", async () => {
+    process.env.TALENT_AGENT_MAX_RETRIES = "2";
+    const body = buildStreamBody({ textParts: ["Hello"] });
+    let chatCalls = 0;
+    mockRoutedFetch(body, {
+      chatResponse: () => {
+        chatCalls++;
+        return chatCalls === 1
+          ? new Response("", { status: 429, headers: { "Retry-After": "0" } })
+          : mockFetchResponse(body);
+      },
+    });
+
+    const { result, meta } = await query("Find devs");
+
+    expect(result.type).toBe("search");
+    expect(chatCalls).toBe(2);
+    expect(meta.retries).toBe(1);
+  });
+
+  it("does not retry once the chat stream has started", async () => {
+    let chatCalls = 0;
+    const encoder = new TextEncoder();
+    mockRoutedFetch("", {
+      chatResponse: () => {
+        chatCalls++;
+        const stream = new ReadableStream({
+          start(controller) {
+            controller.enqueue(
+              encoder.encode(
+                `data: ${JSON.stringify({ type: "text-delta", delta: "Hal" })}\n`,
+              ),
+            );
+            controller.error(new Error("socket hang up"));
+          },
+        });
+        return new Response(stream, { status: 200 });
+      },
+    });
+
+    const { result, meta } = await query("Find devs");
+
+    expect(chatCalls).toBe(1);
+    expect(result.type).toBe("error");
+    expect(meta.retries).toBe(0);
+  });
+});
+
+describe("cancellation", () => {
+  it("gives up on a stalled chat stream after timeoutMs", async () => {
+    mockRoutedFetch("", {
+      // Headers arrive, then the stream never produces a byte
+      chatResponse: () => new Response(new ReadableStream(), { status: 200 }),
+    });
+
+    const { result } = await query("Find devs", undefined, { timeoutMs: 20 });
+
+    expect(result.type).toBe("error");
+    expect(toAIFriendlyErrorSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "TimeoutError" }),
+    );
+  });
+
+  it("keeps the previous result and history when a refinement is cancelled", async () => {
+    mockRoutedFetch(buildStreamBody({ textParts: ["Found none."] }));
+    const first = await query("Find devs");
+    const session = getSession(first.result.session)!;
+    const messageCount = session.messages.length;
+
+    const controller = new AbortController();
+    controller.abort();
+    const { result } = await query("Only seniors", first.result.session, {
+      signal: controller.signal,
+    });
+
+    expect(result.type).toBe("error");
+    expect(toAIFriendlyErrorSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "AbortError" }),
+    );
+    expect(session.lastResult).toEqual(first.result);
+    expect(session.messages).toHaveLength(messageCount);
+  });
+});
+
+describe("token usage", () => {
+  it("reports usage, model and finish reason from the finish event", async () => {
+    const fetchSpy = mockRoutedFetch(
+      buildStreamBody({
+        textParts: ["Found none."],
+        finish: [
+          { type: "finish-step" },
+          {
+            type: "finish",
+            finishReason: "stop",
+            messageMetadata: {
+              model: "claude-sonnet-4-20250514",
+              usage: {
+                inputTokens: 1200,
+                outputTokens: 300,
+                totalTokens: 1500,
+              },
+            },
+          },
+        ],
+      }),
+    );
+
+    const { meta } = await query("Find devs");
+
+    expect(meta).toMatchObject({
+      tokensUsed: 1500,
+      inputTokens: 1200,
+      outputTokens: 300,
+      model: "claude-sonnet-4-20250514",
+      finishReason: "stop",
+    });
+
+    // Persisted with the assistant message for per-session cost tracking
+    const bulkCall = fetchSpy.mock.calls.find((c) =>
+      String(c[0]).includes("/messages/bulk"),
+    );
+    const body = JSON.parse((bulkCall![1] as RequestInit).body as string);
+    expect(body.messages[1]).toMatchObject({
+      role: "assistant",
+      tokens_input: 1200,
+      tokens_output: 300,
+      metadata: { model_id: "claude-sonnet-4-20250514", finish_reason: "stop" },
+    });
+  });
+
+  it("sums step usage when the finish event has none", async () => {
+    mockRoutedFetch(
+      buildStreamBody({
+        textParts: ["Found none."],
+        finish: [
+          {
+            type: "finish-step",
+            usage: { inputTokens: 100, outputTokens: 20 },
+          },
+          {
+            type: "finish-step",
+            usage: { promptTokens: 150, completionTokens: 30 },
+          },
+          { type: "finish", finishReason: "tool-calls" },
+        ],
+      }),
+    );
+
+    const { meta } = await query("Find devs");
+
+    expect(meta.inputTokens).toBe(250);
+    expect(meta.outputTokens).toBe(50);
+    expect(meta.tokensUsed).toBe(300);
+    expect(meta.finishReason).toBe("tool-calls");
+  });
+
+  it("reports zero tokens when the stream carries no usage", async () => {
+    mockRoutedFetch(buildStreamBody({ textParts: ["Found none."] }));
+
+    const { meta } = await query("Find devs");
+
+    expect(meta.tokensUsed).toBe(0);
+    expect(meta.inputTokens).toBeUndefined();
+  });
+});
+
+describe("usage ledger", () => {
+  it("records searches and detail lookups", async () => {
+    mockRoutedFetch(buildStreamBody({ textParts: ["Found none."] }));
+
+    const { result } = await query("Find devs");
+    await getDetail(result.session, 0);
+
+    const records = readUsage();
+    expect(records.map((r) => r.kind)).toEqual(["search", "detail"]);
+    expect(records[0]!.session).toBe(result.session);
+    expect(records[1]!.code).toBeDefined();
+  });
+});
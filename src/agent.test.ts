@@ -3,8 +3,13 @@
  */
 import { describe, expect, it } from "vitest";
 
-import { buildResult, extractToolResults } from "./agent";
-import type { DetailResult, ErrorResult, SearchResult } from "./agent";
+import { buildResult, extractToolResults, rebuildLastResult } from "./agent";
+import type {
+  AiChatMessage,
+  DetailResult,
+  ErrorResult,
+  SearchResult,
+} from "./agent";
 
 describe("buildResult", () => {
   it("returns search result when searchProfiles tool is present", () => {
@@ -194,3 +199,91 @@ describe("extractToolResults", () => {
     expect(results[1]!.toolName).toBe("getProfileDetails");
   });
 });
+
+describe("rebuildLastResult", () => {
+  function message(
+    id: number,
+    role: "user" | "assistant",
+    content: string,
+    toolCalls?: AiChatMessage["tool_calls"],
+  ): AiChatMessage {
+    return {
+      id,
+      role,
+      content,
+      external_id: null,
+      tokens_input: null,
+      tokens_output: null,
+      metadata: {},
+      created_at: new Date().toISOString(),
+      tool_calls: toolCalls,
+    };
+  }
+
+  it("replays the latest search tool result with its user query", () => {
+    const messages = [
+      message(1, "user", "Find React devs"),
+      message(2, "assistant", "Found 2.", [
+        {
+          tool_call_id: "tc-1",
+          tool_name: "searchProfiles",
+          arguments: {},
+          result: {
+            profiles: [{ id: "p1" }, { id: "p2" }],
+            totalMatches: 2,
+            appliedFilters: { skills: ["React"] },
+          },
+          status: "completed",
+        },
+      ]),
+      message(3, "user", "Only in Lisbon"),
+      message(4, "assistant", "Found 1.", [
+        {
+          tool_call_id: "tc-2",
+          tool_name: "searchProfiles",
+          arguments: {},
+          result: { profiles: [{ id: "p2" }], totalMatches: 1 },
+          status: "completed",
+        },
+      ]),
+      message(5, "user", "Thanks"),
+      message(6, "assistant", "You're welcome."),
+    ];
+
+    const result = rebuildLastResult("42", messages) as SearchResult;
+
+    expect(result.type).toBe("search");
+    expect(result.session).toBe("42");
+    expect(result.query).toBe("Only in Lisbon");
+    expect(result.summary).toBe("Found 1.");
+    expect(result.profiles).toEqual([{ id: "p2" }]);
+  });
+
+  it("ignores unrelated tools and calls without results", () => {
+    const messages = [
+      message(1, "user", "Hi"),
+      message(2, "assistant", "Hello", [
+        {
+          tool_call_id: "tc-1",
+          tool_name: "somethingElse",
+          arguments: {},
+          result: { ok: true },
+          status: "completed",
+        },
+        {
+          tool_call_id: "tc-2",
+          tool_name: "searchProfiles",
+          arguments: {},
+          result: null,
+          status: "error",
+        },
+      ]),
+    ];
+
+    expect(rebuildLastResult("42", messages)).toBeNull();
+  });
+
+  it("returns null for history without tool calls", () => {
+    expect(rebuildLastResult("42", [message(1, "user", "Hi")])).toBeNull();
+  });
+});
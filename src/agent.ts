@@ -5,14 +5,19 @@
  * /api/chat endpoint over HTTP with a Bearer token and parses the
  * streamed AI SDK UI message response.
  *
- * Sessions are persisted server-side via /api/ai-chat/sessions and cached
- * locally in memory for the lifetime of the process.
+ * Sessions are persisted server-side via /api/ai-chat/sessions, cached in
+ * memory for the lifetime of the process, and cached on disk (see
+ * sessions/cache.ts) so `lastResult` survives across CLI invocations.
  */
 import { nanoid } from "nanoid";
 
-import { getValidToken } from "./auth/store";
+import { authRequiredMessage, getValidToken } from "./auth/store";
+import { getProUrl } from "./config";
 import { toAIFriendlyError } from "./errors";
 import type { ErrorCode } from "./errors";
+import { fetchWithAuth } from "./http";
+import { readCachedSession, writeCachedSession } from "./sessions/cache";
+import { appendUsage, toUsageRecord } from "./usage";
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
@@ -101,6 +106,17 @@ export interface SearchResult {
   totalMatches: number;
   summary: string;
   appliedFilters: Record<string, unknown>;
+  pagination?: Pagination;
+}
+
+/** Position of a search result page within `totalMatches`. */
+export interface Pagination {
+  /** 1-based page number. */
+  page: number;
+  pageSize: number;
+  /** Zero-based index of the first profile on this page. */
+  offset: number;
+  hasMore: boolean;
 }
 
 export interface DetailResult {
@@ -124,8 +140,36 @@ export interface AgentMeta {
   durationMs: number;
   tokensUsed: number;
   toolsCalled: string[];
+  /** HTTP retries performed for this call (see http.ts). */
+  retries?: number;
+  /** Prompt tokens, when the chat stream reports usage. */
+  inputTokens?: number;
+  /** Completion tokens, when the chat stream reports usage. */
+  outputTokens?: number;
+  /** Model that produced the response, when reported. */
+  model?: string;
+  /** Why generation stopped ("stop", "length", "tool-calls", ...). */
+  finishReason?: string;
 }
 
+/**
+ * Incremental event from a streaming query, in arrival order.
+ * `queryStream` always ends with exactly one `done` event.
+ */
+export type StreamEvent =
+  | { type: "text-delta"; delta: string }
+  | { type: "tool-call"; toolCallId: string; toolName: string; args: unknown }
+  | {
+      type: "tool-result";
+      toolCallId: string;
+      toolName: string;
+      result: unknown;
+    }
+  | { type: "error"; error: string };
+
+export type QueryStreamEvent =
+  StreamEvent | { type: "done"; result: AgentResult; meta: AgentMeta };
+
 // ─── Internal types ─────────────────────────────────────────────────────────
 
 interface UIMessagePart {
@@ -138,16 +182,29 @@ interface UIMessagePart {
   output?: unknown;
 }
 
-interface UIMessage {
+export interface UIMessage {
   id: string;
   role: "user" | "assistant" | "system";
   parts: UIMessagePart[];
 }
 
-interface Session {
+export interface Session {
   id: string;
   messages: UIMessage[];
   lastResult: AgentResult | null;
+  /**
+   * The most recent search, kept when a detail lookup or an error replaces
+   * lastResult so later lookups and paging still work from it.
+   */
+  lastSearch?: SearchResult;
+  /** ID of the backing /api/ai-chat session, when one exists. */
+  serverSessionId?: string;
+  /**
+   * Who may use the session over MCP: the user of the bearer token that
+   * created it (see mcp/server.ts). Absent for sessions created with the
+   * local login.
+   */
+  owner?: string;
 }
 
 // ─── Session Store ──────────────────────────────────────────────────────────
@@ -179,18 +236,63 @@ export function getAllSessions(): Session[] {
   return Array.from(sessions.values());
 }
 
-// ─── Remote API Client ──────────────────────────────────────────────────────
+/**
+ * Drop all in-memory sessions (for testing only).
+ * Simulates a fresh process; the on-disk cache is left untouched.
+ */
+export function _resetSessionStore(): void {
+  sessions.clear();
+}
+
+/**
+ * Put a fully-formed session (e.g. one read from a session file) into the
+ * local cache, replacing any existing entry with the same ID.
+ */
+export function restoreSession(session: Session): Session {
+  sessions.set(session.id, session);
+  writeCachedSession(session);
+  return session;
+}
+
+/**
+ * Look up a session in the in-memory store, falling back to the on-disk
+ * cache written by a previous invocation. Never contacts talent-pro.
+ */
+export function findSession(id: string): Session | undefined {
+  const existing = sessions.get(id);
+  if (existing) return existing;
+
+  const cached = readCachedSession(id);
+  if (cached) sessions.set(id, cached);
+  return cached ?? undefined;
+}
+
+/**
+ * The search that detail lookups and paging in a session work from. Falls
+ * back to lastResult for sessions cached before lastSearch was kept.
+ */
+export function lastSearchResult(
+  session: Session | undefined,
+): SearchResult | null {
+  if (session?.lastSearch) return session.lastSearch;
+  return session?.lastResult?.type === "search" ? session.lastResult : null;
+}
 
-function getTalentProUrl(): string {
-  const url = process.env.TALENT_PRO_URL;
-  if (!url) throw new Error("TALENT_PRO_URL is not set");
-  return url.replace(/\/$/, "");
+/**
+ * Record the owner of a session that has none yet, in memory and in the
+ * on-disk cache. An existing owner is never replaced.
+ */
+export function claimSessionOwner(id: string, owner: string): void {
+  const session = findSession(id);
+  if (!session || session.owner) return;
+  session.owner = owner;
+  writeCachedSession(session);
 }
 
 // ─── Server Session Persistence ─────────────────────────────────────────────
 
 /** Message shape from the /api/ai-chat persistence API. */
-interface AiChatMessage {
+export interface AiChatMessage {
   id: number;
   role: "user" | "assistant" | "system";
   content: string | null;
@@ -224,16 +326,23 @@ interface AiChatSession {
  * Create a new server-side session.
  * Returns the numeric session ID as a string.
  */
-async function createServerSession(token: string): Promise<string> {
-  const proUrl = getTalentProUrl();
-  const response = await fetch(`${proUrl}/api/ai-chat/sessions`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${token}`,
+async function createServerSession(
+  token: string,
+  signal?: AbortSignal,
+): Promise<string> {
+  const proUrl = getProUrl();
+  const { response } = await fetchWithAuth(
+    `${proUrl}/api/ai-chat/sessions`,
+    token,
+    {
+      method: "POST",
+      signal,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        session: { model_id: "claude-sonnet-4-20250514" },
+      }),
     },
-    body: JSON.stringify({ session: { model_id: "claude-sonnet-4-20250514" } }),
-  });
+  );
 
   if (!response.ok) {
     throw new Error(`Failed to create session: ${response.status}`);
@@ -250,14 +359,13 @@ async function createServerSession(token: string): Promise<string> {
 async function fetchSessionWithMessages(
   token: string,
   sessionId: string,
+  signal?: AbortSignal,
 ): Promise<AiChatMessage[]> {
-  const proUrl = getTalentProUrl();
-  const response = await fetch(
+  const proUrl = getProUrl();
+  const { response } = await fetchWithAuth(
     `${proUrl}/api/ai-chat/sessions/${encodeURIComponent(sessionId)}`,
-    {
-      method: "GET",
-      headers: { Authorization: `Bearer ${token}` },
-    },
+    token,
+    { method: "GET", signal },
   );
 
   if (!response.ok) {
@@ -276,18 +384,23 @@ async function fetchSessionWithMessages(
 async function persistMessages(
   token: string,
   sessionId: string,
-  messages: Array<{ role: string; content: string; external_id?: string }>,
+  messages: Array<{
+    role: string;
+    content: string;
+    external_id?: string;
+    tokens_input?: number;
+    tokens_output?: number;
+    metadata?: Record<string, unknown>;
+  }>,
 ): Promise<void> {
   try {
-    const proUrl = getTalentProUrl();
-    await fetch(
+    const proUrl = getProUrl();
+    await fetchWithAuth(
       `${proUrl}/api/ai-chat/sessions/${encodeURIComponent(sessionId)}/messages/bulk`,
+      token,
       {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
+        headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ messages }),
       },
     );
@@ -312,6 +425,50 @@ function aiChatMessagesToUIMessages(messages: AiChatMessage[]): UIMessage[] {
     }));
 }
 
+/** Tools whose outputs buildResult turns into a structured result. */
+const RESULT_TOOLS = new Set([
+  "searchProfiles",
+  "searchInTable",
+  "getProfileDetails",
+]);
+
+/**
+ * Rebuild a session's lastResult from persisted tool call history.
+ *
+ * Finds the most recent assistant message that carries a searchProfiles,
+ * searchInTable or getProfileDetails result and replays it through
+ * buildResult, paired with the user message that prompted it. Returns null
+ * when the history has no usable tool results.
+ */
+export function rebuildLastResult(
+  sessionId: string,
+  messages: AiChatMessage[],
+): AgentResult | null {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i]!;
+    const toolResults = (message.tool_calls ?? [])
+      .filter((tc) => RESULT_TOOLS.has(tc.tool_name) && tc.result != null)
+      .map((tc) => ({ toolName: tc.tool_name, result: tc.result }));
+    if (toolResults.length === 0) continue;
+
+    let queryText = "";
+    for (let j = i - 1; j >= 0; j--) {
+      if (messages[j]!.role === "user") {
+        queryText = messages[j]!.content ?? "";
+        break;
+      }
+    }
+
+    return buildResult(
+      sessionId,
+      queryText,
+      message.content ?? "",
+      toolResults,
+    );
+  }
+  return null;
+}
+
 /**
  * Ensure a session is loaded into the local cache.
  *
@@ -322,33 +479,170 @@ function aiChatMessagesToUIMessages(messages: AiChatMessage[]): UIMessage[] {
 async function ensureSession(
   token: string,
   sessionId?: string,
+  signal?: AbortSignal,
 ): Promise<Session> {
-  // Already cached locally
+  // Already cached locally (in memory or on disk)
   if (sessionId) {
-    const existing = sessions.get(sessionId);
+    const existing = findSession(sessionId);
     if (existing) return existing;
   }
 
   // Create a new server session
   if (!sessionId) {
-    const newId = await createServerSession(token);
-    const session: Session = { id: newId, messages: [], lastResult: null };
+    const newId = await createServerSession(token, signal);
+    const session: Session = {
+      id: newId,
+      messages: [],
+      lastResult: null,
+      serverSessionId: newId,
+    };
     sessions.set(newId, session);
     return session;
   }
 
   // Load from server
-  const serverMessages = await fetchSessionWithMessages(token, sessionId);
+  const serverMessages = await fetchSessionWithMessages(
+    token,
+    sessionId,
+    signal,
+  );
   const uiMessages = aiChatMessagesToUIMessages(serverMessages);
   const session: Session = {
     id: sessionId,
     messages: uiMessages,
-    lastResult: null,
+    lastResult: rebuildLastResult(sessionId, serverMessages),
+    serverSessionId: sessionId,
   };
   sessions.set(sessionId, session);
+  if (session.lastResult) writeCachedSession(session);
   return session;
 }
 
+/**
+ * Resolve a session by ID for export, loading it from the server if it is
+ * not cached in this process.
+ */
+export async function loadSession(sessionId: string): Promise<Session> {
+  const cached = findSession(sessionId);
+  if (cached) return cached;
+
+  const token = await getValidToken();
+  if (!token) {
+    throw new Error(authRequiredMessage());
+  }
+  return ensureSession(token, sessionId);
+}
+
+/**
+ * Re-register a session's history with the server.
+ *
+ * Creates a fresh /api/ai-chat session, uploads the text messages, and
+ * re-keys the local cache entry under the new server session ID so later
+ * queries continue the uploaded conversation.
+ */
+export async function registerSession(session: Session): Promise<Session> {
+  const token = await getValidToken();
+  if (!token) {
+    throw new Error(authRequiredMessage());
+  }
+
+  const newId = await createServerSession(token);
+  const messages = session.messages
+    .filter((m) => m.role === "user" || m.role === "assistant")
+    .map((m) => ({
+      role: m.role,
+      content: m.parts
+        .filter((p) => p.type === "text" && p.text)
+        .map((p) => p.text)
+        .join(""),
+      external_id: m.id,
+    }));
+  if (messages.length > 0) {
+    await persistMessages(token, newId, messages);
+  }
+
+  sessions.delete(session.id);
+  const registered: Session = {
+    ...session,
+    id: newId,
+    serverSessionId: newId,
+    lastResult: session.lastResult
+      ? { ...session.lastResult, session: newId }
+      : null,
+    ...(session.lastSearch && {
+      lastSearch: { ...session.lastSearch, session: newId },
+    }),
+  };
+  sessions.set(newId, registered);
+  writeCachedSession(registered);
+  return registered;
+}
+
+/**
+ * Facts about one /api/chat call that are not stream events: HTTP retries
+ * and, when the server reports them, token usage, model and finish reason.
+ */
+interface ChatStats {
+  retries: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+  model?: string;
+  finishReason?: string;
+}
+
+/**
+ * Read a usage object in AI SDK v5 (`inputTokens`/`outputTokens`) or v4
+ * (`promptTokens`/`completionTokens`) shape.
+ */
+function parseUsage(
+  value: unknown,
+): { input?: number; output?: number; total?: number } | null {
+  if (!value || typeof value !== "object") return null;
+  const usage = value as Record<string, unknown>;
+  const num = (...keys: string[]) => {
+    for (const key of keys) {
+      if (typeof usage[key] === "number") return usage[key] as number;
+    }
+    return undefined;
+  };
+  const input = num("inputTokens", "promptTokens");
+  const output = num("outputTokens", "completionTokens");
+  const total = num("totalTokens");
+  if (input === undefined && output === undefined && total === undefined) {
+    return null;
+  }
+  return { input, output, total };
+}
+
+/**
+ * Usage-related fields of AgentMeta. `tokensUsed` is the reported total,
+ * or input + output when no total was sent.
+ */
+function usageMeta(
+  stats: ChatStats,
+): Pick<
+  AgentMeta,
+  "tokensUsed" | "inputTokens" | "outputTokens" | "model" | "finishReason"
+> {
+  return {
+    tokensUsed:
+      stats.totalTokens ?? (stats.inputTokens ?? 0) + (stats.outputTokens ?? 0),
+    inputTokens: stats.inputTokens,
+    outputTokens: stats.outputTokens,
+    model: stats.model,
+    finishReason: stats.finishReason,
+  };
+}
+
+/** Collected form of a chat stream (see `extractToolResults`). */
+interface ParsedStreamResult {
+  textParts: string[];
+  toolCalls: { toolCallId: string; toolName: string; args: unknown }[];
+  toolResults: { toolCallId: string; toolName: string; result: unknown }[];
+  error: string | null;
+}
+
 /**
  * Parse the AI SDK UI message stream response.
  *
@@ -360,36 +654,124 @@ async function ensureSession(
  * - tool-input-available: complete tool call with input
  * - tool-output-available: tool result with output
  * - error: error messages
+ *
+ * Usage, model and finish reason from `finish-step`, `finish` and message
+ * metadata are recorded in `stats` when given (step usage is summed unless
+ * `finish` reports a total for the whole message).
+ *
+ * Events are yielded as soon as their line arrives. Read failures are
+ * reported as an `error` event rather than thrown, except when `signal`
+ * aborts: then the abort reason (AbortError / TimeoutError) is thrown.
  */
-interface ParsedStreamResult {
-  textParts: string[];
-  toolCalls: { toolCallId: string; toolName: string; args: unknown }[];
-  toolResults: { toolCallId: string; toolName: string; result: unknown }[];
-  error: string | null;
-}
-
-async function parseUIMessageStream(
+async function* readUIMessageStream(
   response: Response,
-): Promise<ParsedStreamResult> {
-  const result: ParsedStreamResult = {
-    textParts: [],
-    toolCalls: [],
-    toolResults: [],
-    error: null,
-  };
-
+  signal?: AbortSignal,
+  stats?: ChatStats,
+): AsyncGenerator<StreamEvent> {
   if (!response.body) {
-    result.error = "Empty response body";
-    return result;
+    yield { type: "error", error: "Empty response body" };
+    return;
   }
 
   const reader = response.body.getReader();
   const decoder = new TextDecoder();
   let buffer = "";
 
+  // Unblock a pending read() as soon as the caller gives up on the request
+  const onAbort = () => {
+    reader.cancel(signal?.reason).catch(() => {});
+  };
+  signal?.addEventListener("abort", onAbort, { once: true });
+
   // Map from toolCallId to toolName for matching tool results
   const toolCallIdToName = new Map<string, string>();
 
+  function recordUsage(value: unknown, accumulate: boolean): void {
+    const usage = parseUsage(value);
+    if (!usage || !stats) return;
+    const add = (prev: number | undefined, next: number | undefined) =>
+      next === undefined ? prev : accumulate ? (prev ?? 0) + next : next;
+    stats.inputTokens = add(stats.inputTokens, usage.input);
+    stats.outputTokens = add(stats.outputTokens, usage.output);
+    stats.totalTokens = add(stats.totalTokens, usage.total);
+  }
+
+  function recordMetadata(value: unknown): void {
+    if (!value || typeof value !== "object" || !stats) return;
+    const metadata = value as Record<string, unknown>;
+    recordUsage(metadata.usage ?? metadata.totalUsage, false);
+    const model = metadata.model ?? metadata.modelId;
+    if (typeof model === "string") stats.model = model;
+    if (typeof metadata.finishReason === "string") {
+      stats.finishReason = metadata.finishReason;
+    }
+  }
+
+  function parseLine(line: string): StreamEvent | null {
+    const trimmed = line.trim();
+
+    // SSE format: "data: {JSON}" or "data: [DONE]"
+    if (!trimmed.startsWith("data: ")) return null;
+    const payload = trimmed.slice(6); // Strip "data: " prefix
+
+    // End-of-stream sentinel
+    if (payload === "[DONE]") return null;
+
+    let event: Record<string, unknown>;
+    try {
+      event = JSON.parse(payload) as Record<string, unknown>;
+    } catch {
+      // Skip lines that can't be parsed as JSON
+      return null;
+    }
+
+    switch (event.type as string) {
+      case "text-delta": {
+        const delta = event.delta as string;
+        return delta ? { type: "text-delta", delta } : null;
+      }
+      case "tool-input-available": {
+        // Complete tool call with parsed input
+        const toolCallId = event.toolCallId as string;
+        const toolName = event.toolName as string;
+        toolCallIdToName.set(toolCallId, toolName);
+        return { type: "tool-call", toolCallId, toolName, args: event.input };
+      }
+      case "tool-output-available": {
+        // Tool result with output
+        const toolCallId = event.toolCallId as string;
+        return {
+          type: "tool-result",
+          toolCallId,
+          toolName: toolCallIdToName.get(toolCallId) || "unknown",
+          result: event.output,
+        };
+      }
+      case "error": {
+        const errorMsg = event.message as string;
+        return errorMsg ? { type: "error", error: errorMsg } : null;
+      }
+      case "finish-step":
+        recordUsage(event.usage, true);
+        return null;
+      case "finish":
+        recordUsage(event.usage ?? event.totalUsage, false);
+        if (stats && typeof event.finishReason === "string") {
+          stats.finishReason = event.finishReason;
+        }
+        recordMetadata(event.messageMetadata);
+        return null;
+      case "start":
+      case "message-metadata":
+        recordMetadata(event.messageMetadata);
+        return null;
+      // Ignore: start-step, text-start, text-end, tool-input-start,
+      // tool-input-delta
+      default:
+        return null;
+    }
+  }
+
   try {
     while (true) {
       const { done, value } = await reader.read();
@@ -402,109 +784,57 @@ async function parseUIMessageStream(
       buffer = lines.pop() ?? ""; // Keep the last incomplete line in the buffer
 
       for (const line of lines) {
-        const trimmed = line.trim();
-        if (!trimmed) continue;
-
-        // SSE format: "data: {JSON}" or "data: [DONE]"
-        if (!trimmed.startsWith("data: ")) continue;
-        const payload = trimmed.slice(6); // Strip "data: " prefix
-
-        // End-of-stream sentinel
-        if (payload === "[DONE]") continue;
-
-        try {
-          const event = JSON.parse(payload) as Record<string, unknown>;
-          const eventType = event.type as string;
-
-          switch (eventType) {
-            case "text-delta": {
-              const delta = event.delta as string;
-              if (delta) result.textParts.push(delta);
-              break;
-            }
-            case "tool-input-available": {
-              // Complete tool call with parsed input
-              const toolCallId = event.toolCallId as string;
-              const toolName = event.toolName as string;
-              const input = event.input;
-              result.toolCalls.push({
-                toolCallId,
-                toolName,
-                args: input,
-              });
-              toolCallIdToName.set(toolCallId, toolName);
-              break;
-            }
-            case "tool-output-available": {
-              // Tool result with output
-              const toolCallId = event.toolCallId as string;
-              const output = event.output;
-              const toolName = toolCallIdToName.get(toolCallId) || "unknown";
-              result.toolResults.push({
-                toolCallId,
-                toolName,
-                result: output,
-              });
-              break;
-            }
-            case "error": {
-              const errorMsg = event.message as string;
-              if (errorMsg) result.error = errorMsg;
-              break;
-            }
-            // Ignore: start, start-step, finish-step, finish,
-            // text-start, text-end, tool-input-start, tool-input-delta
-            default:
-              break;
-          }
-        } catch {
-          // Skip lines that can't be parsed as JSON
-        }
+        const event = parseLine(line);
+        if (event) yield event;
       }
     }
 
+    if (signal?.aborted) throw signal.reason;
+
     // Process any remaining buffer
-    if (buffer.trim()) {
-      const trimmed = buffer.trim();
-      if (trimmed.startsWith("data: ")) {
-        const payload = trimmed.slice(6);
-        if (payload !== "[DONE]") {
-          try {
-            const event = JSON.parse(payload) as Record<string, unknown>;
-            if (event.type === "text-delta") {
-              const delta = event.delta as string;
-              if (delta) result.textParts.push(delta);
-            }
-          } catch {
-            // Ignore
-          }
-        }
-      }
-    }
+    const event = parseLine(buffer);
+    if (event) yield event;
   } catch (err) {
-    result.error = err instanceof Error ? err.message : String(err);
+    if (signal?.aborted) throw signal.reason;
+    yield {
+      type: "error",
+      error: err instanceof Error ? err.message : String(err),
+    };
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+    // Stop the download if the consumer stopped iterating early
+    reader.cancel().catch(() => {});
   }
-
-  return result;
 }
 
 /**
- * Call the talent-pro /api/chat endpoint with the given messages.
+ * Call the talent-pro /api/chat endpoint with the given messages and stream
+ * the parsed events back.
+ *
+ * Rejected requests (429/503, refused connections) are retried before the
+ * stream starts; `stats.retries` records how many. A failure after stream
+ * bytes have arrived is never retried. Token usage reported by the stream
+ * is recorded in `stats` as well.
  */
-async function callChatApi(
+async function* streamChatApi(
   messages: UIMessage[],
   token: string,
-): Promise<ParsedStreamResult> {
-  const proUrl = getTalentProUrl();
-
-  const response = await fetch(`${proUrl}/api/chat`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${token}`,
+  stats: ChatStats,
+  signal?: AbortSignal,
+): AsyncGenerator<StreamEvent> {
+  const proUrl = getProUrl();
+
+  const { response, retries } = await fetchWithAuth(
+    `${proUrl}/api/chat`,
+    token,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ messages }),
+      signal,
     },
-    body: JSON.stringify({ messages }),
-  });
+  );
+  stats.retries = retries;
 
   if (!response.ok) {
     let errorMessage = `Chat API error: ${response.status}`;
@@ -517,7 +847,7 @@ async function callChatApi(
     throw new Error(errorMessage);
   }
 
-  return parseUIMessageStream(response);
+  yield* readUIMessageStream(response, signal, stats);
 }
 
 // ─── Result Builder ─────────────────────────────────────────────────────────
@@ -604,10 +934,102 @@ export function buildResult(
   };
 }
 
+// ─── Pagination ─────────────────────────────────────────────────────────────
+
+export const DEFAULT_PAGE_SIZE = 10;
+
+/**
+ * Append a paging instruction to a query so the agent returns the requested
+ * slice of matches. Returns the input unchanged when no paging is requested.
+ */
+export function withPageDirective(
+  input: string,
+  page?: number,
+  limit?: number,
+): string {
+  if (page === undefined && limit === undefined) return input;
+  const pageSize = limit ?? DEFAULT_PAGE_SIZE;
+  const offset = ((page ?? 1) - 1) * pageSize;
+  return `${input}\n\n(Return ${pageSize} profiles per page: page ${page ?? 1}, results ${offset + 1}-${offset + pageSize}.)`;
+}
+
+/**
+ * Attach pagination info to a search result, trimming the profiles to the
+ * page size if the agent returned more than asked for. Returns the result
+ * unchanged when no paging is requested.
+ *
+ * `previous` is the session's result before this turn. If the agent ignored
+ * the page directive and sent the same profiles again, the result keeps the
+ * previous page's position instead of claiming the requested one.
+ */
+export function paginate(
+  result: SearchResult,
+  page?: number,
+  limit?: number,
+  previous?: AgentResult | null,
+): SearchResult {
+  if (page === undefined && limit === undefined) return result;
+  const pageSize = limit ?? DEFAULT_PAGE_SIZE;
+  const profiles = result.profiles.slice(0, pageSize);
+  const advanced = !(
+    previous?.type === "search" &&
+    profiles.length > 0 &&
+    sameProfiles(profiles, previous.profiles)
+  );
+  const pageNumber = advanced ? (page ?? 1) : (previous.pagination?.page ?? 1);
+  const offset = advanced
+    ? (pageNumber - 1) * pageSize
+    : (previous.pagination?.offset ?? 0);
+  return {
+    ...result,
+    profiles,
+    pagination: {
+      page: pageNumber,
+      pageSize,
+      offset,
+      hasMore: offset + profiles.length < result.totalMatches,
+    },
+  };
+}
+
+/**
+ * Whether a search has matches past the profiles it shows. Results without
+ * pagination info show the first page.
+ */
+export function hasMoreResults(result: SearchResult): boolean {
+  return (
+    result.pagination?.hasMore ?? result.profiles.length < result.totalMatches
+  );
+}
+
+function sameProfiles(a: ProfileSummary[], b: ProfileSummary[]): boolean {
+  return a.length === b.length && a.every((p, i) => p.id === b[i]!.id);
+}
+
 // ─── Main Query Function ────────────────────────────────────────────────────
 
 export interface QueryOptions {
   debug?: boolean;
+  /** 1-based page of results to request. */
+  page?: number;
+  /** Profiles per page (default DEFAULT_PAGE_SIZE when paging). */
+  limit?: number;
+  /** Abort the call (every fetch and the chat stream) when this fires. */
+  signal?: AbortSignal;
+  /** Give up after this many milliseconds with a TIMEOUT error. */
+  timeoutMs?: number;
+}
+
+/**
+ * Combine the caller's signal and timeout into a single signal for the
+ * requests made by one agent call.
+ */
+function requestSignal(options?: QueryOptions): AbortSignal | undefined {
+  const signals: AbortSignal[] = [];
+  if (options?.signal) signals.push(options.signal);
+  if (options?.timeoutMs) signals.push(AbortSignal.timeout(options.timeoutMs));
+  if (signals.length <= 1) return signals[0];
+  return AbortSignal.any(signals);
 }
 
 /**
@@ -624,22 +1046,79 @@ export async function query(
   sessionId?: string,
   options?: QueryOptions,
 ): Promise<{ result: AgentResult; meta: AgentMeta }> {
+  for await (const event of queryStream(input, sessionId, options)) {
+    if (event.type === "done") {
+      return { result: event.result, meta: event.meta };
+    }
+  }
+  // queryStream always finishes with a "done" event
+  throw new Error("Query stream ended without a result");
+}
+
+/**
+ * Streaming variant of `query()`.
+ *
+ * Yields text deltas and tool steps as the agent produces them, then a
+ * final `done` event carrying the same `{ result, meta }` that `query()`
+ * returns. Session bookkeeping happens before `done` is yielded, and the
+ * call is recorded in the usage ledger (see usage.ts).
+ */
+export async function* queryStream(
+  input: string,
+  sessionId?: string,
+  options?: QueryOptions,
+): AsyncGenerator<QueryStreamEvent> {
+  for await (const event of runChatTurn(input, sessionId, options)) {
+    if (event.type === "done") {
+      appendUsage(toUsageRecord("search", event.result, event.meta));
+    }
+    yield event;
+  }
+}
+
+/** One chat turn for `queryStream()`, without usage recording. */
+async function* runChatTurn(
+  input: string,
+  sessionId?: string,
+  options?: QueryOptions,
+): AsyncGenerator<QueryStreamEvent> {
   // Get auth token
   const token = await getValidToken();
   if (!token) {
-    return {
+    yield {
+      type: "done",
       result: {
         type: "error",
         session: sessionId ?? "",
-        error: "Not authenticated. Run 'talent-agent login' first.",
+        error: authRequiredMessage(),
         code: "AUTH_ERROR",
       },
       meta: { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
     };
+    return;
   }
 
+  const signal = requestSignal(options);
+
   // Ensure session exists (creates server session or loads from server)
-  const session = await ensureSession(token, sessionId);
+  let session: Session;
+  try {
+    session = await ensureSession(token, sessionId, signal);
+  } catch (error) {
+    if (!signal?.aborted) throw error;
+    const friendly = toAIFriendlyError(signal.reason);
+    yield {
+      type: "done",
+      result: {
+        type: "error",
+        session: sessionId ?? "",
+        error: friendly.message,
+        code: friendly.code,
+      },
+      meta: { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
+    };
+    return;
+  }
 
   // Build the user message in AI SDK UIMessage format
   const userMessageId = nanoid();
@@ -649,97 +1128,172 @@ export async function query(
     parts: [{ type: "text", text: input }],
   };
   session.messages.push(userMessage);
+  const previousSearch = lastSearchResult(session);
+
+  // The page directive is for the agent only; history keeps the user's words
+  const messageText = withPageDirective(input, options?.page, options?.limit);
+  const chatMessages =
+    messageText === input
+      ? session.messages
+      : [
+          ...session.messages.slice(0, -1),
+          {
+            ...userMessage,
+            parts: [{ type: "text" as const, text: messageText }],
+          },
+        ];
 
   const startTime = performance.now();
 
+  const textParts: string[] = [];
+  const toolCalls: { toolName: string; args: unknown }[] = [];
+  const toolResults: { toolName: string; result: unknown }[] = [];
+  let streamError: string | null = null;
+  const stats: ChatStats = { retries: 0 };
+
   try {
-    const streamResult = await callChatApi(session.messages, token);
+    for await (const event of streamChatApi(
+      chatMessages,
+      token,
+      stats,
+      signal,
+    )) {
+      switch (event.type) {
+        case "text-delta":
+          textParts.push(event.delta);
+          break;
+        case "tool-call":
+          toolCalls.push({ toolName: event.toolName, args: event.args });
+          break;
+        case "tool-result":
+          toolResults.push({
+            toolName: event.toolName,
+            result: event.result,
+          });
+          break;
+        case "error":
+          streamError = event.error;
+          break;
+      }
+      yield event;
+    }
+  } catch (error) {
     const durationMs = Math.round(performance.now() - startTime);
+    const friendly = toAIFriendlyError(signal?.aborted ? signal.reason : error);
 
-    if (streamResult.error) {
-      const errResult: ErrorResult = {
-        type: "error",
-        session: session.id,
-        error: streamResult.error,
-      };
+    const errResult: ErrorResult = {
+      type: "error",
+      session: session.id,
+      error: friendly.message,
+      code: friendly.code,
+    };
+    if (signal?.aborted) {
+      // Abandoned turn: drop the unanswered message, keep the last result
+      session.messages.splice(session.messages.indexOf(userMessage), 1);
+    } else {
       session.lastResult = errResult;
-      return {
-        result: errResult,
-        meta: { durationMs, tokensUsed: 0, toolsCalled: [] },
-      };
-    }
-
-    const textResponse = streamResult.textParts.join("");
-    const toolNames = streamResult.toolCalls.map((tc) => tc.toolName);
-
-    if (options?.debug) {
-      for (const tc of streamResult.toolCalls) {
-        process.stderr.write(`[debug] Agent calling: ${tc.toolName}\n`);
-        process.stderr.write(
-          `[debug] Tool input: ${JSON.stringify(tc.args)}\n`,
-        );
-      }
-      process.stderr.write(
-        `[debug] Agent total: ${(durationMs / 1000).toFixed(1)}s\n`,
-      );
+      writeCachedSession(session);
     }
 
-    // Store assistant response in local session history.
-    // Only keep text parts — tool-call/tool-result parts are ephemeral and
-    // the server rejects them on subsequent requests (requires "data-" prefix).
-    const assistantMessageId = nanoid();
-    session.messages.push({
-      id: assistantMessageId,
-      role: "assistant",
-      parts: textResponse ? [{ type: "text", text: textResponse }] : [],
-    });
-
-    // Persist both messages to the server (fire-and-forget)
-    persistMessages(token, session.id, [
-      { role: "user", content: input, external_id: userMessageId },
-      {
-        role: "assistant",
-        content: textResponse,
-        external_id: assistantMessageId,
+    yield {
+      type: "done",
+      result: errResult,
+      meta: {
+        durationMs,
+        ...usageMeta(stats),
+        toolsCalled: [],
+        retries: stats.retries,
       },
-    ]);
-
-    // Build structured result from tool outputs
-    const result = buildResult(
-      session.id,
-      input,
-      textResponse,
-      streamResult.toolResults.map((tr) => ({
-        toolName: tr.toolName,
-        result: tr.result,
-      })),
-    );
-    session.lastResult = result;
-
-    const meta: AgentMeta = {
-      durationMs,
-      tokensUsed: 0, // Not available from streaming response
-      toolsCalled: toolNames,
     };
+    return;
+  }
 
-    return { result, meta };
-  } catch (error) {
-    const durationMs = Math.round(performance.now() - startTime);
-    const friendly = toAIFriendlyError(error);
+  const durationMs = Math.round(performance.now() - startTime);
 
+  if (streamError) {
     const errResult: ErrorResult = {
       type: "error",
       session: session.id,
-      error: friendly.message,
-      code: friendly.code,
+      error: streamError,
     };
     session.lastResult = errResult;
-
-    return {
+    writeCachedSession(session);
+    yield {
+      type: "done",
       result: errResult,
-      meta: { durationMs, tokensUsed: 0, toolsCalled: [] },
+      meta: {
+        durationMs,
+        ...usageMeta(stats),
+        toolsCalled: [],
+        retries: stats.retries,
+      },
     };
+    return;
+  }
+
+  const textResponse = textParts.join("");
+  const toolNames = toolCalls.map((tc) => tc.toolName);
+
+  if (options?.debug) {
+    for (const tc of toolCalls) {
+      process.stderr.write(`[debug] Agent calling: ${tc.toolName}\n`);
+      process.stderr.write(`[debug] Tool input: ${JSON.stringify(tc.args)}\n`);
+    }
+    if (stats.retries > 0) {
+      process.stderr.write(`[debug] Chat API retries: ${stats.retries}\n`);
+    }
+    const { tokensUsed } = usageMeta(stats);
+    const tokens = tokensUsed
+      ? `${tokensUsed.toLocaleString("en-US")} tokens, `
+      : "";
+    process.stderr.write(
+      `[debug] Agent total: ${tokens}${(durationMs / 1000).toFixed(1)}s\n`,
+    );
   }
+
+  // Store assistant response in local session history.
+  // Only keep text parts — tool-call/tool-result parts are ephemeral and
+  // the server rejects them on subsequent requests (requires "data-" prefix).
+  const assistantMessageId = nanoid();
+  session.messages.push({
+    id: assistantMessageId,
+    role: "assistant",
+    parts: textResponse ? [{ type: "text", text: textResponse }] : [],
+  });
+
+  // Persist both messages to the server (fire-and-forget)
+  persistMessages(token, session.id, [
+    { role: "user", content: input, external_id: userMessageId },
+    {
+      role: "assistant",
+      content: textResponse,
+      external_id: assistantMessageId,
+      tokens_input: stats.inputTokens,
+      tokens_output: stats.outputTokens,
+      metadata: {
+        ...(stats.model && { model_id: stats.model }),
+        ...(stats.finishReason && { finish_reason: stats.finishReason }),
+      },
+    },
+  ]);
+
+  // Build structured result from tool outputs
+  let result = buildResult(session.id, input, textResponse, toolResults);
+  if (result.type === "search") {
+    result = paginate(result, options?.page, options?.limit, previousSearch);
+    session.lastSearch = result;
+  }
+  session.lastResult = result;
+  writeCachedSession(session);
+
+  const meta: AgentMeta = {
+    durationMs,
+    ...usageMeta(stats),
+    toolsCalled: toolNames,
+    retries: stats.retries,
+  };
+
+  yield { type: "done", result, meta };
 }
 
 /**
@@ -747,14 +1301,87 @@ export async function query(
  *
  * Calls the talent-pro detail endpoint directly instead of going through
  * the LLM chat flow, avoiding unnecessary token usage and latency.
+ * The lookup is recorded in the usage ledger (see usage.ts).
  */
 export async function getDetail(
   sessionId: string,
   profileIndex: number,
-  _options?: QueryOptions,
+  options?: QueryOptions,
+): Promise<{ result: AgentResult; meta: AgentMeta }> {
+  const response = await lookupDetail(sessionId, profileIndex, options);
+  appendUsage(toUsageRecord("detail", response.result, response.meta));
+  return response;
+}
+
+function profileDetailUrl(profileId: string): string {
+  return `${getProUrl()}/api/profile/${encodeURIComponent(profileId)}/detail`;
+}
+
+/**
+ * Fetch a profile's details by profile ID, outside any session (the
+ * /api/profile/{id}/detail payload). Throws on auth or API errors.
+ */
+export async function getProfile(
+  profileId: string,
+  options?: QueryOptions,
+): Promise<DetailedProfile> {
+  const token = await getValidToken();
+  if (!token) {
+    throw new Error(authRequiredMessage());
+  }
+
+  const { response } = await fetchWithAuth(profileDetailUrl(profileId), token, {
+    method: "GET",
+    signal: requestSignal(options),
+  });
+  if (!response.ok) {
+    let errorMessage = `Detail API error: ${response.status}`;
+    try {
+      const body = (await response.json()) as { error?: string };
+      if (body.error) errorMessage = body.error;
+    } catch {
+      // Use default error message
+    }
+    throw new Error(errorMessage);
+  }
+
+  const body = (await response.json()) as { profile: DetailedProfile };
+  return body.profile;
+}
+
+/** Detail lookup for `getDetail()`, without usage recording. */
+async function lookupDetail(
+  sessionId: string,
+  profileIndex: number,
+  options?: QueryOptions,
 ): Promise<{ result: AgentResult; meta: AgentMeta }> {
-  const session = sessions.get(sessionId);
-  if (!session?.lastResult || session.lastResult.type !== "search") {
+  const signal = requestSignal(options);
+  let session = findSession(sessionId);
+  if (!session) {
+    // Not seen locally -- resume it from the server's tool call history
+    const token = await getValidToken();
+    if (token) {
+      try {
+        session = await ensureSession(token, sessionId, signal);
+      } catch {
+        // Unknown on the server too; reported as SESSION_NOT_FOUND below
+      }
+    }
+  }
+  if (signal?.aborted) {
+    const friendly = toAIFriendlyError(signal.reason);
+    return {
+      result: {
+        type: "error",
+        session: sessionId,
+        error: friendly.message,
+        code: friendly.code,
+      },
+      meta: { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
+    };
+  }
+  const search = lastSearchResult(session);
+  if (!session || !search) {
     return {
       result: {
         type: "error",
@@ -766,13 +1393,13 @@ export async function getDetail(
     };
   }
 
-  const profile = session.lastResult.profiles[profileIndex];
+  const profile = search.profiles[profileIndex];
   if (!profile) {
     return {
       result: {
         type: "error",
         session: sessionId,
-        error: `Profile index ${profileIndex} out of range. Last search had ${session.lastResult.profiles.length} results.`,
+        error: `Profile index ${profileIndex} out of range. Last search had ${search.profiles.length} results.`,
         code: "INDEX_OUT_OF_RANGE",
       },
       meta: { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
@@ -785,7 +1412,7 @@ export async function getDetail(
       result: {
         type: "error",
         session: sessionId,
-        error: "Not authenticated. Run 'talent-agent login' first.",
+        error: authRequiredMessage(),
         code: "AUTH_ERROR",
       },
       meta: { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
@@ -795,13 +1422,10 @@ export async function getDetail(
   const startTime = performance.now();
 
   try {
-    const proUrl = getTalentProUrl();
-    const response = await fetch(
-      `${proUrl}/api/profile/${encodeURIComponent(profile.id)}/detail`,
-      {
-        method: "GET",
-        headers: { Authorization: `Bearer ${token}` },
-      },
+    const { response, retries } = await fetchWithAuth(
+      profileDetailUrl(profile.id),
+      token,
+      { method: "GET", signal },
     );
 
     const durationMs = Math.round(performance.now() - startTime);
@@ -821,9 +1445,10 @@ export async function getDetail(
         error: errorMessage,
       };
       session.lastResult = errResult;
+      writeCachedSession(session);
       return {
         result: errResult,
-        meta: { durationMs, tokensUsed: 0, toolsCalled: [] },
+        meta: { durationMs, tokensUsed: 0, toolsCalled: [], retries },
       };
     }
 
@@ -836,6 +1461,7 @@ export async function getDetail(
       summary: "",
     };
     session.lastResult = detailResult;
+    writeCachedSession(session);
 
     return {
       result: detailResult,
@@ -843,11 +1469,12 @@ export async function getDetail(
         durationMs,
         tokensUsed: 0,
         toolsCalled: ["getProfileDetails"],
+        retries,
       },
     };
   } catch (error) {
     const durationMs = Math.round(performance.now() - startTime);
-    const friendly = toAIFriendlyError(error);
+    const friendly = toAIFriendlyError(signal?.aborted ? signal.reason : error);
 
     const errResult: ErrorResult = {
       type: "error",
@@ -855,7 +1482,11 @@ export async function getDetail(
       error: friendly.message,
       code: friendly.code,
     };
-    session.lastResult = errResult;
+    // A cancelled lookup leaves the previous result on screen
+    if (!signal?.aborted) {
+      session.lastResult = errResult;
+      writeCachedSession(session);
+    }
 
     return {
       result: errResult,
@@ -864,6 +1495,71 @@ export async function getDetail(
   }
 }
 
+/**
+ * Fetch another page of the last search in a session.
+ *
+ * Re-asks the agent for the requested slice using the same filters; the
+ * returned result keeps the original query text so it renders as the same
+ * search. `page` is 1-based.
+ */
+export async function fetchPage(
+  sessionId: string,
+  page: number,
+  options?: QueryOptions,
+): Promise<{ result: AgentResult; meta: AgentMeta }> {
+  let session = findSession(sessionId);
+  if (!session) {
+    const token = await getValidToken();
+    if (token) {
+      try {
+        session = await ensureSession(token, sessionId, requestSignal(options));
+      } catch {
+        // Reported as SESSION_NOT_FOUND below
+      }
+    }
+  }
+
+  const last = lastSearchResult(session);
+  if (!last) {
+    return {
+      result: {
+        type: "error",
+        session: sessionId,
+        error: "No search results in this session. Run a search first.",
+        code: "SESSION_NOT_FOUND",
+      },
+      meta: { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
+    };
+  }
+
+  const pageSize =
+    options?.limit ?? last.pagination?.pageSize ?? DEFAULT_PAGE_SIZE;
+  const lastPage = Math.max(1, Math.ceil(last.totalMatches / pageSize));
+  if (!Number.isInteger(page) || page < 1 || page > lastPage) {
+    return {
+      result: {
+        type: "error",
+        session: sessionId,
+        error: `Page ${page} out of range. Last search has ${lastPage} page${lastPage === 1 ? "" : "s"} of ${pageSize}.`,
+        code: "INDEX_OUT_OF_RANGE",
+      },
+      meta: { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
+    };
+  }
+
+  const filters = JSON.stringify(last.appliedFilters);
+  const response = await query(
+    `Show more results for the same search (${last.query}) with the same filters: ${filters}`,
+    sessionId,
+    { ...options, page, limit: pageSize },
+  );
+  if (response.result.type === "search") {
+    response.result.query = last.query;
+    writeCachedSession(session!);
+  }
+  return response;
+}
+
 // ─── Recent Sessions (for TUI History) ──────────────────────────────────────
 
 /** Shape of a session from the /api/ai-chat/sessions response. */
@@ -886,13 +1582,11 @@ export async function fetchRecentSessions(
     const token = await getValidToken();
     if (!token) return [];
 
-    const proUrl = getTalentProUrl();
-    const response = await fetch(
+    const proUrl = getProUrl();
+    const { response } = await fetchWithAuth(
       `${proUrl}/api/ai-chat/sessions?page=1&per_page=${count}`,
-      {
-        method: "GET",
-        headers: { Authorization: `Bearer ${token}` },
-      },
+      token,
+      { method: "GET" },
     );
 
     if (!response.ok) return [];
@@ -911,6 +1605,24 @@ export async function fetchRecentSessions(
   }
 }
 
+/**
+ * Whether talent-pro accepts `token`, checked by listing one chat session.
+ * Returns false on any failure.
+ */
+export async function isTokenAccepted(token: string): Promise<boolean> {
+  try {
+    const { response } = await fetchWithAuth(
+      `${getProUrl()}/api/ai-chat/sessions?page=1&per_page=1`,
+      token,
+      { method: "GET" },
+    );
+    await response.body?.cancel().catch(() => {});
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Extract tool results from a stream response (for MCP/lib usage).
  */
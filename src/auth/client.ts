@@ -2,9 +2,10 @@
  * HTTP client for auth endpoints via talent-pro.
  *
  * All auth requests are routed through talent-pro's /api/auth/* proxy
- * endpoints. The CLI only needs TALENT_PRO_URL — no direct Talent API
- * connection or API key is required.
+ * endpoints. The CLI only needs TALENT_PRO_URL (or a profile's pro-url) —
+ * no direct Talent API connection or API key is required.
  */
+import { getProUrl } from "../config";
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
@@ -24,13 +25,29 @@ export interface CreateNonceResponse {
   nonce: string;
 }
 
-// ─── Helpers ────────────────────────────────────────────────────────────────
-
-function getProUrl(): string {
-  const url = process.env.TALENT_PRO_URL || "https://pro.talent.app";
-  return url.replace(/\/$/, "");
+export interface DeviceCodeResponse {
+  device_code: string;
+  /** Short code the user types at `verification_uri`. */
+  user_code: string;
+  verification_uri: string;
+  /** `verification_uri` with the user code filled in, if supported. */
+  verification_uri_complete?: string;
+  /** Lifetime of the device code in seconds. */
+  expires_in: number;
+  /** Minimum seconds between token polls. */
+  interval?: number;
 }
 
+/** Non-error outcomes of a device token poll (RFC 8628 section 3.5). */
+export type DevicePollStatus =
+  "authorization_pending" | "slow_down" | "access_denied" | "expired_token";
+
+export type DeviceTokenResult =
+  | { status: "approved"; auth: AuthTokenResponse["auth"] }
+  | { status: DevicePollStatus };
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
 function defaultHeaders(): Record<string, string> {
   return {
     "Content-Type": "application/json",
@@ -156,6 +173,61 @@ export async function createAuthToken(
   return response.json() as Promise<AuthTokenResponse>;
 }
 
+/**
+ * Start a device authorization login.
+ * POST /api/auth/device/code
+ */
+export async function requestDeviceCode(): Promise<DeviceCodeResponse> {
+  const response = await fetch(`${getProUrl()}/api/auth/device/code`, {
+    method: "POST",
+    headers: defaultHeaders(),
+    body: JSON.stringify({}),
+  });
+
+  if (!response.ok) {
+    await handleErrorResponse(response, "Failed to start device login");
+  }
+
+  return response.json() as Promise<DeviceCodeResponse>;
+}
+
+const DEVICE_POLL_STATUSES: DevicePollStatus[] = [
+  "authorization_pending",
+  "slow_down",
+  "access_denied",
+  "expired_token",
+];
+
+/**
+ * Poll for the token of a device authorization login. Pending, slow-down,
+ * denied and expired responses are returned as a status; anything else
+ * throws.
+ * POST /api/auth/device/token
+ */
+export async function pollDeviceToken(
+  deviceCode: string,
+): Promise<DeviceTokenResult> {
+  const response = await fetch(`${getProUrl()}/api/auth/device/token`, {
+    method: "POST",
+    headers: defaultHeaders(),
+    body: JSON.stringify({ device_code: deviceCode }),
+  });
+
+  if (response.ok) {
+    const body = (await response.json()) as AuthTokenResponse;
+    return { status: "approved", auth: body.auth };
+  }
+
+  try {
+    const body = (await response.clone().json()) as { error?: string };
+    const status = DEVICE_POLL_STATUSES.find((s) => s === body.error);
+    if (status) return { status };
+  } catch {
+    // Not a device grant error -- report it below
+  }
+  return handleErrorResponse(response, "Failed to poll for device login");
+}
+
 /**
  * Refresh an existing auth token.
  * POST /api/auth/refresh-auth-token
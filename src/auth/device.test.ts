@@ -0,0 +1,204 @@
+/**
+ * Tests for the device authorization login flow.
+ *
+ * Runs the real auth client against a local stub of talent-pro's
+ * /api/auth/device/* endpoints. Credential storage is mocked, and a fake
+ * clock + sleep keep polling instant.
+ */
+import { type Server, createServer } from "node:http";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { runDeviceFlow } from "./device";
+import { saveCredentials } from "./store";
+
+vi.mock("./store", () => ({
+  saveCredentials: vi.fn(),
+}));
+
+// ─── Stub Server ────────────────────────────────────────────────────────────
+
+interface StubReply {
+  status: number;
+  body: unknown;
+}
+
+let server: Server;
+/** Replies to successive token polls; the last one repeats. */
+let tokenReplies: StubReply[];
+let codeReply: StubReply;
+let polls: unknown[];
+
+const originalProUrl = process.env.TALENT_PRO_URL;
+
+beforeEach(async () => {
+  polls = [];
+  codeReply = {
+    status: 200,
+    body: {
+      device_code: "dev-123",
+      user_code: "ABCD-EFGH",
+      verification_uri: "https://pro.talent.app/device",
+      expires_in: 600,
+      interval: 5,
+    },
+  };
+  tokenReplies = [];
+
+  server = createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      let reply: StubReply = { status: 404, body: { error: "Not found" } };
+      if (req.url === "/api/auth/device/code") {
+        reply = codeReply;
+      } else if (req.url === "/api/auth/device/token") {
+        polls.push(JSON.parse(raw));
+        reply =
+          tokenReplies.length > 1 ? tokenReplies.shift()! : tokenReplies[0]!;
+      }
+      res.writeHead(reply.status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(reply.body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as { port: number };
+  process.env.TALENT_PRO_URL = `http://127.0.0.1:${port}`;
+
+  vi.spyOn(process.stderr, "write").mockReturnValue(true);
+});
+
+afterEach(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  if (originalProUrl === undefined) delete process.env.TALENT_PRO_URL;
+  else process.env.TALENT_PRO_URL = originalProUrl;
+  vi.restoreAllMocks();
+  vi.clearAllMocks();
+});
+
+/** A clock that only moves when the flow sleeps. */
+function fakeTime() {
+  let time = 0;
+  const sleeps: number[] = [];
+  return {
+    sleeps,
+    now: () => time,
+    sleep: async (ms: number) => {
+      sleeps.push(ms);
+      time += ms;
+    },
+  };
+}
+
+const pending = { status: 400, body: { error: "authorization_pending" } };
+const approved = {
+  status: 200,
+  body: { auth: { token: "device-jwt", expires_at: 1700000000 } },
+};
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+
+describe("runDeviceFlow", () => {
+  it("prints the user code, polls until approved and saves credentials", async () => {
+    tokenReplies = [pending, pending, approved];
+    const clock = fakeTime();
+
+    const creds = await runDeviceFlow(clock);
+
+    expect(creds).toEqual({
+      token: "device-jwt",
+      expiresAt: 1700000000,
+      authMethod: "device",
+    });
+    expect(saveCredentials).toHaveBeenCalledWith(creds);
+    expect(polls).toEqual([
+      { device_code: "dev-123" },
+      { device_code: "dev-123" },
+      { device_code: "dev-123" },
+    ]);
+    expect(clock.sleeps).toEqual([5000, 5000, 5000]);
+    const output = vi
+      .mocked(process.stderr.write)
+      .mock.calls.map((c) => String(c[0]))
+      .join("");
+    expect(output).toContain("ABCD-EFGH");
+    expect(output).toContain("https://pro.talent.app/device");
+  });
+
+  it("prefers the verification URL with the code filled in", async () => {
+    (codeReply.body as Record<string, unknown>).verification_uri_complete =
+      "https://pro.talent.app/device?code=ABCD-EFGH";
+    tokenReplies = [approved];
+
+    await runDeviceFlow(fakeTime());
+
+    const output = vi
+      .mocked(process.stderr.write)
+      .mock.calls.map((c) => String(c[0]))
+      .join("");
+    expect(output).toContain("https://pro.talent.app/device?code=ABCD-EFGH");
+  });
+
+  it("backs off by five seconds on every slow_down", async () => {
+    const slowDown = { status: 400, body: { error: "slow_down" } };
+    tokenReplies = [slowDown, slowDown, pending, approved];
+    const clock = fakeTime();
+
+    await runDeviceFlow(clock);
+
+    expect(clock.sleeps).toEqual([5000, 10000, 15000, 15000]);
+  });
+
+  it("defaults to a five second interval", async () => {
+    delete (codeReply.body as Record<string, unknown>).interval;
+    tokenReplies = [approved];
+    const clock = fakeTime();
+
+    await runDeviceFlow(clock);
+
+    expect(clock.sleeps).toEqual([5000]);
+  });
+
+  it("stops polling when the code's lifetime runs out", async () => {
+    (codeReply.body as Record<string, unknown>).expires_in = 12;
+    tokenReplies = [pending];
+    const clock = fakeTime();
+
+    await expect(runDeviceFlow(clock)).rejects.toThrow(
+      "The device code expired before it was approved",
+    );
+    expect(polls).toHaveLength(2);
+    expect(saveCredentials).not.toHaveBeenCalled();
+  });
+
+  it("fails when the server reports expired_token", async () => {
+    tokenReplies = [{ status: 400, body: { error: "expired_token" } }];
+
+    await expect(runDeviceFlow(fakeTime())).rejects.toThrow(
+      "The device code expired",
+    );
+  });
+
+  it("fails when the user denies the login", async () => {
+    tokenReplies = [pending, { status: 400, body: { error: "access_denied" } }];
+
+    await expect(runDeviceFlow(fakeTime())).rejects.toThrow(
+      "Device login was denied.",
+    );
+    expect(saveCredentials).not.toHaveBeenCalled();
+  });
+
+  it("surfaces other server errors", async () => {
+    tokenReplies = [{ status: 500, body: { error: "Internal error" } }];
+
+    await expect(runDeviceFlow(fakeTime())).rejects.toThrow("Internal error");
+  });
+
+  it("fails when the device code can't be created", async () => {
+    codeReply = { status: 404, body: { message: "Device login disabled" } };
+
+    await expect(runDeviceFlow(fakeTime())).rejects.toThrow(
+      "Device login disabled",
+    );
+    expect(polls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Device authorization login (`talent-agent login --device`).
+ *
+ * For machines where the Google flow's localhost callback and browser launch
+ * don't work (SSH sessions, containers): the CLI asks talent-pro for a device
+ * code, prints a short user code and a URL to open on any other device, and
+ * polls until the user approves. Polling follows the OAuth 2.0 device grant
+ * (RFC 8628): `authorization_pending` keeps polling, `slow_down` adds five
+ * seconds to the interval, and `access_denied`, `expired_token` or the code's
+ * own lifetime running out end the login.
+ */
+import { pollDeviceToken, requestDeviceCode } from "./client";
+import { type StoredCredentials, saveCredentials } from "./store";
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Poll interval when the server doesn't send one (RFC 8628 default). */
+const DEFAULT_INTERVAL_SECONDS = 5;
+
+/** Added to the interval on every `slow_down` response. */
+const SLOW_DOWN_SECONDS = 5;
+
+// ─── Flow ───────────────────────────────────────────────────────────────────
+
+export interface DeviceFlowOptions {
+  /** Waits between polls; tests pass a fake to avoid real delays. */
+  sleep?: (ms: number) => Promise<void>;
+  /** Current time in ms; tests pass a fake clock alongside `sleep`. */
+  now?: () => number;
+}
+
+function printToStderr(message: string): void {
+  process.stderr.write(message + "\n");
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function codeExpiredError(): Error {
+  return new Error(
+    "The device code expired before it was approved. Run 'talent-agent login --device' again.",
+  );
+}
+
+export async function runDeviceFlow(
+  options: DeviceFlowOptions = {},
+): Promise<StoredCredentials> {
+  const sleep = options.sleep ?? defaultSleep;
+  const now = options.now ?? Date.now;
+
+  printToStderr("Starting device login...");
+  const device = await requestDeviceCode();
+  const expiresAt = now() + device.expires_in * 1_000;
+  let intervalMs = (device.interval ?? DEFAULT_INTERVAL_SECONDS) * 1_000;
+
+  printToStderr(
+    `\nOn any device, open:\n  ${device.verification_uri_complete ?? device.verification_uri}`,
+  );
+  printToStderr(`and enter the code:\n  ${device.user_code}\n`);
+  printToStderr("Waiting for approval...");
+
+  for (;;) {
+    await sleep(intervalMs);
+    if (now() >= expiresAt) throw codeExpiredError();
+
+    const result = await pollDeviceToken(device.device_code);
+    switch (result.status) {
+      case "approved": {
+        const creds: StoredCredentials = {
+          token: result.auth.token,
+          expiresAt: result.auth.expires_at,
+          authMethod: "device",
+        };
+        saveCredentials(creds);
+        printToStderr("Authenticated with device code");
+        return creds;
+      }
+      case "authorization_pending":
+        continue;
+      case "slow_down":
+        intervalMs += SLOW_DOWN_SECONDS * 1_000;
+        continue;
+      case "access_denied":
+        throw new Error("Device login was denied.");
+      case "expired_token":
+        throw codeExpiredError();
+    }
+  }
+}
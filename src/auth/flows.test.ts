@@ -4,6 +4,9 @@
  * Mocks readline (prompts), the auth client, and credential storage
  * to test the email, Google, wallet, and interactive login selection flows.
  */
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 import {
@@ -11,14 +14,17 @@ import {
   createNonce,
   emailRequestCode,
   emailVerifyCode,
+  refreshAuthToken,
 } from "./client";
 import {
   runEmailFlow,
   runGoogleFlow,
   runInteractiveLogin,
+  runTokenFlow,
   runWalletFlow,
 } from "./flows";
 import { saveCredentials } from "./store";
+import { recoverPersonalMessageAddress } from "./wallet";
 
 // Mock node:readline — vi.mock works with ESM (vi.spyOn does not)
 const mockQuestion = vi.fn();
@@ -71,6 +77,9 @@ vi.mock("./client", () => ({
     auth: { token: "wallet-jwt", expires_at: 1700000000 },
   }),
   getCliAuthUrl: vi.fn().mockReturnValue("https://pro.talent.app"),
+  refreshAuthToken: vi.fn().mockResolvedValue({
+    auth: { token: "refreshed-jwt", expires_at: 1700000000 },
+  }),
 }));
 
 vi.mock("./store", () => ({
@@ -179,6 +188,86 @@ describe("runWalletFlow", () => {
 
     await expect(runWalletFlow()).rejects.toThrow("Signature is required");
   });
+
+  it("adds an expiration time and request ID to the SIWE message", async () => {
+    setPromptAnswers("0x1234567890abcdef1234567890abcdef12345678", "0xsig");
+
+    await runWalletFlow();
+
+    const message = vi.mocked(createAuthToken).mock.calls[0]![3];
+    expect(message).toMatch(/^Expiration Time: \S+Z$/m);
+    expect(message).toMatch(/^Request ID: [0-9a-f-]{36}$/m);
+  });
+
+  it("uses the given chain ID", async () => {
+    setPromptAnswers("0x1234567890abcdef1234567890abcdef12345678", "0xsig");
+
+    await runWalletFlow({ chainId: 8453 });
+
+    const [, , chainId, message] = vi.mocked(createAuthToken).mock.calls[0]!;
+    expect(chainId).toBe(8453);
+    expect(message).toContain("Chain ID: 8453");
+  });
+
+  describe("with a key file", () => {
+    // web3.js docs example account
+    const KEY =
+      "0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318";
+    const KEY_ADDRESS = "0x2c7536E3605D9C16a7a3D7b1898e529396a65c23";
+    let keyFile: string;
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), "talent-agent-flows-test-"));
+      keyFile = join(tempDir, "key.txt");
+      writeFileSync(keyFile, KEY);
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("signs locally without prompting", async () => {
+      const creds = await runWalletFlow({ keyFile });
+
+      expect(mockQuestion).not.toHaveBeenCalled();
+      expect(createNonce).toHaveBeenCalledWith(KEY_ADDRESS);
+      const [address, signature, , message] =
+        vi.mocked(createAuthToken).mock.calls[0]!;
+      expect(address).toBe(KEY_ADDRESS);
+      expect(recoverPersonalMessageAddress(message, signature)).toBe(
+        KEY_ADDRESS,
+      );
+      expect(creds.address).toBe(KEY_ADDRESS);
+    });
+
+    it("signs in as a smart account with an owner key", async () => {
+      const account = "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed";
+
+      const creds = await runWalletFlow({
+        keyFile,
+        smartAccount: account,
+        chainId: 8453,
+      });
+
+      const [address, signature, chainId, message] =
+        vi.mocked(createAuthToken).mock.calls[0]!;
+      expect(address).toBe(account);
+      expect(chainId).toBe(8453);
+      expect(message).toContain(account);
+      expect(recoverPersonalMessageAddress(message, signature)).toBe(
+        KEY_ADDRESS,
+      );
+      expect(creds.address).toBe(account);
+    });
+  });
+
+  it("rejects an invalid smart account address", async () => {
+    await expect(runWalletFlow({ smartAccount: "0x1234" })).rejects.toThrow(
+      "--smart-account must be a 0x address",
+    );
+    expect(createNonce).not.toHaveBeenCalled();
+  });
 });
 
 describe("runGoogleFlow", () => {
@@ -262,6 +351,34 @@ describe("runGoogleFlow", () => {
   });
 });
 
+describe("runTokenFlow", () => {
+  it("validates the token by refreshing it and saves the result", async () => {
+    const creds = await runTokenFlow("ci-token");
+
+    expect(refreshAuthToken).toHaveBeenCalledWith("ci-token");
+    expect(saveCredentials).toHaveBeenCalledWith({
+      token: "refreshed-jwt",
+      expiresAt: 1700000000,
+      authMethod: "token",
+    });
+    expect(creds.authMethod).toBe("token");
+  });
+
+  it("throws when no token is given", async () => {
+    await expect(runTokenFlow("")).rejects.toThrow("No token provided");
+    expect(saveCredentials).not.toHaveBeenCalled();
+  });
+
+  it("does not save credentials when the token is rejected", async () => {
+    vi.mocked(refreshAuthToken).mockRejectedValueOnce(
+      new Error("Invalid token"),
+    );
+
+    await expect(runTokenFlow("bad")).rejects.toThrow("Invalid token");
+    expect(saveCredentials).not.toHaveBeenCalled();
+  });
+});
+
 describe("runInteractiveLogin", () => {
   it("dispatches to email flow when method is 'email'", async () => {
     setPromptAnswers("user@example.com", "123456");
@@ -4,6 +4,7 @@
  * Each flow prompts the user in the terminal, calls the Talent Protocol API,
  * and stores the resulting credentials.
  */
+import { randomUUID } from "node:crypto";
 import { createServer } from "node:http";
 import { createInterface } from "node:readline";
 
@@ -13,12 +14,21 @@ import {
   emailRequestCode,
   emailVerifyCode,
   getCliAuthUrl,
+  refreshAuthToken,
 } from "./client";
+import { runDeviceFlow } from "./device";
 import {
   type AuthMethod,
   type StoredCredentials,
   saveCredentials,
 } from "./store";
+import {
+  buildSiweMessage,
+  isAddress,
+  loadPrivateKey,
+  privateKeyToAddress,
+  signPersonalMessage,
+} from "./wallet";
 
 // ─── Helpers ────────────────────────────────────────────────────────────────
 
@@ -199,9 +209,40 @@ export async function runGoogleFlow(): Promise<StoredCredentials> {
 
 // ─── Wallet (SIWE) Auth Flow ────────────────────────────────────────────────
 
-export async function runWalletFlow(): Promise<StoredCredentials> {
-  const address = await prompt("Wallet address (0x...): ");
-  if (!address || !address.match(/^0x[a-fA-F0-9]{40}$/)) {
+export interface WalletFlowOptions {
+  /** Chain for the SIWE message (default: 1, Ethereum mainnet). */
+  chainId?: number;
+  /** Sign locally with this hex key or keystore file instead of pasting. */
+  keyFile?: string;
+  /** EIP-1271 contract account to sign in as; the key is one of its owners. */
+  smartAccount?: string;
+}
+
+/** How long the signed SIWE message stays valid. */
+const SIWE_VALIDITY_MS = 10 * 60 * 1_000;
+
+export async function runWalletFlow(
+  options: WalletFlowOptions = {},
+): Promise<StoredCredentials> {
+  const chainId = options.chainId ?? 1;
+  if (options.smartAccount && !isAddress(options.smartAccount)) {
+    throw new Error("--smart-account must be a 0x address (40 hex chars).");
+  }
+
+  // A key file decides the signer; otherwise ask for the address
+  const privateKey = options.keyFile
+    ? await loadPrivateKey(options.keyFile, () =>
+        process.env.TALENT_AGENT_KEYSTORE_PASSWORD !== undefined
+          ? Promise.resolve(process.env.TALENT_AGENT_KEYSTORE_PASSWORD)
+          : prompt("Keystore password: "),
+      )
+    : undefined;
+  const address =
+    options.smartAccount ??
+    (privateKey
+      ? privateKeyToAddress(privateKey)
+      : await prompt("Wallet address (0x...): "));
+  if (!address || !isAddress(address)) {
     throw new Error(
       "A valid Ethereum address is required (0x... 40 hex chars).",
     );
@@ -210,36 +251,42 @@ export async function runWalletFlow(): Promise<StoredCredentials> {
   printToStderr("Creating nonce...");
   const { nonce } = await createNonce(address);
 
-  // Build a basic SIWE message
-  const chainId = 1; // Default to Ethereum mainnet
-  const domain = "talent-agent";
-  const uri = "https://cli.talent.app";
-  const issuedAt = new Date().toISOString();
-  const siweMessage = [
-    `${domain} wants you to sign in with your Ethereum account:`,
+  const issuedAt = new Date();
+  const siweMessage = buildSiweMessage({
+    domain: "talent-agent",
     address,
-    "",
-    "Sign in to Talent CLI",
-    "",
-    `URI: ${uri}`,
-    `Version: 1`,
-    `Chain ID: ${chainId}`,
-    `Nonce: ${nonce}`,
-    `Issued At: ${issuedAt}`,
-  ].join("\n");
-
-  printToStderr("\nSign this message with your wallet:\n");
-  printToStderr("─".repeat(60));
-  printToStderr(siweMessage);
-  printToStderr("─".repeat(60));
-  printToStderr("");
-
-  const signature = await prompt("Paste your signature: ");
-  if (!signature) {
-    throw new Error("Signature is required.");
+    statement: "Sign in to Talent CLI",
+    uri: "https://cli.talent.app",
+    chainId,
+    nonce,
+    issuedAt: issuedAt.toISOString(),
+    expirationTime: new Date(
+      issuedAt.getTime() + SIWE_VALIDITY_MS,
+    ).toISOString(),
+    requestId: randomUUID(),
+  });
+
+  let signature: string;
+  if (privateKey) {
+    signature = signPersonalMessage(siweMessage, privateKey);
+  } else {
+    printToStderr("\nSign this message with your wallet:\n");
+    printToStderr("─".repeat(60));
+    printToStderr(siweMessage);
+    printToStderr("─".repeat(60));
+    printToStderr("");
+
+    signature = await prompt("Paste your signature: ");
+    if (!signature) {
+      throw new Error("Signature is required.");
+    }
   }
 
-  printToStderr("Verifying signature...");
+  printToStderr(
+    options.smartAccount
+      ? `Verifying signature (EIP-1271, chain ${chainId})...`
+      : "Verifying signature...",
+  );
   const response = await createAuthToken(
     address,
     signature,
@@ -259,16 +306,41 @@ export async function runWalletFlow(): Promise<StoredCredentials> {
   return creds;
 }
 
+// ─── Token Auth Flow (non-interactive) ──────────────────────────────────────
+
+/**
+ * Store an existing token (e.g. from `login --with-token`). The token is
+ * validated by exchanging it for a fresh one, which is what gets stored.
+ */
+export async function runTokenFlow(token: string): Promise<StoredCredentials> {
+  if (!token) throw new Error("No token provided on stdin.");
+
+  printToStderr("Validating token...");
+  const response = await refreshAuthToken(token);
+
+  const creds: StoredCredentials = {
+    token: response.auth.token,
+    expiresAt: response.auth.expires_at,
+    authMethod: "token",
+  };
+
+  saveCredentials(creds);
+  printToStderr("Authenticated with token");
+  return creds;
+}
+
 // ─── Interactive Method Selection ───────────────────────────────────────────
 
 const AUTH_METHODS: { key: string; label: string; method: AuthMethod }[] = [
   { key: "1", label: "Email (magic code)", method: "email" },
   { key: "2", label: "Google", method: "google" },
   { key: "3", label: "Wallet (SIWE)", method: "wallet" },
+  { key: "4", label: "Device code (SSH, containers)", method: "device" },
 ];
 
 export async function runInteractiveLogin(
   preferredMethod?: AuthMethod,
+  walletOptions?: WalletFlowOptions,
 ): Promise<StoredCredentials> {
   let method = preferredMethod;
 
@@ -279,11 +351,11 @@ export async function runInteractiveLogin(
     }
     printToStderr("");
 
-    const choice = await prompt("Enter choice (1-3): ");
+    const choice = await prompt(`Enter choice (1-${AUTH_METHODS.length}): `);
     const selected = AUTH_METHODS.find((m) => m.key === choice);
 
     if (!selected) {
-      throw new Error("Invalid choice. Please enter 1, 2, or 3.");
+      throw new Error("Invalid choice. Please enter 1, 2, 3, or 4.");
     }
     method = selected.method;
   }
@@ -294,7 +366,9 @@ export async function runInteractiveLogin(
     case "google":
       return runGoogleFlow();
     case "wallet":
-      return runWalletFlow();
+      return runWalletFlow(walletOptions);
+    case "device":
+      return runDeviceFlow();
     default:
       throw new Error(`Unknown auth method: ${method}`);
   }
@@ -1,8 +1,9 @@
 /**
  * Unit tests for credential storage.
  *
- * Tests the file-based storage backend (Keychain is not available in
- * Bun's test environment) and the getValidToken / isTokenExpired logic.
+ * Tests the plaintext and encrypted file backends (Keychain and Secret
+ * Service are not available in the test environment), backend selection,
+ * plaintext migration and the getValidToken / isTokenExpired logic.
  *
  * We mock `node:os` homedir to redirect file operations to a temp directory.
  * store.ts computes paths lazily via getConfigDir()/getCredentialsFile(), so
@@ -20,15 +21,27 @@ import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
-import { refreshAuthToken } from "./client";
 // Static imports — store.ts lazily computes config paths via homedir()
+import { saveConfig, setSettingOverride } from "../config";
+import { refreshAuthToken } from "./client";
 import {
   _resetKeychainCheck,
+  authRequiredMessage,
   clearCredentials,
+  decryptCredentials,
+  encryptCredentials,
+  encryptedCredentialsProblem,
+  getCredentialStoreName,
+  getRefreshSkewMs,
+  getTokenExpiry,
+  getTokenSubject,
   getValidToken,
   isTokenExpired,
+  listAccounts,
   loadCredentials,
+  refreshRejectedToken,
   saveCredentials,
+  withRequestToken,
 } from "./store";
 
 // ─── Setup ──────────────────────────────────────────────────────────────────
@@ -59,6 +72,8 @@ beforeEach(async () => {
     value: "linux",
     writable: true,
   });
+  // Most tests inspect the plaintext files; encrypted storage has its own block
+  process.env.TALENT_AGENT_CREDENTIAL_STORE = "file";
 
   const clientModule = await import("./client");
   refreshAuthTokenSpy = vi
@@ -75,6 +90,8 @@ afterEach(() => {
     writable: true,
   });
   _resetKeychainCheck();
+  delete process.env.TALENT_AGENT_CREDENTIAL_STORE;
+  delete process.env.TALENT_AGENT_CREDENTIAL_PASSPHRASE;
   // Use clearAllMocks (not restoreAllMocks) to avoid resetting the
   // vi.mock("node:os") factory's homedir implementation between tests.
   vi.clearAllMocks();
@@ -104,6 +121,32 @@ describe("isTokenExpired", () => {
   });
 });
 
+describe("isTokenExpired with skew", () => {
+  it("treats a token expiring within the skew as expired", () => {
+    const inTwoMinutes = Math.floor(Date.now() / 1000) + 120;
+    expect(isTokenExpired(inTwoMinutes)).toBe(false);
+    expect(isTokenExpired(inTwoMinutes, 5 * 60 * 1000)).toBe(true);
+  });
+});
+
+describe("getRefreshSkewMs", () => {
+  afterEach(() => {
+    delete process.env.TALENT_AGENT_REFRESH_SKEW;
+  });
+
+  it("defaults to five minutes", () => {
+    expect(getRefreshSkewMs()).toBe(5 * 60 * 1000);
+  });
+
+  it("reads TALENT_AGENT_REFRESH_SKEW as a duration", () => {
+    process.env.TALENT_AGENT_REFRESH_SKEW = "30s";
+    expect(getRefreshSkewMs()).toBe(30_000);
+
+    process.env.TALENT_AGENT_REFRESH_SKEW = "soon";
+    expect(getRefreshSkewMs()).toBe(5 * 60 * 1000);
+  });
+});
+
 describe("saveCredentials / loadCredentials round-trip", () => {
   it("saves and loads credentials via file backend", () => {
     const creds = {
@@ -242,3 +285,426 @@ describe("getValidToken", () => {
     expect(loadCredentials()).toBeNull();
   });
 });
+
+describe("token refresh", () => {
+  const inSeconds = (s: number) => Math.floor(Date.now() / 1000) + s;
+  const refreshed = (token: string) =>
+    ({ auth: { token, expires_at: inSeconds(3600) } }) as any;
+
+  it("refreshes a token that expires within the skew", async () => {
+    saveCredentials({
+      token: "old",
+      expiresAt: inSeconds(60),
+      authMethod: "email",
+    });
+    refreshAuthTokenSpy!.mockResolvedValue(refreshed("new"));
+
+    expect(await getValidToken()).toBe("new");
+    expect(loadCredentials()!.token).toBe("new");
+  });
+
+  it("keeps using the current token when an early refresh fails", async () => {
+    saveCredentials({
+      token: "old",
+      expiresAt: inSeconds(60),
+      authMethod: "email",
+    });
+    refreshAuthTokenSpy!.mockRejectedValue(new Error("offline"));
+
+    expect(await getValidToken()).toBe("old");
+    expect(loadCredentials()).not.toBeNull();
+  });
+
+  it("shares one refresh between concurrent callers", async () => {
+    saveCredentials({
+      token: "old",
+      expiresAt: inSeconds(-60),
+      authMethod: "email",
+    });
+    refreshAuthTokenSpy!.mockImplementation(async () => {
+      await new Promise((r) => setTimeout(r, 10));
+      return refreshed("new");
+    });
+
+    const tokens = await Promise.all([
+      getValidToken(),
+      getValidToken(),
+      getValidToken(),
+    ]);
+
+    expect(tokens).toEqual(["new", "new", "new"]);
+    expect(refreshAuthTokenSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("refreshes a token rejected with a 401", async () => {
+    saveCredentials({
+      token: "rejected",
+      expiresAt: inSeconds(3600),
+      authMethod: "email",
+    });
+    refreshAuthTokenSpy!.mockResolvedValue(refreshed("new"));
+
+    expect(await refreshRejectedToken("rejected")).toBe("new");
+    expect(refreshAuthTokenSpy).toHaveBeenCalledWith("rejected");
+  });
+
+  it("reuses a token another request already refreshed", async () => {
+    saveCredentials({
+      token: "current",
+      expiresAt: inSeconds(3600),
+      authMethod: "email",
+    });
+
+    expect(await refreshRejectedToken("rejected")).toBe("current");
+    expect(refreshAuthTokenSpy).not.toHaveBeenCalled();
+  });
+
+  it("does not refresh a rejected headless token", async () => {
+    process.env.TALENT_AGENT_TOKEN = "headless";
+    try {
+      expect(await refreshRejectedToken("headless")).toBeNull();
+      expect(refreshAuthTokenSpy).not.toHaveBeenCalled();
+    } finally {
+      delete process.env.TALENT_AGENT_TOKEN;
+    }
+  });
+});
+
+describe("multiple accounts", () => {
+  const future = () => Math.floor(Date.now() / 1000) + 3600;
+
+  afterEach(() => {
+    setSettingOverride("account", undefined);
+    delete process.env.TALENT_AGENT_ACCOUNT;
+  });
+
+  it("keeps the default account in credentials.json", () => {
+    saveCredentials({ token: "t", expiresAt: future(), authMethod: "email" });
+
+    expect(
+      existsSync(join(tempHome, ".talent-agent", "credentials.json")),
+    ).toBe(true);
+  });
+
+  it("stores accounts separately", async () => {
+    saveCredentials(
+      { token: "personal", expiresAt: future(), authMethod: "email" },
+      "default",
+    );
+    saveCredentials(
+      {
+        token: "org",
+        expiresAt: future(),
+        authMethod: "email",
+        email: "team@example.com",
+      },
+      "work",
+    );
+
+    expect(await getValidToken()).toBe("personal");
+    expect(await getValidToken("work")).toBe("org");
+    expect(
+      existsSync(join(tempHome, ".talent-agent", "credentials.work.json")),
+    ).toBe(true);
+  });
+
+  it("resolves the active account from --account, env and config", async () => {
+    saveCredentials(
+      { token: "a", expiresAt: future(), authMethod: "email" },
+      "a",
+    );
+    saveCredentials(
+      { token: "b", expiresAt: future(), authMethod: "email" },
+      "b",
+    );
+    saveCredentials(
+      { token: "c", expiresAt: future(), authMethod: "email" },
+      "c",
+    );
+
+    saveConfig({ profiles: { default: { account: "a" } } });
+    expect(await getValidToken()).toBe("a");
+
+    process.env.TALENT_AGENT_ACCOUNT = "b";
+    expect(await getValidToken()).toBe("b");
+
+    setSettingOverride("account", "c");
+    expect(await getValidToken()).toBe("c");
+  });
+
+  it("lists accounts without their tokens", () => {
+    saveCredentials(
+      {
+        token: "secret",
+        expiresAt: future(),
+        authMethod: "wallet",
+        address: "0xabc",
+      },
+      "work",
+    );
+    saveCredentials({ token: "t", expiresAt: future(), authMethod: "google" });
+
+    expect(listAccounts()).toEqual([
+      { name: "default", authMethod: "google" },
+      { name: "work", authMethod: "wallet", address: "0xabc" },
+    ]);
+    expect(
+      readFileSync(join(tempHome, ".talent-agent", "accounts.json"), "utf-8"),
+    ).not.toContain("secret");
+  });
+
+  it("lists a default login saved before the account index existed", () => {
+    mkdirSync(join(tempHome, ".talent-agent"), { recursive: true });
+    writeFileSync(
+      join(tempHome, ".talent-agent", "credentials.json"),
+      JSON.stringify({ token: "t", expiresAt: future(), authMethod: "email" }),
+    );
+
+    expect(listAccounts()).toEqual([{ name: "default", authMethod: "email" }]);
+  });
+
+  it("removes only the given account", () => {
+    saveCredentials({ token: "d", expiresAt: future(), authMethod: "email" });
+    saveCredentials(
+      { token: "w", expiresAt: future(), authMethod: "email" },
+      "work",
+    );
+
+    clearCredentials("work");
+
+    expect(loadCredentials("work")).toBeNull();
+    expect(loadCredentials()).not.toBeNull();
+    expect(listAccounts().map((a) => a.name)).toEqual(["default"]);
+  });
+
+  it("rejects invalid account names", () => {
+    expect(() =>
+      saveCredentials(
+        { token: "t", expiresAt: future(), authMethod: "email" },
+        "../evil",
+      ),
+    ).toThrow(/Invalid account name/);
+    expect(loadCredentials("../evil")).toBeNull();
+  });
+});
+
+describe("credential backends", () => {
+  const creds = {
+    token: "secret-token",
+    expiresAt: 9999999999,
+    authMethod: "email" as const,
+  };
+  const configDir = () => join(tempHome, ".talent-agent");
+
+  beforeEach(() => {
+    delete process.env.TALENT_AGENT_CREDENTIAL_STORE;
+  });
+
+  it("falls back to the encrypted file when no keyring is available", () => {
+    expect(getCredentialStoreName()).toBe("encrypted-file");
+
+    saveCredentials(creds);
+
+    const content = readFileSync(join(configDir(), "credentials.enc"), "utf-8");
+    expect(content).not.toContain("secret-token");
+    expect(existsSync(join(configDir(), "credentials.json"))).toBe(false);
+    expect(loadCredentials()).toEqual(creds);
+  });
+
+  it("names encrypted files per account", () => {
+    saveCredentials(creds, "work");
+
+    expect(existsSync(join(configDir(), "credentials.work.enc"))).toBe(true);
+    expect(loadCredentials("work")!.token).toBe("secret-token");
+  });
+
+  it("encrypts with the passphrase when one is set", () => {
+    process.env.TALENT_AGENT_CREDENTIAL_PASSPHRASE = "correct horse";
+    const encrypted = encryptCredentials("payload");
+
+    expect(decryptCredentials(encrypted)).toBe("payload");
+
+    process.env.TALENT_AGENT_CREDENTIAL_PASSPHRASE = "wrong";
+    expect(decryptCredentials(encrypted)).toBeNull();
+
+    delete process.env.TALENT_AGENT_CREDENTIAL_PASSPHRASE;
+    expect(decryptCredentials(encrypted)).toBeNull();
+  });
+
+  it("reports which key encrypted credentials need", () => {
+    process.env.TALENT_AGENT_CREDENTIAL_PASSPHRASE = "correct horse";
+    saveCredentials(creds);
+    delete process.env.TALENT_AGENT_CREDENTIAL_PASSPHRASE;
+
+    expect(loadCredentials()).toBeNull();
+    expect(encryptedCredentialsProblem()).toMatch(
+      /encrypted with a passphrase\. Set TALENT_AGENT_CREDENTIAL_PASSPHRASE/,
+    );
+    expect(authRequiredMessage()).toBe(encryptedCredentialsProblem());
+
+    process.env.TALENT_AGENT_CREDENTIAL_PASSPHRASE = "wrong";
+    expect(encryptedCredentialsProblem()).toMatch(/different .*PASSPHRASE/);
+
+    process.env.TALENT_AGENT_CREDENTIAL_PASSPHRASE = "correct horse";
+    expect(encryptedCredentialsProblem()).toBeNull();
+  });
+
+  it("reports a passphrase set for machine-key credentials", () => {
+    saveCredentials(creds);
+    process.env.TALENT_AGENT_CREDENTIAL_PASSPHRASE = "correct horse";
+
+    expect(encryptedCredentialsProblem()).toMatch(
+      /machine key, not a passphrase/,
+    );
+  });
+
+  it("returns null for a corrupt encrypted file", () => {
+    mkdirSync(configDir(), { recursive: true });
+    writeFileSync(join(configDir(), "credentials.enc"), "garbage");
+
+    expect(loadCredentials()).toBeNull();
+  });
+
+  it("migrates a plaintext credentials file", () => {
+    mkdirSync(configDir(), { recursive: true });
+    writeFileSync(join(configDir(), "credentials.json"), JSON.stringify(creds));
+
+    expect(loadCredentials()).toEqual(creds);
+    expect(existsSync(join(configDir(), "credentials.json"))).toBe(false);
+    expect(existsSync(join(configDir(), "credentials.enc"))).toBe(true);
+    expect(loadCredentials()).toEqual(creds);
+  });
+
+  it("leaves an unparseable plaintext file alone", () => {
+    mkdirSync(configDir(), { recursive: true });
+    writeFileSync(join(configDir(), "credentials.json"), "not json");
+
+    expect(loadCredentials()).toBeNull();
+    expect(existsSync(join(configDir(), "credentials.json"))).toBe(true);
+    expect(existsSync(join(configDir(), "credentials.enc"))).toBe(false);
+  });
+
+  it("clears credentials from every store", () => {
+    process.env.TALENT_AGENT_CREDENTIAL_STORE = "file";
+    saveCredentials(creds);
+    process.env.TALENT_AGENT_CREDENTIAL_STORE = "encrypted-file";
+    saveCredentials(creds, "default");
+    // saving to a non-file store removes the plaintext copy
+    expect(existsSync(join(configDir(), "credentials.json"))).toBe(false);
+
+    clearCredentials();
+
+    expect(existsSync(join(configDir(), "credentials.enc"))).toBe(false);
+    expect(loadCredentials()).toBeNull();
+  });
+
+  it("rejects unknown and unavailable stores", () => {
+    process.env.TALENT_AGENT_CREDENTIAL_STORE = "vault";
+    expect(() => saveCredentials(creds)).toThrow(
+      /Unknown TALENT_AGENT_CREDENTIAL_STORE "vault"/,
+    );
+
+    process.env.TALENT_AGENT_CREDENTIAL_STORE = "keychain";
+    expect(() => saveCredentials(creds)).toThrow(/not available/);
+  });
+});
+
+describe("headless token (TALENT_AGENT_TOKEN)", () => {
+  const jwt = (exp: number) =>
+    `header.${Buffer.from(JSON.stringify({ exp })).toString("base64url")}.sig`;
+
+  afterEach(() => {
+    delete process.env.TALENT_AGENT_TOKEN;
+  });
+
+  it("takes precedence over stored credentials", async () => {
+    saveCredentials({
+      token: "stored",
+      expiresAt: 9999999999,
+      authMethod: "email",
+    });
+    process.env.TALENT_AGENT_TOKEN = "headless";
+
+    expect(await getValidToken()).toBe("headless");
+  });
+
+  it("returns null for an expired token without refreshing or storing it", async () => {
+    process.env.TALENT_AGENT_TOKEN = jwt(Math.floor(Date.now() / 1000) - 60);
+
+    expect(await getValidToken()).toBeNull();
+    expect(refreshAuthTokenSpy).not.toHaveBeenCalled();
+    expect(existsSync(join(tempHome, ".talent-agent"))).toBe(false);
+    expect(authRequiredMessage()).toContain("TALENT_AGENT_TOKEN has expired");
+  });
+
+  it("reads the expiry from JWT claims", () => {
+    expect(getTokenExpiry(jwt(1700000000))).toBe(1700000000);
+    expect(getTokenExpiry("opaque-token")).toBeNull();
+    expect(getTokenExpiry("a.not-base64-json.c")).toBeNull();
+  });
+
+  it("reads the user from JWT claims", () => {
+    const token = (claims: object) =>
+      `header.${Buffer.from(JSON.stringify(claims)).toString("base64url")}.sig`;
+
+    expect(getTokenSubject(token({ sub: "u1", exp: 1 }))).toBe("u1");
+    expect(getTokenSubject(token({ user_id: 42 }))).toBe("42");
+    expect(getTokenSubject(token({ exp: 1 }))).toBeNull();
+    expect(getTokenSubject("opaque-token")).toBeNull();
+  });
+
+  it("asks for a login when no headless token is set", () => {
+    expect(authRequiredMessage()).toContain("talent-agent login");
+  });
+});
+
+describe("request tokens (withRequestToken)", () => {
+  afterEach(() => {
+    delete process.env.TALENT_AGENT_TOKEN;
+  });
+
+  it("takes precedence over TALENT_AGENT_TOKEN and stored credentials", async () => {
+    saveCredentials({
+      token: "stored",
+      expiresAt: 9999999999,
+      authMethod: "email",
+    });
+    process.env.TALENT_AGENT_TOKEN = "headless";
+
+    expect(await withRequestToken("bearer", () => getValidToken())).toBe(
+      "bearer",
+    );
+    expect(await getValidToken()).toBe("headless");
+  });
+
+  it("is scoped to the call, including across awaits", async () => {
+    const seen = await Promise.all([
+      withRequestToken("a", async () => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return getValidToken();
+      }),
+      withRequestToken("b", () => getValidToken()),
+    ]);
+
+    expect(seen).toEqual(["a", "b"]);
+  });
+
+  it("is never swapped for the stored login after a 401", async () => {
+    saveCredentials({
+      token: "stored",
+      expiresAt: 9999999999,
+      authMethod: "email",
+    });
+
+    expect(
+      await withRequestToken("bearer", () => refreshRejectedToken("bearer")),
+    ).toBeNull();
+    expect(refreshAuthTokenSpy).not.toHaveBeenCalled();
+  });
+
+  it("names the bearer token when it has expired", () => {
+    expect(withRequestToken("bearer", () => authRequiredMessage())).toContain(
+      "bearer token has expired",
+    );
+  });
+});
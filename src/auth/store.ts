@@ -1,17 +1,62 @@
 /**
  * Token persistence for the CLI.
  *
- * Two-tier storage strategy (same approach as GitHub CLI):
+ * Credentials go through a pluggable backend (`CredentialBackend`):
  *
- * 1. **Preferred: macOS Keychain** — tokens encrypted at rest, unlocked by
- *    OS login session. Uses the `security` CLI tool with no extra dependencies.
+ * - **keychain** — macOS Keychain via the `security` CLI. Encrypted at rest,
+ *   unlocked by the OS login session.
+ * - **secret-service** — freedesktop Secret Service (GNOME Keyring, KWallet)
+ *   via `secret-tool` from libsecret. Needs a D-Bus session.
+ * - **encrypted-file** — `~/.talent-agent/credentials[.<account>].enc`,
+ *   AES-256-GCM with a key derived (scrypt) from
+ *   `TALENT_AGENT_CREDENTIAL_PASSPHRASE`, or from a machine key
+ *   (/etc/machine-id, else hostname + home directory) when no passphrase
+ *   is set. The machine key stops a copied file from being read elsewhere;
+ *   a passphrase also protects against other processes on the same machine.
+ * - **file** — plaintext `~/.talent-agent/credentials[.<account>].json`
+ *   (0o600). Only used when selected explicitly.
  *
- * 2. **Fallback: `~/.talent-agent/credentials.json`** — used when Keychain is
- *    unavailable (Linux, CI, non-interactive). File written with 0o600 perms.
+ * `TALENT_AGENT_CREDENTIAL_STORE` selects a backend by name; the default,
+ * "auto", uses the first available of keychain, secret-service and
+ * encrypted-file (same idea as GitHub CLI), falling through on write errors.
  *
- * The store auto-detects: try Keychain first; if the `security` command fails
- * or the platform is not macOS, fall back to file.
+ * Migration: plaintext files written by earlier versions are still read.
+ * When a non-file backend is in use, the first read moves the credentials
+ * into it and deletes the plaintext file.
+ *
+ * Credentials are keyed by account name, so one machine can hold several
+ * logins (e.g. a personal one and a shared org one). Keychain and Secret
+ * Service entries use the account name; files use `credentials.json` /
+ * `credentials.enc` for "default" (unchanged from single-account versions)
+ * and `credentials.<name>.json` / `.enc` otherwise. `accounts.json` indexes
+ * the stored accounts with their non-secret identity (method, email,
+ * address) so they can be listed.
+ *
+ * The active account comes from `--account`, `TALENT_AGENT_ACCOUNT` or the
+ * config profile (see ../config).
+ *
+ * Stored tokens are refreshed ahead of expiry (`TALENT_AGENT_REFRESH_SKEW`,
+ * default 5 minutes) and after a 401 (see refreshRejectedToken). Concurrent
+ * callers share one in-flight refresh per account, so a burst of requests
+ * from the MCP server or TUI doesn't race to rotate the same token.
+ *
+ * Headless use (CI, Docker): a token in `TALENT_AGENT_TOKEN` (or read with
+ * `--token-stdin`) is used as-is and bypasses the store entirely. It is
+ * never refreshed, so an expired one is reported as an auth error instead
+ * of silently falling back to a stored login.
+ *
+ * Request tokens: the MCP HTTP transport runs each tool call inside
+ * `withRequestToken()` with the client's bearer token, which then takes
+ * precedence over both for that call only. Like headless tokens, they are
+ * never refreshed, stored or swapped for the stored login.
  */
+import { AsyncLocalStorage } from "node:async_hooks";
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scryptSync,
+} from "node:crypto";
 import {
   existsSync,
   mkdirSync,
@@ -19,14 +64,20 @@ import {
   unlinkSync,
   writeFileSync,
 } from "node:fs";
-import { homedir } from "node:os";
+import { homedir, hostname } from "node:os";
 import { join } from "node:path";
 
+import {
+  DEFAULT_ACCOUNT,
+  getActiveAccount,
+  isValidAccountName,
+} from "../config";
+import { parseDuration } from "../duration";
 import { refreshAuthToken } from "./client";
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
-export type AuthMethod = "email" | "google" | "wallet";
+export type AuthMethod = "email" | "google" | "wallet" | "device" | "token";
 
 export interface StoredCredentials {
   token: string;
@@ -36,32 +87,63 @@ export interface StoredCredentials {
   address?: string;
 }
 
+export type CredentialBackendName =
+  "keychain" | "secret-service" | "encrypted-file" | "file";
+
+/**
+ * A place to keep one serialized StoredCredentials per account.
+ * Implementations never throw; failures are reported as false / null.
+ */
+export interface CredentialBackend {
+  name: CredentialBackendName;
+  isAvailable(): boolean;
+  read(account: string): string | null;
+  write(account: string, data: string): boolean;
+  delete(account: string): boolean;
+}
+
 // ─── Constants ──────────────────────────────────────────────────────────────
 
 const KEYCHAIN_SERVICE = "talent-agent";
-const KEYCHAIN_ACCOUNT = "default";
 
 // Computed lazily so tests can mock homedir() per-test without vi.resetModules()
 function getConfigDir(): string {
   return join(homedir(), ".talent-agent");
 }
-function getCredentialsFile(): string {
-  return join(getConfigDir(), "credentials.json");
+function getCredentialsFile(account: string, ext = "json"): string {
+  const name =
+    account === DEFAULT_ACCOUNT
+      ? `credentials.${ext}`
+      : `credentials.${account}.${ext}`;
+  return join(getConfigDir(), name);
+}
+function getAccountsFile(): string {
+  return join(getConfigDir(), "accounts.json");
 }
 
-// ─── Keychain Backend (macOS) ───────────────────────────────────────────────
+function checkAccountName(account: string): void {
+  if (!isValidAccountName(account)) {
+    throw new Error(
+      `Invalid account name "${account}". Use letters, digits, - or _.`,
+    );
+  }
+}
 
-function isKeychainAvailable(): boolean {
-  if (process.platform !== "darwin") return false;
+function commandExists(command: string): boolean {
   try {
-    const result = Bun.spawnSync(["which", "security"]);
-    return result.exitCode === 0;
+    return Bun.spawnSync(["which", command]).exitCode === 0;
   } catch {
     return false;
   }
 }
 
-function keychainWrite(data: string): boolean {
+// ─── Keychain Backend (macOS) ───────────────────────────────────────────────
+
+function isKeychainAvailable(): boolean {
+  return process.platform === "darwin" && commandExists("security");
+}
+
+function keychainWrite(account: string, data: string): boolean {
   try {
     // Delete existing entry first (ignore errors if not found)
     Bun.spawnSync([
@@ -70,7 +152,7 @@ function keychainWrite(data: string): boolean {
       "-s",
       KEYCHAIN_SERVICE,
       "-a",
-      KEYCHAIN_ACCOUNT,
+      account,
     ]);
 
     const result = Bun.spawnSync([
@@ -79,7 +161,7 @@ function keychainWrite(data: string): boolean {
       "-s",
       KEYCHAIN_SERVICE,
       "-a",
-      KEYCHAIN_ACCOUNT,
+      account,
       "-w",
       data,
       "-U",
@@ -90,7 +172,7 @@ function keychainWrite(data: string): boolean {
   }
 }
 
-function keychainRead(): string | null {
+function keychainRead(account: string): string | null {
   try {
     const result = Bun.spawnSync([
       "security",
@@ -98,7 +180,7 @@ function keychainRead(): string | null {
       "-s",
       KEYCHAIN_SERVICE,
       "-a",
-      KEYCHAIN_ACCOUNT,
+      account,
       "-w",
     ]);
     if (result.exitCode !== 0) return null;
@@ -108,7 +190,7 @@ function keychainRead(): string | null {
   }
 }
 
-function keychainDelete(): boolean {
+function keychainDelete(account: string): boolean {
   try {
     const result = Bun.spawnSync([
       "security",
@@ -116,7 +198,7 @@ function keychainDelete(): boolean {
       "-s",
       KEYCHAIN_SERVICE,
       "-a",
-      KEYCHAIN_ACCOUNT,
+      account,
     ]);
     return result.exitCode === 0;
   } catch {
@@ -124,7 +206,76 @@ function keychainDelete(): boolean {
   }
 }
 
-// ─── File Backend ───────────────────────────────────────────────────────────
+const keychainBackend: CredentialBackend = {
+  name: "keychain",
+  isAvailable: isKeychainAvailable,
+  read: keychainRead,
+  write: keychainWrite,
+  delete: keychainDelete,
+};
+
+// ─── Secret Service Backend (Linux) ─────────────────────────────────────────
+
+function secretAttributes(account: string): string[] {
+  return ["service", KEYCHAIN_SERVICE, "account", account];
+}
+
+function isSecretServiceAvailable(): boolean {
+  return (
+    process.platform === "linux" &&
+    !!process.env.DBUS_SESSION_BUS_ADDRESS &&
+    commandExists("secret-tool")
+  );
+}
+
+const secretServiceBackend: CredentialBackend = {
+  name: "secret-service",
+  isAvailable: isSecretServiceAvailable,
+  read(account) {
+    try {
+      const result = Bun.spawnSync([
+        "secret-tool",
+        "lookup",
+        ...secretAttributes(account),
+      ]);
+      if (result.exitCode !== 0) return null;
+      return result.stdout.toString().trim() || null;
+    } catch {
+      return null;
+    }
+  },
+  write(account, data) {
+    try {
+      // The secret is read from stdin so it never shows up in `ps`
+      const result = Bun.spawnSync(
+        [
+          "secret-tool",
+          "store",
+          `--label=Talent Agent (${account})`,
+          ...secretAttributes(account),
+        ],
+        { stdin: Buffer.from(data) },
+      );
+      return result.exitCode === 0;
+    } catch {
+      return false;
+    }
+  },
+  delete(account) {
+    try {
+      const result = Bun.spawnSync([
+        "secret-tool",
+        "clear",
+        ...secretAttributes(account),
+      ]);
+      return result.exitCode === 0;
+    } catch {
+      return false;
+    }
+  },
+};
+
+// ─── Plaintext File Backend ─────────────────────────────────────────────────
 
 function ensureConfigDir(): void {
   if (!existsSync(getConfigDir())) {
@@ -132,10 +283,10 @@ function ensureConfigDir(): void {
   }
 }
 
-function fileWrite(data: string): boolean {
+function fileWrite(account: string, data: string, ext = "json"): boolean {
   try {
     ensureConfigDir();
-    writeFileSync(getCredentialsFile(), data, {
+    writeFileSync(getCredentialsFile(account, ext), data, {
       encoding: "utf-8",
       mode: 0o600,
     });
@@ -145,19 +296,19 @@ function fileWrite(data: string): boolean {
   }
 }
 
-function fileRead(): string | null {
+function fileRead(account: string, ext = "json"): string | null {
   try {
-    if (!existsSync(getCredentialsFile())) return null;
-    return readFileSync(getCredentialsFile(), "utf-8");
+    if (!existsSync(getCredentialsFile(account, ext))) return null;
+    return readFileSync(getCredentialsFile(account, ext), "utf-8");
   } catch {
     return null;
   }
 }
 
-function fileDelete(): boolean {
+function fileDelete(account: string, ext = "json"): boolean {
   try {
-    if (existsSync(getCredentialsFile())) {
-      unlinkSync(getCredentialsFile());
+    if (existsSync(getCredentialsFile(account, ext))) {
+      unlinkSync(getCredentialsFile(account, ext));
     }
     return true;
   } catch {
@@ -165,62 +316,275 @@ function fileDelete(): boolean {
   }
 }
 
-// ─── Public API ─────────────────────────────────────────────────────────────
+const fileBackend: CredentialBackend = {
+  name: "file",
+  isAvailable: () => true,
+  read: (account) => fileRead(account),
+  write: (account, data) => fileWrite(account, data),
+  delete: (account) => fileDelete(account),
+};
+
+// ─── Encrypted File Backend ─────────────────────────────────────────────────
+
+const ENCRYPTED_FILE_VERSION = 1;
+
+interface EncryptedFile {
+  version: number;
+  /** "passphrase" or "machine", so a mismatch can be reported clearly. */
+  keySource: "passphrase" | "machine";
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+function machineKey(): string {
+  for (const path of ["/etc/machine-id", "/var/lib/dbus/machine-id"]) {
+    try {
+      const id = readFileSync(path, "utf-8").trim();
+      if (id) return `${id}:${homedir()}`;
+    } catch {
+      // Try the next source
+    }
+  }
+  return `${hostname()}:${homedir()}`;
+}
+
+function keyMaterial(): { secret: string; source: EncryptedFile["keySource"] } {
+  const passphrase = process.env.TALENT_AGENT_CREDENTIAL_PASSPHRASE;
+  return passphrase
+    ? { secret: passphrase, source: "passphrase" }
+    : { secret: machineKey(), source: "machine" };
+}
+
+function deriveKey(secret: string, salt: Buffer): Buffer {
+  return scryptSync(secret, salt, 32);
+}
+
+export function encryptCredentials(data: string): string {
+  const { secret, source } = keyMaterial();
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", deriveKey(secret, salt), iv);
+  const encrypted = Buffer.concat([
+    cipher.update(data, "utf-8"),
+    cipher.final(),
+  ]);
+  const file: EncryptedFile = {
+    version: ENCRYPTED_FILE_VERSION,
+    keySource: source,
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: encrypted.toString("base64"),
+  };
+  return JSON.stringify(file);
+}
+
+/**
+ * Decrypt an encrypted credentials file. Returns null when it was written
+ * with a different key (wrong passphrase or another machine) or is corrupt.
+ */
+export function decryptCredentials(content: string): string | null {
+  try {
+    const file = JSON.parse(content) as EncryptedFile;
+    if (file.version !== ENCRYPTED_FILE_VERSION) return null;
+    const { secret, source } = keyMaterial();
+    if (file.keySource !== source) return null;
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      deriveKey(secret, Buffer.from(file.salt, "base64")),
+      Buffer.from(file.iv, "base64"),
+    );
+    decipher.setAuthTag(Buffer.from(file.tag, "base64"));
+    return Buffer.concat([
+      decipher.update(Buffer.from(file.data, "base64")),
+      decipher.final(),
+    ]).toString("utf-8");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Explain why an account's encrypted credentials can't be read with the
+ * current key (passphrase vs machine key), or null when there is no
+ * encrypted file or it decrypts.
+ */
+export function encryptedCredentialsProblem(
+  account: string = getActiveAccount(),
+): string | null {
+  if (!isValidAccountName(account)) return null;
+  const content = fileRead(account, "enc");
+  if (content === null || decryptCredentials(content) !== null) return null;
+
+  let keySource: unknown;
+  try {
+    keySource = (JSON.parse(content) as EncryptedFile).keySource;
+  } catch {
+    // Reported as corrupt below
+  }
+  const passphraseSet = keyMaterial().source === "passphrase";
+  const relogin = "or run 'talent-agent login' again.";
+  switch (keySource) {
+    case "passphrase":
+      return passphraseSet
+        ? `Stored credentials were encrypted with a different TALENT_AGENT_CREDENTIAL_PASSPHRASE. Set the one used at login, ${relogin}`
+        : `Stored credentials are encrypted with a passphrase. Set TALENT_AGENT_CREDENTIAL_PASSPHRASE to the one used at login, ${relogin}`;
+    case "machine":
+      return passphraseSet
+        ? `Stored credentials are encrypted with the machine key, not a passphrase. Unset TALENT_AGENT_CREDENTIAL_PASSPHRASE, ${relogin}`
+        : "Stored credentials were encrypted on another machine or for another home directory. Run 'talent-agent login' again.";
+    default:
+      return "Stored credentials file is corrupt. Run 'talent-agent login' again.";
+  }
+}
+
+const encryptedFileBackend: CredentialBackend = {
+  name: "encrypted-file",
+  isAvailable: () => true,
+  read(account) {
+    const content = fileRead(account, "enc");
+    return content === null ? null : decryptCredentials(content);
+  },
+  write: (account, data) => fileWrite(account, encryptCredentials(data), "enc"),
+  delete: (account) => fileDelete(account, "enc"),
+};
+
+// ─── Account Index ──────────────────────────────────────────────────────────
+
+/** Non-secret identity of a stored account. */
+export interface AccountInfo {
+  name: string;
+  authMethod: AuthMethod;
+  email?: string;
+  address?: string;
+}
+
+type AccountIndex = Record<string, Omit<AccountInfo, "name">>;
+
+function readAccountIndex(): AccountIndex {
+  try {
+    if (!existsSync(getAccountsFile())) return {};
+    return JSON.parse(readFileSync(getAccountsFile(), "utf-8")) as AccountIndex;
+  } catch {
+    return {};
+  }
+}
+
+function writeAccountIndex(index: AccountIndex): void {
+  try {
+    ensureConfigDir();
+    writeFileSync(getAccountsFile(), JSON.stringify(index, null, 2), {
+      encoding: "utf-8",
+      mode: 0o600,
+    });
+  } catch {
+    // Non-critical: the credentials themselves are already stored
+  }
+}
+
+// ─── Backend Selection ──────────────────────────────────────────────────────
+
+const BACKENDS: Record<CredentialBackendName, CredentialBackend> = {
+  keychain: keychainBackend,
+  "secret-service": secretServiceBackend,
+  "encrypted-file": encryptedFileBackend,
+  file: fileBackend,
+};
+
+/** Preference order for TALENT_AGENT_CREDENTIAL_STORE=auto. */
+const AUTO_ORDER: CredentialBackendName[] = [
+  "keychain",
+  "secret-service",
+  "encrypted-file",
+];
+
+export const CREDENTIAL_STORES = ["auto", ...Object.keys(BACKENDS)] as const;
 
 // Lazy-evaluated so tests can mock process.platform before the first call.
-let _keychainChecked = false;
-let _keychainAvailable = false;
+const availability = new Map<CredentialBackendName, boolean>();
 
-function shouldUseKeychain(): boolean {
-  if (!_keychainChecked) {
-    _keychainAvailable = isKeychainAvailable();
-    _keychainChecked = true;
+function isAvailable(backend: CredentialBackend): boolean {
+  let available = availability.get(backend.name);
+  if (available === undefined) {
+    available = backend.isAvailable();
+    availability.set(backend.name, available);
   }
-  return _keychainAvailable;
+  return available;
 }
 
 /**
- * Reset the keychain availability check (for testing only).
+ * Reset the backend availability checks (for testing only).
  * Call this before mocking process.platform to force re-evaluation.
  */
 export function _resetKeychainCheck(): void {
-  _keychainChecked = false;
-  _keychainAvailable = false;
+  availability.clear();
 }
 
 /**
- * Save credentials to the store (Keychain preferred, file fallback).
+ * Backends to use, in order, per TALENT_AGENT_CREDENTIAL_STORE.
+ * Throws for unknown or unavailable explicit selections.
  */
-export function saveCredentials(creds: StoredCredentials): void {
-  const data = JSON.stringify(creds);
-
-  if (shouldUseKeychain()) {
-    if (keychainWrite(data)) return;
-    // Keychain write failed — fall through to file
+export function getCredentialBackends(): CredentialBackend[] {
+  const selected = process.env.TALENT_AGENT_CREDENTIAL_STORE || "auto";
+  if (selected === "auto") {
+    return AUTO_ORDER.map((name) => BACKENDS[name]).filter(isAvailable);
   }
-
-  if (!fileWrite(data)) {
-    throw new Error("Failed to save credentials to both Keychain and file.");
+  const backend = BACKENDS[selected as CredentialBackendName];
+  if (!backend) {
+    throw new Error(
+      `Unknown TALENT_AGENT_CREDENTIAL_STORE "${selected}". Use one of: ${CREDENTIAL_STORES.join(", ")}`,
+    );
+  }
+  if (!isAvailable(backend)) {
+    throw new Error(`Credential store "${selected}" is not available here.`);
   }
+  return [backend];
 }
 
 /**
- * Load credentials from the store.
- * Checks Keychain first, then file.
+ * Name of the backend new credentials are written to.
  */
-export function loadCredentials(): StoredCredentials | null {
-  let raw: string | null = null;
+export function getCredentialStoreName(): CredentialBackendName {
+  return getCredentialBackends()[0]!.name;
+}
 
-  if (shouldUseKeychain()) {
-    raw = keychainRead();
-  }
+// ─── Public API ─────────────────────────────────────────────────────────────
 
-  if (!raw) {
-    raw = fileRead();
+/**
+ * Save credentials for an account to the first backend that accepts them.
+ * Defaults to the active account.
+ */
+export function saveCredentials(
+  creds: StoredCredentials,
+  account: string = getActiveAccount(),
+): void {
+  checkAccountName(account);
+  const data = JSON.stringify(creds);
+
+  const backends = getCredentialBackends();
+  // Fall through to the next backend if a write fails (e.g. locked keyring)
+  const saved = backends.find((backend) => backend.write(account, data));
+  if (!saved) {
+    throw new Error(
+      `Failed to save credentials (tried ${backends.map((b) => b.name).join(", ")}).`,
+    );
   }
+  // Don't leave an older plaintext copy behind
+  if (saved !== fileBackend) fileBackend.delete(account);
+
+  const index = readAccountIndex();
+  index[account] = {
+    authMethod: creds.authMethod,
+    email: creds.email,
+    address: creds.address,
+  };
+  writeAccountIndex(index);
+}
 
+function parseCredentials(raw: string | null): StoredCredentials | null {
   if (!raw) return null;
-
   try {
     return JSON.parse(raw) as StoredCredentials;
   } catch {
@@ -229,55 +593,266 @@ export function loadCredentials(): StoredCredentials | null {
 }
 
 /**
- * Clear all stored credentials (both Keychain and file).
+ * Load an account's credentials (default: the active account) from the
+ * configured backends, migrating a legacy plaintext file if found.
+ * With `migrate: false` a legacy file is read but left in place.
+ */
+export function loadCredentials(
+  account: string = getActiveAccount(),
+  { migrate = true }: { migrate?: boolean } = {},
+): StoredCredentials | null {
+  if (!isValidAccountName(account)) return null;
+
+  const backends = getCredentialBackends();
+  for (const backend of backends) {
+    const raw = backend.read(account);
+    if (raw) return parseCredentials(raw);
+  }
+  if (backends.includes(fileBackend)) return null;
+
+  // Move plaintext credentials from older versions into the configured backend
+  const raw = fileBackend.read(account);
+  const legacy = parseCredentials(raw);
+  if (
+    legacy &&
+    migrate &&
+    backends.some((backend) => backend.write(account, raw!))
+  ) {
+    fileBackend.delete(account);
+  }
+  return legacy;
+}
+
+/**
+ * Clear an account's credentials from every available backend and drop it
+ * from the account index. Defaults to the active account.
+ */
+export function clearCredentials(account: string = getActiveAccount()): void {
+  if (!isValidAccountName(account)) return;
+  for (const backend of Object.values(BACKENDS)) {
+    if (isAvailable(backend)) backend.delete(account);
+  }
+
+  const index = readAccountIndex();
+  if (account in index) {
+    delete index[account];
+    writeAccountIndex(index);
+  }
+}
+
+/**
+ * All stored accounts, sorted by name. Includes a "default" login saved by
+ * versions that predate the account index.
  */
-export function clearCredentials(): void {
-  if (shouldUseKeychain()) keychainDelete();
-  fileDelete();
+export function listAccounts(): AccountInfo[] {
+  const index = readAccountIndex();
+  if (!(DEFAULT_ACCOUNT in index)) {
+    const legacy = loadCredentials(DEFAULT_ACCOUNT);
+    if (legacy) {
+      index[DEFAULT_ACCOUNT] = {
+        authMethod: legacy.authMethod,
+        email: legacy.email,
+        address: legacy.address,
+      };
+    }
+  }
+  return Object.keys(index)
+    .sort()
+    .map((name) => ({ name, ...index[name]! }));
 }
 
 /**
- * Check if a token has expired.
+ * Check if a token has expired, or will within `skewMs`.
  * Handles both seconds and milliseconds timestamps.
  */
-export function isTokenExpired(expiresAt: number): boolean {
+export function isTokenExpired(expiresAt: number, skewMs = 0): boolean {
   const expiresAtMs =
     expiresAt > 1_000_000_000_000 ? expiresAt : expiresAt * 1000;
-  return Date.now() >= expiresAtMs;
+  return Date.now() + skewMs >= expiresAtMs;
+}
+
+// ─── Refresh ────────────────────────────────────────────────────────────────
+
+const DEFAULT_REFRESH_SKEW_MS = 5 * 60 * 1_000;
+
+/**
+ * How long before expiry a stored token is refreshed
+ * (`TALENT_AGENT_REFRESH_SKEW`, e.g. "10m"; default 5 minutes).
+ */
+export function getRefreshSkewMs(): number {
+  const raw = process.env.TALENT_AGENT_REFRESH_SKEW;
+  if (!raw) return DEFAULT_REFRESH_SKEW_MS;
+  return parseDuration(raw) ?? DEFAULT_REFRESH_SKEW_MS;
+}
+
+/** In-flight refreshes by account name. */
+const refreshes = new Map<string, Promise<string | null>>();
+
+/**
+ * Refresh an account's stored token, sharing one request between concurrent
+ * callers. Resolves with the new token, or null if the refresh failed.
+ */
+function refreshStoredToken(
+  account: string,
+  creds: StoredCredentials,
+): Promise<string | null> {
+  let pending = refreshes.get(account);
+  if (!pending) {
+    pending = (async () => {
+      try {
+        const refreshed = await refreshAuthToken(creds.token);
+        if (!refreshed?.auth?.token) return null;
+        saveCredentials(
+          {
+            ...creds,
+            token: refreshed.auth.token,
+            expiresAt: refreshed.auth.expires_at,
+          },
+          account,
+        );
+        return refreshed.auth.token;
+      } catch {
+        return null;
+      }
+    })().finally(() => refreshes.delete(account));
+    refreshes.set(account, pending);
+  }
+  return pending;
 }
 
 /**
- * Get a valid auth token, auto-refreshing if expired.
+ * Get a fresh token after the server rejected `rejected` with a 401.
  *
- * Returns the token string if authenticated, or null if not logged in
- * or if the token cannot be refreshed.
+ * If another request already replaced the stored token, that one is
+ * returned without a new refresh. Returns null when there is nothing to
+ * retry with: no stored login, a failed refresh, or a headless token
+ * (which is never refreshed).
  */
-export async function getValidToken(): Promise<string | null> {
-  const creds = loadCredentials();
+export async function refreshRejectedToken(
+  rejected: string,
+  account: string = getActiveAccount(),
+): Promise<string | null> {
+  if (getRequestToken() || getHeadlessToken()) return null;
+  const creds = loadCredentials(account);
   if (!creds) return null;
+  if (creds.token !== rejected) return creds.token;
+  return refreshStoredToken(account, creds);
+}
 
-  // Token is still valid
-  if (!isTokenExpired(creds.expiresAt)) {
-    return creds.token;
-  }
+// ─── Request Tokens ─────────────────────────────────────────────────────────
+
+const requestToken = new AsyncLocalStorage<string>();
+
+/**
+ * Run `fn` with `token` as the auth token for every talent-pro call it
+ * makes, ahead of TALENT_AGENT_TOKEN and stored credentials.
+ */
+export function withRequestToken<T>(token: string, fn: () => T): T {
+  return requestToken.run(token, fn);
+}
+
+/**
+ * Token set by the enclosing `withRequestToken()` call, if any.
+ */
+export function getRequestToken(): string | undefined {
+  return requestToken.getStore();
+}
+
+// ─── Headless Tokens ────────────────────────────────────────────────────────
+
+/**
+ * Token from `TALENT_AGENT_TOKEN` (also set by `--token-stdin`), if any.
+ */
+export function getHeadlessToken(): string | undefined {
+  return process.env.TALENT_AGENT_TOKEN?.trim() || undefined;
+}
 
-  // Token expired — try to refresh
+/**
+ * Claims of a JWT, decoded without checking the signature, or null when the
+ * token is not a JWT.
+ */
+function tokenClaims(token: string): Record<string, unknown> | null {
+  const payload = token.split(".")[1];
+  if (!payload) return null;
   try {
-    const refreshed = await refreshAuthToken(creds.token);
-    if (refreshed?.auth?.token) {
-      const updated: StoredCredentials = {
-        ...creds,
-        token: refreshed.auth.token,
-        expiresAt: refreshed.auth.expires_at,
-      };
-      saveCredentials(updated);
-      return updated.token;
-    }
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+    return claims && typeof claims === "object" ? claims : null;
   } catch {
-    // Refresh failed — token is no longer valid
+    return null;
+  }
+}
+
+/**
+ * Expiry (epoch seconds) from a JWT's `exp` claim, or null when the token
+ * is not a JWT or has no expiry.
+ */
+export function getTokenExpiry(token: string): number | null {
+  const exp = tokenClaims(token)?.exp;
+  return typeof exp === "number" ? exp : null;
+}
+
+/**
+ * The user a JWT was issued to (`sub`, else `user_id`), or null when the
+ * token is not a JWT or names no user. The same across refreshes of one
+ * login. Not verified: only trust it for a token talent-pro has accepted.
+ */
+export function getTokenSubject(token: string): string | null {
+  const claims = tokenClaims(token);
+  const subject = claims?.sub ?? claims?.user_id;
+  return typeof subject === "string" || typeof subject === "number"
+    ? String(subject)
+    : null;
+}
+
+/**
+ * Message for a request that has no usable token. Points request-token and
+ * headless callers at their expired token rather than at `talent-agent login`.
+ */
+export function authRequiredMessage(): string {
+  if (getRequestToken()) {
+    return "The bearer token has expired. Send a new one in the Authorization header.";
+  }
+  if (getHeadlessToken()) {
+    return "TALENT_AGENT_TOKEN has expired. Provide a new token; headless tokens are not refreshed.";
+  }
+  return (
+    encryptedCredentialsProblem() ??
+    "Not authenticated. Run 'talent-agent login' first."
+  );
+}
+
+/**
+ * Get a valid auth token for an account (default: the active account),
+ * refreshing it when it expires within the refresh skew.
+ *
+ * Returns the token string if authenticated, or null if not logged in
+ * or if the token cannot be refreshed. A request token, then
+ * TALENT_AGENT_TOKEN, take precedence over stored credentials.
+ */
+export async function getValidToken(
+  account: string = getActiveAccount(),
+): Promise<string | null> {
+  const external = getRequestToken() ?? getHeadlessToken();
+  if (external) {
+    const expiresAt = getTokenExpiry(external);
+    return expiresAt !== null && isTokenExpired(expiresAt) ? null : external;
   }
 
+  const creds = loadCredentials(account);
+  if (!creds) return null;
+
+  // Token is valid and not close to expiring
+  if (!isTokenExpired(creds.expiresAt, getRefreshSkewMs())) {
+    return creds.token;
+  }
+
+  const refreshed = await refreshStoredToken(account, creds);
+  if (refreshed) return refreshed;
+
+  // An early refresh failed, but the current token still works for now
+  if (!isTokenExpired(creds.expiresAt)) return creds.token;
+
   // Clear stale credentials
-  clearCredentials();
+  clearCredentials(account);
   return null;
 }
@@ -0,0 +1,227 @@
+/**
+ * Unit tests for the local wallet (SIWE) helpers.
+ *
+ * Uses the well-known web3.js / Web3 Secret Storage test keys so every
+ * expected address and signature is deterministic.
+ */
+import { keccak_256 } from "@noble/hashes/sha3.js";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils.js";
+import { createCipheriv, randomBytes, scryptSync } from "node:crypto";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+  buildSiweMessage,
+  decryptKeystore,
+  isAddress,
+  loadPrivateKey,
+  privateKeyToAddress,
+  recoverPersonalMessageAddress,
+  signPersonalMessage,
+  toChecksumAddress,
+} from "./wallet";
+
+// web3.js docs example account
+const KEY_HEX =
+  "4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318";
+const KEY = hexToBytes(KEY_HEX);
+const ADDRESS = "0x2c7536E3605D9C16a7a3D7b1898e529396a65c23";
+
+// Web3 Secret Storage definition, pbkdf2 test vector (password "testpassword")
+const PBKDF2_KEYSTORE = {
+  version: 3 as const,
+  crypto: {
+    cipher: "aes-128-ctr",
+    cipherparams: { iv: "6087dab2f9fdbbfaddc31a909735c1e6" },
+    ciphertext:
+      "5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46",
+    kdf: "pbkdf2" as const,
+    kdfparams: {
+      c: 262144,
+      dklen: 32,
+      prf: "hmac-sha256",
+      salt: "ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd",
+    },
+    mac: "517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2",
+  },
+};
+const PBKDF2_KEY =
+  "7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d";
+
+/** A scrypt keystore with small cost parameters, built like geth does. */
+function scryptKeystore(privateKey: Uint8Array, password: string) {
+  const salt = randomBytes(32);
+  const iv = randomBytes(16);
+  const key = scryptSync(password, salt, 32, { N: 1024, r: 8, p: 1 });
+  const cipher = createCipheriv("aes-128-ctr", key.subarray(0, 16), iv);
+  const ciphertext = Buffer.concat([cipher.update(privateKey), cipher.final()]);
+  return {
+    version: 3 as const,
+    crypto: {
+      cipher: "aes-128-ctr",
+      cipherparams: { iv: iv.toString("hex") },
+      ciphertext: ciphertext.toString("hex"),
+      kdf: "scrypt" as const,
+      kdfparams: { n: 1024, r: 8, p: 1, dklen: 32, salt: salt.toString("hex") },
+      mac: bytesToHex(
+        keccak_256(Buffer.concat([key.subarray(16, 32), ciphertext])),
+      ),
+    },
+  };
+}
+
+let tempDir: string;
+
+beforeEach(() => {
+  tempDir = mkdtempSync(join(tmpdir(), "talent-agent-wallet-test-"));
+});
+
+afterEach(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+
+describe("addresses", () => {
+  it("derives the address of a private key", () => {
+    expect(privateKeyToAddress(KEY)).toBe(ADDRESS);
+  });
+
+  it("checksums addresses per EIP-55", () => {
+    expect(
+      toChecksumAddress("0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed"),
+    ).toBe("0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed");
+  });
+
+  it("validates address syntax", () => {
+    expect(isAddress(ADDRESS)).toBe(true);
+    expect(isAddress("0x1234")).toBe(false);
+  });
+});
+
+describe("buildSiweMessage", () => {
+  it("formats an EIP-4361 message with the optional fields", () => {
+    const message = buildSiweMessage({
+      domain: "talent-agent",
+      address: ADDRESS.toLowerCase(),
+      statement: "Sign in to Talent CLI",
+      uri: "https://cli.talent.app",
+      chainId: 8453,
+      nonce: "abc123",
+      issuedAt: "2026-01-01T00:00:00.000Z",
+      expirationTime: "2026-01-01T00:10:00.000Z",
+      requestId: "req-1",
+    });
+
+    expect(message).toBe(
+      [
+        "talent-agent wants you to sign in with your Ethereum account:",
+        ADDRESS,
+        "",
+        "Sign in to Talent CLI",
+        "",
+        "URI: https://cli.talent.app",
+        "Version: 1",
+        "Chain ID: 8453",
+        "Nonce: abc123",
+        "Issued At: 2026-01-01T00:00:00.000Z",
+        "Expiration Time: 2026-01-01T00:10:00.000Z",
+        "Request ID: req-1",
+      ].join("\n"),
+    );
+  });
+
+  it("omits the statement and optional fields when not given", () => {
+    const message = buildSiweMessage({
+      domain: "example.com",
+      address: ADDRESS,
+      uri: "https://example.com",
+      chainId: 1,
+      nonce: "n",
+      issuedAt: "2026-01-01T00:00:00.000Z",
+    });
+
+    expect(message.split("\n").slice(2, 4)).toEqual([
+      "",
+      "URI: https://example.com",
+    ]);
+    expect(message).not.toContain("Expiration Time");
+    expect(message).not.toContain("Request ID");
+  });
+});
+
+describe("signPersonalMessage", () => {
+  it("matches the web3.js personal_sign test vector", () => {
+    expect(signPersonalMessage("Some data", KEY)).toBe(
+      "0xb91467e570a6466aa9e9876cbcd013baba02900b8979d43fe208a4a4f339f5fd6007e74cd82e037b800186422fc2da167c747ef045e5d18a5f5d4300f8e1a0291c",
+    );
+  });
+
+  it("round-trips through signature recovery", () => {
+    const signature = signPersonalMessage("Sign in to Talent CLI", KEY);
+
+    expect(
+      recoverPersonalMessageAddress("Sign in to Talent CLI", signature),
+    ).toBe(ADDRESS);
+    expect(recoverPersonalMessageAddress("Tampered", signature)).not.toBe(
+      ADDRESS,
+    );
+  });
+
+  it("rejects signatures that are not 65 bytes", () => {
+    expect(() => recoverPersonalMessageAddress("m", "0x1234")).toThrow(
+      "65-byte",
+    );
+  });
+});
+
+describe("keystores", () => {
+  it("decrypts the pbkdf2 test vector", () => {
+    const key = decryptKeystore(PBKDF2_KEYSTORE, "testpassword");
+    expect(bytesToHex(key)).toBe(PBKDF2_KEY);
+  });
+
+  it("decrypts a scrypt keystore", () => {
+    const key = decryptKeystore(scryptKeystore(KEY, "hunter2"), "hunter2");
+    expect(bytesToHex(key)).toBe(KEY_HEX);
+  });
+
+  it("rejects a wrong password", () => {
+    expect(() =>
+      decryptKeystore(scryptKeystore(KEY, "hunter2"), "wrong"),
+    ).toThrow("Wrong keystore password.");
+  });
+});
+
+describe("loadPrivateKey", () => {
+  const noPassword = () => Promise.reject(new Error("no password expected"));
+
+  it("reads a hex key with or without 0x", async () => {
+    const path = join(tempDir, "key.txt");
+
+    writeFileSync(path, `0x${KEY_HEX}\n`);
+    expect(await loadPrivateKey(path, noPassword)).toEqual(KEY);
+
+    writeFileSync(path, KEY_HEX);
+    expect(await loadPrivateKey(path, noPassword)).toEqual(KEY);
+  });
+
+  it("decrypts a keystore file with the given password", async () => {
+    const path = join(tempDir, "keystore.json");
+    writeFileSync(path, JSON.stringify(scryptKeystore(KEY, "hunter2")));
+
+    const key = await loadPrivateKey(path, async () => "hunter2");
+    expect(privateKeyToAddress(key)).toBe(ADDRESS);
+  });
+
+  it("rejects files that are neither", async () => {
+    const path = join(tempDir, "junk.txt");
+    writeFileSync(path, "not a key");
+
+    await expect(loadPrivateKey(path, noPassword)).rejects.toThrow(
+      "neither a hex private key nor a keystore",
+    );
+  });
+});
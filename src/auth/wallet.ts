@@ -0,0 +1,259 @@
+/**
+ * Local helpers for wallet (SIWE) login.
+ *
+ * - `buildSiweMessage` formats an EIP-4361 message, including the optional
+ *   expiration, not-before and request-id fields.
+ * - `signPersonalMessage` signs it the way wallets do for `personal_sign`
+ *   (EIP-191), so a service account can log in with a key file instead of
+ *   pasting a signature from a browser wallet.
+ * - `loadPrivateKey` reads that key from a file holding either a raw hex
+ *   private key or an encrypted keystore (Web3 Secret Storage v3, scrypt or
+ *   pbkdf2), as written by geth, Foundry's `cast wallet` and most wallets.
+ *
+ * Smart-contract accounts (EIP-1271) sign in with the contract address in
+ * the message and a signature from one of its owners. The signature can't
+ * be checked locally; talent-pro verifies it by calling the contract's
+ * `isValidSignature` on the message's chain, so the chain ID must match the
+ * chain the account is deployed on.
+ */
+import { secp256k1 } from "@noble/curves/secp256k1.js";
+import { keccak_256 } from "@noble/hashes/sha3.js";
+import {
+  bytesToHex,
+  concatBytes,
+  hexToBytes,
+  utf8ToBytes,
+} from "@noble/hashes/utils.js";
+import {
+  createDecipheriv,
+  pbkdf2Sync,
+  scryptSync,
+  timingSafeEqual,
+} from "node:crypto";
+import { readFileSync } from "node:fs";
+
+// ─── Addresses ──────────────────────────────────────────────────────────────
+
+export function isAddress(value: string): boolean {
+  return /^0x[a-fA-F0-9]{40}$/.test(value);
+}
+
+/**
+ * EIP-55 mixed-case checksum encoding of an address.
+ */
+export function toChecksumAddress(address: string): string {
+  const hex = address.slice(2).toLowerCase();
+  const hash = bytesToHex(keccak_256(utf8ToBytes(hex)));
+  let result = "0x";
+  for (let i = 0; i < hex.length; i++) {
+    result += parseInt(hash[i]!, 16) >= 8 ? hex[i]!.toUpperCase() : hex[i];
+  }
+  return result;
+}
+
+function publicKeyToAddress(publicKey: Uint8Array): string {
+  // Uncompressed key without the 0x04 prefix
+  const hash = keccak_256(publicKey.slice(1));
+  return toChecksumAddress(`0x${bytesToHex(hash.slice(-20))}`);
+}
+
+export function privateKeyToAddress(privateKey: Uint8Array): string {
+  return publicKeyToAddress(secp256k1.getPublicKey(privateKey, false));
+}
+
+// ─── SIWE Message (EIP-4361) ────────────────────────────────────────────────
+
+export interface SiweMessageParams {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  chainId: number;
+  nonce: string;
+  /** ISO 8601 timestamps. */
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+/**
+ * Format a Sign-In with Ethereum message. The address is checksummed, as
+ * the spec requires.
+ */
+export function buildSiweMessage(params: SiweMessageParams): string {
+  const lines = [
+    `${params.domain} wants you to sign in with your Ethereum account:`,
+    toChecksumAddress(params.address),
+    "",
+  ];
+  if (params.statement) lines.push(params.statement, "");
+  lines.push(
+    `URI: ${params.uri}`,
+    "Version: 1",
+    `Chain ID: ${params.chainId}`,
+    `Nonce: ${params.nonce}`,
+    `Issued At: ${params.issuedAt}`,
+  );
+  if (params.expirationTime) {
+    lines.push(`Expiration Time: ${params.expirationTime}`);
+  }
+  if (params.notBefore) lines.push(`Not Before: ${params.notBefore}`);
+  if (params.requestId) lines.push(`Request ID: ${params.requestId}`);
+  if (params.resources?.length) {
+    lines.push("Resources:", ...params.resources.map((r) => `- ${r}`));
+  }
+  return lines.join("\n");
+}
+
+// ─── Signing (EIP-191) ──────────────────────────────────────────────────────
+
+function personalMessageHash(message: string): Uint8Array {
+  const body = utf8ToBytes(message);
+  const prefix = utf8ToBytes(`\x19Ethereum Signed Message:\n${body.length}`);
+  return keccak_256(concatBytes(prefix, body));
+}
+
+/**
+ * Sign a message as `personal_sign` does. Returns the 65-byte r || s || v
+ * signature as 0x-prefixed hex, with v = 27 or 28.
+ */
+export function signPersonalMessage(
+  message: string,
+  privateKey: Uint8Array,
+): string {
+  const signature = secp256k1.sign(personalMessageHash(message), privateKey, {
+    prehash: false,
+    format: "recovered",
+  });
+  // noble puts the recovery bit first; Ethereum puts it last, offset by 27
+  const v = new Uint8Array([signature[0]! + 27]);
+  return `0x${bytesToHex(concatBytes(signature.slice(1), v))}`;
+}
+
+/**
+ * Address that produced a `personal_sign` signature.
+ * Throws for malformed signatures.
+ */
+export function recoverPersonalMessageAddress(
+  message: string,
+  signature: string,
+): string {
+  const bytes = hexToBytes(signature.replace(/^0x/, ""));
+  if (bytes.length !== 65) {
+    throw new Error("Expected a 65-byte signature.");
+  }
+  const v = bytes[64]!;
+  const recovery = v >= 27 ? v - 27 : v;
+  const recovered = concatBytes(new Uint8Array([recovery]), bytes.slice(0, 64));
+  const publicKey = secp256k1.recoverPublicKey(
+    recovered,
+    personalMessageHash(message),
+    { prehash: false },
+  );
+  return publicKeyToAddress(
+    secp256k1.Point.fromBytes(publicKey).toBytes(false),
+  );
+}
+
+// ─── Key Files ──────────────────────────────────────────────────────────────
+
+interface KeystoreV3 {
+  version: 3;
+  crypto: {
+    cipher: string;
+    cipherparams: { iv: string };
+    ciphertext: string;
+    kdf: "scrypt" | "pbkdf2";
+    kdfparams: {
+      dklen: number;
+      salt: string;
+      /** scrypt */
+      n?: number;
+      r?: number;
+      p?: number;
+      /** pbkdf2 */
+      c?: number;
+      prf?: string;
+    };
+    mac: string;
+  };
+}
+
+function deriveKeystoreKey(
+  params: KeystoreV3["crypto"],
+  password: string,
+): Buffer {
+  const { kdf, kdfparams } = params;
+  const salt = Buffer.from(kdfparams.salt, "hex");
+  if (kdf === "scrypt") {
+    const N = kdfparams.n!;
+    const r = kdfparams.r!;
+    const p = kdfparams.p!;
+    return scryptSync(password, salt, kdfparams.dklen, {
+      N,
+      r,
+      p,
+      maxmem: 256 * N * r + 1024 * 1024,
+    });
+  }
+  if (kdf === "pbkdf2" && kdfparams.prf === "hmac-sha256") {
+    return pbkdf2Sync(password, salt, kdfparams.c!, kdfparams.dklen, "sha256");
+  }
+  throw new Error(`Unsupported keystore key derivation: ${kdf}`);
+}
+
+/**
+ * Decrypt a Web3 Secret Storage v3 keystore. Throws on a wrong password.
+ */
+export function decryptKeystore(
+  keystore: KeystoreV3,
+  password: string,
+): Uint8Array {
+  const { crypto } = keystore;
+  if (keystore.version !== 3 || crypto.cipher !== "aes-128-ctr") {
+    throw new Error("Unsupported keystore: expected version 3, aes-128-ctr.");
+  }
+
+  const key = deriveKeystoreKey(crypto, password);
+  const ciphertext = Buffer.from(crypto.ciphertext, "hex");
+  const mac = keccak_256(concatBytes(key.subarray(16, 32), ciphertext));
+  if (!timingSafeEqual(Buffer.from(mac), Buffer.from(crypto.mac, "hex"))) {
+    throw new Error("Wrong keystore password.");
+  }
+
+  const decipher = createDecipheriv(
+    "aes-128-ctr",
+    key.subarray(0, 16),
+    Buffer.from(crypto.cipherparams.iv, "hex"),
+  );
+  return new Uint8Array(
+    Buffer.concat([decipher.update(ciphertext), decipher.final()]),
+  );
+}
+
+/**
+ * Read a private key from `path`: a hex key (with or without 0x) or a v3
+ * keystore JSON file. `getPassword` is only called for keystores.
+ */
+export async function loadPrivateKey(
+  path: string,
+  getPassword: () => Promise<string>,
+): Promise<Uint8Array> {
+  const content = readFileSync(path, "utf-8").trim();
+
+  if (/^(0x)?[a-fA-F0-9]{64}$/.test(content)) {
+    return hexToBytes(content.replace(/^0x/, ""));
+  }
+
+  let keystore: KeystoreV3;
+  try {
+    keystore = JSON.parse(content) as KeystoreV3;
+  } catch {
+    throw new Error(
+      `${path} is neither a hex private key nor a keystore JSON file.`,
+    );
+  }
+  return decryptKeystore(keystore, await getPassword());
+}
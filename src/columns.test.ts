@@ -0,0 +1,114 @@
+/**
+ * Unit tests for the search table column registry.
+ */
+import { describe, expect, it } from "vitest";
+
+import {
+  COLUMN_IDS,
+  DEFAULT_COLUMNS,
+  INDEX_WIDTH,
+  getColumn,
+  layoutColumns,
+  parseColumns,
+  resolveColumns,
+} from "./columns";
+
+describe("parseColumns", () => {
+  it("parses a comma-separated list, ignoring case, spaces and repeats", () => {
+    expect(parseColumns("name, Company,years,name")).toEqual([
+      "name",
+      "company",
+      "years",
+    ]);
+  });
+
+  it("rejects unknown columns and lists the available ones", () => {
+    expect(() => parseColumns("name,salary")).toThrow(
+      /Unknown column: salary\. Available columns: name, role/,
+    );
+  });
+
+  it("rejects an empty list", () => {
+    expect(() => parseColumns(" , ")).toThrow(/Available columns/);
+  });
+});
+
+describe("resolveColumns", () => {
+  it("prefers explicit columns over the configured ones", () => {
+    expect(resolveColumns(["tags"], ["company"])).toEqual(["tags"]);
+  });
+
+  it("uses configured columns, skipping unknown IDs", () => {
+    expect(resolveColumns(undefined, ["company", "salary"])).toEqual([
+      "company",
+    ]);
+  });
+
+  it("falls back to the defaults", () => {
+    expect(resolveColumns()).toEqual(DEFAULT_COLUMNS);
+    expect(resolveColumns(undefined, ["salary"])).toEqual(DEFAULT_COLUMNS);
+  });
+});
+
+describe("layoutColumns", () => {
+  const used = (layout: ReturnType<typeof layoutColumns>) =>
+    layout.reduce((sum, l) => sum + l.width + 1, INDEX_WIDTH);
+
+  it("fills the available width without exceeding it", () => {
+    const layout = layoutColumns(DEFAULT_COLUMNS, 100);
+
+    expect(layout.map((l) => l.column.id)).toEqual(DEFAULT_COLUMNS);
+    expect(used(layout)).toBe(100);
+    for (const l of layout) {
+      expect(l.width).toBeGreaterThanOrEqual(l.column.minWidth);
+      expect(l.width).toBeLessThanOrEqual(l.column.maxWidth);
+    }
+  });
+
+  it("stops growing columns at their maximum width", () => {
+    const layout = layoutColumns(["name", "years"], 300);
+
+    expect(layout.map((l) => l.width)).toEqual([30, 4]);
+  });
+
+  it("drops trailing columns that don't fit at their minimum width", () => {
+    const layout = layoutColumns(["name", "role", "location", "tags"], 45);
+
+    expect(layout.map((l) => l.column.id)).toEqual([
+      "name",
+      "role",
+      "location",
+    ]);
+    expect(used(layout)).toBeLessThanOrEqual(45);
+  });
+
+  it("always keeps the first column", () => {
+    expect(layoutColumns(["name", "role"], 10)).toHaveLength(1);
+  });
+});
+
+describe("column values", () => {
+  const profile = {
+    id: "p1",
+    name: "jane",
+    githubTopLanguages: ["Go", "Rust"],
+    linkedinYearsExperience: 0,
+    githubRecentlyActive: false,
+    tags: ["remote", "senior"],
+  };
+
+  it("formats every registered column", () => {
+    const values = Object.fromEntries(
+      COLUMN_IDS.map((id) => [id, getColumn(id).value(profile)]),
+    );
+
+    expect(values).toMatchObject({
+      name: "jane",
+      role: "",
+      languages: "Go, Rust",
+      years: "0",
+      active: "no",
+      tags: "remote, senior",
+    });
+  });
+});
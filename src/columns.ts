@@ -0,0 +1,243 @@
+/**
+ * Column registry for search result tables.
+ *
+ * Shared by the terminal formatter (format.ts) and the TUI results panel so
+ * both show the same columns, chosen with `--columns`, the TUI `/columns`
+ * command, or the `columns` default in ~/.talent-agent/config.json.
+ *
+ * Widths are computed from the space actually available (terminal or panel
+ * width): every column gets its minimum, the rest is shared by weight up to
+ * each column's maximum. Columns that don't fit at their minimum are
+ * dropped from the right.
+ */
+import type { ProfileSummary } from "./agent";
+
+// ─── Registry ───────────────────────────────────────────────────────────────
+
+/** Visual role of a column; each renderer maps it to its own colors. */
+export type ColumnStyle = "name" | "role" | "location" | "accent" | "dim";
+
+export interface TableColumn {
+  id: string;
+  header: string;
+  minWidth: number;
+  maxWidth: number;
+  /** Share of the leftover width relative to other columns. */
+  weight: number;
+  style: ColumnStyle;
+  value: (profile: ProfileSummary) => string;
+}
+
+function list(value: string | string[] | null | undefined): string {
+  if (!value) return "";
+  return Array.isArray(value) ? value.join(", ") : value;
+}
+
+export const TABLE_COLUMNS = {
+  name: {
+    header: "Name",
+    minWidth: 12,
+    maxWidth: 30,
+    weight: 3,
+    style: "name",
+    value: (p) => p.displayName || p.name || "Unknown",
+  },
+  role: {
+    header: "Role",
+    minWidth: 10,
+    maxWidth: 30,
+    weight: 3,
+    style: "role",
+    value: (p) => p.mainRole || p.linkedinCurrentTitle || "",
+  },
+  title: {
+    header: "Title",
+    minWidth: 10,
+    maxWidth: 30,
+    weight: 2,
+    style: "role",
+    value: (p) => p.linkedinCurrentTitle || "",
+  },
+  company: {
+    header: "Company",
+    minWidth: 10,
+    maxWidth: 24,
+    weight: 2,
+    style: "role",
+    value: (p) => p.linkedinCurrentCompany || "",
+  },
+  location: {
+    header: "Location",
+    minWidth: 10,
+    maxWidth: 24,
+    weight: 2,
+    style: "location",
+    value: (p) => p.location || "",
+  },
+  languages: {
+    header: "Languages",
+    minWidth: 10,
+    maxWidth: 30,
+    weight: 2,
+    style: "accent",
+    value: (p) => list(p.githubTopLanguages),
+  },
+  frameworks: {
+    header: "Frameworks",
+    minWidth: 10,
+    maxWidth: 30,
+    weight: 2,
+    style: "accent",
+    value: (p) => list(p.githubTopFrameworks),
+  },
+  years: {
+    header: "Yrs",
+    minWidth: 4,
+    maxWidth: 4,
+    weight: 0,
+    style: "dim",
+    value: (p) =>
+      p.linkedinYearsExperience == null
+        ? ""
+        : String(p.linkedinYearsExperience),
+  },
+  expertise: {
+    header: "Expertise",
+    minWidth: 9,
+    maxWidth: 14,
+    weight: 1,
+    style: "dim",
+    value: (p) => p.githubExpertiseLevel || "",
+  },
+  tags: {
+    header: "Tags",
+    minWidth: 10,
+    maxWidth: 40,
+    weight: 2,
+    style: "dim",
+    value: (p) => list(p.tags),
+  },
+  active: {
+    header: "Active",
+    minWidth: 6,
+    maxWidth: 6,
+    weight: 0,
+    style: "dim",
+    value: (p) =>
+      p.githubRecentlyActive == null
+        ? ""
+        : p.githubRecentlyActive
+          ? "yes"
+          : "no",
+  },
+} satisfies Record<string, Omit<TableColumn, "id">>;
+
+export type ColumnId = keyof typeof TABLE_COLUMNS;
+
+export const COLUMN_IDS = Object.keys(TABLE_COLUMNS) as ColumnId[];
+
+/** The columns shown when nothing is configured. */
+export const DEFAULT_COLUMNS: ColumnId[] = [
+  "name",
+  "role",
+  "location",
+  "languages",
+];
+
+/** Width of the leading "#" column. */
+export const INDEX_WIDTH = 4;
+
+export function isColumnId(value: string): value is ColumnId {
+  return value in TABLE_COLUMNS;
+}
+
+export function getColumn(id: ColumnId): TableColumn {
+  return { id, ...TABLE_COLUMNS[id] };
+}
+
+// ─── Parsing ────────────────────────────────────────────────────────────────
+
+/**
+ * Parse a comma-separated column list ("name,company,years").
+ * Throws with the list of valid IDs on unknown or empty input.
+ */
+export function parseColumns(spec: string): ColumnId[] {
+  const ids = spec
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+  const unknown = ids.filter((id) => !isColumnId(id));
+  if (ids.length === 0 || unknown.length > 0) {
+    const prefix =
+      unknown.length > 0 ? `Unknown column: ${unknown.join(", ")}. ` : "";
+    throw new Error(`${prefix}Available columns: ${COLUMN_IDS.join(", ")}`);
+  }
+  return [...new Set(ids)] as ColumnId[];
+}
+
+/**
+ * Resolve the columns to show: an explicit choice first, then the configured
+ * default (unknown IDs ignored), then DEFAULT_COLUMNS.
+ */
+export function resolveColumns(
+  explicit?: ColumnId[],
+  configured?: string[],
+): ColumnId[] {
+  if (explicit && explicit.length > 0) return explicit;
+  const fromConfig = (configured ?? []).filter(isColumnId);
+  return fromConfig.length > 0 ? fromConfig : DEFAULT_COLUMNS;
+}
+
+// ─── Layout ─────────────────────────────────────────────────────────────────
+
+export interface ColumnLayout {
+  column: TableColumn;
+  width: number;
+}
+
+/**
+ * Fit columns into `totalWidth` characters (including the index column and
+ * a one-space gap after every column).
+ */
+export function layoutColumns(
+  ids: ColumnId[],
+  totalWidth: number,
+): ColumnLayout[] {
+  const columns = ids.map(getColumn);
+  const budget = () => totalWidth - INDEX_WIDTH - columns.length; // one gap per column
+
+  // Drop columns from the right until the minimum widths fit (keep one)
+  while (
+    columns.length > 1 &&
+    columns.reduce((sum, c) => sum + c.minWidth, 0) > budget()
+  ) {
+    columns.pop();
+  }
+
+  const layout = columns.map((column) => ({ column, width: column.minWidth }));
+  let spare = budget() - layout.reduce((sum, l) => sum + l.width, 0);
+
+  // Share spare width by weight, re-sharing what capped columns can't take
+  while (spare > 0) {
+    const growable = layout.filter(
+      (l) => l.column.weight > 0 && l.width < l.column.maxWidth,
+    );
+    if (growable.length === 0) break;
+    const totalWeight = growable.reduce((sum, l) => sum + l.column.weight, 0);
+    let given = 0;
+    for (const l of growable) {
+      const share = Math.max(
+        1,
+        Math.floor((spare * l.column.weight) / totalWeight),
+      );
+      const grow = Math.min(share, l.column.maxWidth - l.width, spare - given);
+      l.width += grow;
+      given += grow;
+      if (given >= spare) break;
+    }
+    if (given === 0) break;
+    spare -= given;
+  }
+
+  return layout;
+}
@@ -0,0 +1,215 @@
+/**
+ * Unit tests for the user config file.
+ *
+ * We mock `node:os` homedir to redirect the config to a temp directory, the
+ * same way the session cache tests do.
+ */
+import {
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { dirname, join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  forgetAccount,
+  getConfigPath,
+  getProUrl,
+  listConfig,
+  loadConfig,
+  resolveProfile,
+  resolveSetting,
+  saveConfig,
+  setActiveProfile,
+  setConfigValue,
+  updateConfig,
+} from "./config";
+
+let tempHome: string;
+
+vi.mock("node:os", () => ({
+  homedir: () => tempHome,
+  tmpdir: () => require("os").tmpdir(),
+}));
+
+beforeEach(() => {
+  tempHome = mkdtempSync(join(require("os").tmpdir(), "talent-agent-config-"));
+});
+
+const originalEnv = { ...process.env };
+
+afterEach(() => {
+  rmSync(tempHome, { recursive: true, force: true });
+  process.env = { ...originalEnv };
+  setActiveProfile(undefined);
+});
+
+function writeRaw(content: string): void {
+  mkdirSync(dirname(getConfigPath()), { recursive: true });
+  writeFileSync(getConfigPath(), content);
+}
+
+describe("config", () => {
+  it("returns an empty config when the file is missing", () => {
+    expect(loadConfig()).toEqual({});
+  });
+
+  it("warns and returns an empty config when the file is invalid", () => {
+    const stderr = vi
+      .spyOn(process.stderr, "write")
+      .mockImplementation(() => true);
+
+    writeRaw("{not json");
+    expect(loadConfig()).toEqual({});
+    expect(loadConfig()).toEqual({});
+    expect(stderr).toHaveBeenCalledTimes(1);
+    expect(String(stderr.mock.calls[0]![0])).toMatch(
+      /^Warning: Invalid config file .*config\.json: /,
+    );
+
+    writeRaw(JSON.stringify({ columns: "name" }));
+    expect(loadConfig()).toEqual({});
+    expect(stderr).toHaveBeenCalledTimes(2);
+    expect(String(stderr.mock.calls[1]![0])).toContain("at columns:");
+    stderr.mockRestore();
+  });
+
+  it("refuses to save over a file that failed to load", () => {
+    vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+    const content = JSON.stringify({
+      profiles: {
+        prod: { "pro-url": "https://pro.example.com", theme: "Dark" },
+      },
+    });
+    writeRaw(content);
+
+    expect(() => updateConfig({ columns: ["name"] })).toThrow(
+      /Invalid config file .* Fix or remove the file/,
+    );
+    expect(() => setConfigValue("profile", "prod")).toThrow(
+      /Invalid config file/,
+    );
+    expect(() => forgetAccount("work")).toThrow(/Invalid config file/);
+    expect(readFileSync(getConfigPath(), "utf-8")).toBe(content);
+  });
+
+  it("saves and loads the config with owner-only permissions", () => {
+    saveConfig({ columns: ["name", "company"] });
+
+    expect(loadConfig()).toEqual({ columns: ["name", "company"] });
+    if (process.platform !== "win32") {
+      expect(statSync(getConfigPath()).mode & 0o777).toBe(0o600);
+    }
+  });
+
+  it("merges updates and keeps unknown keys", () => {
+    writeRaw(JSON.stringify({ theme: "dark", columns: ["name"] }));
+
+    updateConfig({ columns: ["tags"] });
+
+    expect(JSON.parse(readFileSync(getConfigPath(), "utf-8"))).toEqual({
+      theme: "dark",
+      columns: ["tags"],
+    });
+  });
+});
+
+describe("profiles", () => {
+  beforeEach(() => {
+    delete process.env.TALENT_PRO_URL;
+    delete process.env.TALENT_AGENT_PROFILE;
+    saveConfig({
+      profile: "prod",
+      profiles: {
+        prod: { "pro-url": "https://pro.example.com/" },
+        staging: { "pro-url": "https://staging.example.com" },
+      },
+    });
+  });
+
+  it("picks the profile from --profile, then env, then the file", () => {
+    expect(resolveProfile()).toEqual({ value: "prod", source: "config" });
+
+    process.env.TALENT_AGENT_PROFILE = "staging";
+    expect(resolveProfile()).toEqual({ value: "staging", source: "env" });
+
+    setActiveProfile("local");
+    expect(resolveProfile()).toEqual({ value: "local", source: "flag" });
+  });
+
+  it("resolves settings as env > profile > default", () => {
+    expect(getProUrl()).toBe("https://pro.example.com");
+
+    setActiveProfile("local");
+    expect(resolveSetting("pro-url")).toEqual({
+      value: "https://pro.talent.app",
+      source: "default",
+    });
+
+    process.env.TALENT_PRO_URL = "http://localhost:3000";
+    expect(resolveSetting("pro-url")).toEqual({
+      value: "http://localhost:3000",
+      source: "env",
+    });
+  });
+
+  it("writes profile settings to the active profile", () => {
+    setActiveProfile("staging");
+    setConfigValue("theme", "light");
+
+    expect(loadConfig().profiles?.staging).toEqual({
+      "pro-url": "https://staging.example.com",
+      theme: "light",
+    });
+    expect(loadConfig().profiles?.prod).toEqual({
+      "pro-url": "https://pro.example.com/",
+    });
+  });
+
+  it("validates keys and values", () => {
+    expect(() => setConfigValue("color", "red")).toThrow(
+      /Unknown config key: color/,
+    );
+    expect(() => setConfigValue("pro-url", "pro.example.com")).toThrow(
+      /http\(s\) URL/,
+    );
+    expect(() => setConfigValue("columns", "name,salary")).toThrow(
+      /Unknown column: salary/,
+    );
+  });
+
+  it("forgets a removed account in every profile that uses it", () => {
+    setConfigValue("account", "work", "prod");
+    setConfigValue("account", "work", "staging");
+    setConfigValue("account", "home", "local");
+
+    expect(forgetAccount("work")).toEqual(["prod", "staging"]);
+    expect(loadConfig().profiles?.prod?.account).toBeUndefined();
+    expect(loadConfig().profiles?.staging?.account).toBeUndefined();
+    expect(loadConfig().profiles?.local?.account).toBe("home");
+    expect(forgetAccount("work")).toEqual([]);
+  });
+
+  it("lists every key with its source", () => {
+    setConfigValue("columns", "name,company");
+
+    const listing = listConfig();
+
+    expect(listing.profile).toBe("prod");
+    expect(listing.profiles).toEqual(["prod", "staging"]);
+    expect(listing.values).toContainEqual({
+      key: "columns",
+      value: "name,company",
+      source: "config",
+    });
+    expect(listing.values).toContainEqual({
+      key: "session",
+      value: undefined,
+      source: undefined,
+    });
+  });
+});
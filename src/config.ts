@@ -0,0 +1,387 @@
+/**
+ * User configuration in `~/.talent-agent/config.json`.
+ *
+ * Holds global preferences (e.g. the search table `columns`) and named
+ * profiles, one per environment:
+ *
+ *   {
+ *     "profile": "prod",
+ *     "columns": ["name", "company", "years"],
+ *     "profiles": {
+ *       "prod": { "pro-url": "https://pro.talent.app", "account": "work" },
+ *       "staging": { "pro-url": "https://staging.pro.talent.app", "theme": "dark" }
+ *     }
+ *   }
+ *
+ * The active profile is `--profile`, else `TALENT_AGENT_PROFILE`, else the
+ * file's `profile`, else "default". Each profile setting resolves as
+ * flag > env var > active profile > built-in default, so an exported
+ * `TALENT_PRO_URL` still wins over whatever the profile says.
+ *
+ * A missing file is treated as an empty config; unknown keys are preserved
+ * on save. A file that is not valid JSON or fails the schema is reported on
+ * stderr and ignored for reads, and writes refuse to replace it so a typo
+ * doesn't cost the user their profiles.
+ */
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { z } from "zod";
+
+import { parseColumns } from "./columns";
+
+// ─── Schema ─────────────────────────────────────────────────────────────────
+
+const profileSchema = z.looseObject({
+  "pro-url": z.string().optional(),
+  account: z.string().optional(),
+  session: z.string().optional(),
+  theme: z.enum(["light", "dark"]).optional(),
+});
+
+const configSchema = z.looseObject({
+  /** Profile used when neither --profile nor TALENT_AGENT_PROFILE is set. */
+  profile: z.string().optional(),
+  /** Default search table columns (see columns.ts). */
+  columns: z.array(z.string()).optional(),
+  profiles: z.record(z.string(), profileSchema).optional(),
+});
+
+export type Config = z.infer<typeof configSchema>;
+
+export type ProfileConfig = z.infer<typeof profileSchema>;
+
+// ─── File ───────────────────────────────────────────────────────────────────
+
+// Computed lazily so tests can mock homedir() per-test without vi.resetModules()
+export function getConfigPath(): string {
+  return join(homedir(), ".talent-agent", "config.json");
+}
+
+/**
+ * Read and validate the config file. Returns the problem instead of the
+ * config when the file exists but can't be used.
+ */
+function readConfigFile(): { config: Config } | { error: string } {
+  const path = getConfigPath();
+  if (!existsSync(path)) return { config: {} };
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { error: `Invalid config file ${path}: ${reason}` };
+  }
+  const parsed = configSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const at = issue?.path.join(".") || "(root)";
+    return { error: `Invalid config file ${path} at ${at}: ${issue?.message}` };
+  }
+  return { config: parsed.data };
+}
+
+// Last problem reported on stderr, so each one is shown once per process
+let reportedError: string | undefined;
+
+/**
+ * Read the config file. Returns an empty config when the file is missing;
+ * when it is invalid, warns on stderr and returns an empty config.
+ */
+export function loadConfig(): Config {
+  const file = readConfigFile();
+  if ("config" in file) return file.config;
+  if (file.error !== reportedError) {
+    reportedError = file.error;
+    process.stderr.write(`Warning: ${file.error}. Using defaults.\n`);
+  }
+  return {};
+}
+
+/**
+ * Read the config file before changing it. Throws when the file is invalid,
+ * so the change doesn't overwrite settings that failed to load.
+ */
+function loadConfigForUpdate(): Config {
+  const file = readConfigFile();
+  if ("error" in file) {
+    throw new Error(`${file.error}. Fix or remove the file and try again.`);
+  }
+  return file.config;
+}
+
+/**
+ * Write the config file atomically (0o600).
+ */
+export function saveConfig(config: Config): void {
+  const path = getConfigPath();
+  const dir = dirname(path);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true, mode: 0o700 });
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(config, null, 2) + "\n", {
+    encoding: "utf-8",
+    mode: 0o600,
+  });
+  renameSync(tmpPath, path);
+}
+
+/**
+ * Merge `changes` into the stored config and save it. Throws when the
+ * stored config is invalid.
+ */
+export function updateConfig(changes: Partial<Config>): Config {
+  const config = { ...loadConfigForUpdate(), ...changes };
+  saveConfig(config);
+  return config;
+}
+
+// ─── Profiles ───────────────────────────────────────────────────────────────
+
+export const DEFAULT_PROFILE = "default";
+
+export const DEFAULT_TALENT_PRO_URL = "https://pro.talent.app";
+
+export const DEFAULT_ACCOUNT = "default";
+
+export function isValidAccountName(name: string): boolean {
+  return /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/.test(name);
+}
+
+/** Set by --profile; takes precedence over TALENT_AGENT_PROFILE. */
+let profileOverride: string | undefined;
+
+export function setActiveProfile(name: string | undefined): void {
+  profileOverride = name;
+}
+
+/** Values from command-line flags (e.g. --account); highest precedence. */
+const settingOverrides: Partial<Record<ProfileSettingKey, string>> = {};
+
+export function setSettingOverride(
+  key: ProfileSettingKey,
+  value: string | undefined,
+): void {
+  if (value === undefined) delete settingOverrides[key];
+  else settingOverrides[key] = value;
+}
+
+export type SettingSource = "flag" | "env" | "config" | "profile" | "default";
+
+export interface ResolvedValue {
+  value: string | undefined;
+  /** Where the value came from; undefined when it is not set anywhere. */
+  source: SettingSource | undefined;
+}
+
+/**
+ * Name of the active profile and where it was chosen.
+ */
+export function resolveProfile(
+  config: Config = loadConfig(),
+): ResolvedValue & { value: string } {
+  if (profileOverride) return { value: profileOverride, source: "flag" };
+  const env = process.env.TALENT_AGENT_PROFILE;
+  if (env) return { value: env, source: "env" };
+  if (config.profile) return { value: config.profile, source: "config" };
+  return { value: DEFAULT_PROFILE, source: "default" };
+}
+
+export function getActiveProfile(): string {
+  return resolveProfile().value;
+}
+
+// ─── Settings ───────────────────────────────────────────────────────────────
+
+export type ProfileSettingKey = "pro-url" | "account" | "session" | "theme";
+
+interface ProfileSetting {
+  description: string;
+  /** Environment variable that overrides the profile value. */
+  env: string;
+  default?: string;
+  /** Returns an error message for invalid values. */
+  validate?: (value: string) => string | undefined;
+}
+
+export const PROFILE_SETTINGS: Record<ProfileSettingKey, ProfileSetting> = {
+  "pro-url": {
+    description: "Talent Pro app URL (auth + agent API)",
+    env: "TALENT_PRO_URL",
+    default: DEFAULT_TALENT_PRO_URL,
+    validate: (value) =>
+      /^https?:\/\/[^\s/]+/.test(value)
+        ? undefined
+        : "pro-url must be an http(s) URL",
+  },
+  account: {
+    description: "Stored login to use (see talent-agent accounts)",
+    env: "TALENT_AGENT_ACCOUNT",
+    default: DEFAULT_ACCOUNT,
+    validate: (value) =>
+      isValidAccountName(value)
+        ? undefined
+        : "account must be letters, digits, - or _",
+  },
+  session: {
+    description: "Default session ID (fallback for --session)",
+    env: "TALENT_CLI_SESSION",
+  },
+  theme: {
+    description: "TUI color scheme (light or dark)",
+    env: "TALENT_CLI_THEME",
+    validate: (value) =>
+      value === "light" || value === "dark"
+        ? undefined
+        : "theme must be light or dark",
+  },
+};
+
+/** Keys stored at the top level of the file rather than per profile. */
+export type GlobalSettingKey = "profile" | "columns";
+
+export type ConfigKey = ProfileSettingKey | GlobalSettingKey;
+
+export const CONFIG_KEYS: ConfigKey[] = [
+  "profile",
+  "columns",
+  ...(Object.keys(PROFILE_SETTINGS) as ProfileSettingKey[]),
+];
+
+export function isConfigKey(key: string): key is ConfigKey {
+  return (CONFIG_KEYS as string[]).includes(key);
+}
+
+/**
+ * Resolve a profile setting: flag > env var > active profile > default.
+ */
+export function resolveSetting(
+  key: ProfileSettingKey,
+  config: Config = loadConfig(),
+): ResolvedValue {
+  const setting = PROFILE_SETTINGS[key];
+  const flag = settingOverrides[key];
+  if (flag) return { value: flag, source: "flag" };
+  const env = process.env[setting.env];
+  if (env) return { value: env, source: "env" };
+  const fromProfile = config.profiles?.[resolveProfile(config).value]?.[key];
+  if (fromProfile) return { value: fromProfile, source: "profile" };
+  if (setting.default) return { value: setting.default, source: "default" };
+  return { value: undefined, source: undefined };
+}
+
+export function getSetting(key: ProfileSettingKey): string | undefined {
+  return resolveSetting(key).value;
+}
+
+/**
+ * Name of the stored login to use (`--account`, `TALENT_AGENT_ACCOUNT`, the
+ * profile's `account`, else "default").
+ */
+export function getActiveAccount(): string {
+  return getSetting("account") ?? DEFAULT_ACCOUNT;
+}
+
+/**
+ * Base URL of the Talent Pro app, without a trailing slash.
+ */
+export function getProUrl(): string {
+  return (getSetting("pro-url") ?? DEFAULT_TALENT_PRO_URL).replace(/\/$/, "");
+}
+
+// ─── config get / set / list ────────────────────────────────────────────────
+
+/**
+ * Effective value of any config key, as shown by `config get`.
+ */
+export function getConfigValue(
+  key: ConfigKey,
+  config: Config = loadConfig(),
+): ResolvedValue {
+  if (key === "profile") return resolveProfile(config);
+  if (key === "columns") {
+    return config.columns?.length
+      ? { value: config.columns.join(","), source: "config" }
+      : { value: undefined, source: undefined };
+  }
+  return resolveSetting(key, config);
+}
+
+/**
+ * Store a config value. Profile settings go to `profile` (the active profile
+ * by default). Throws on unknown keys, invalid values and an invalid
+ * config file.
+ */
+export function setConfigValue(
+  key: string,
+  value: string,
+  profile: string = getActiveProfile(),
+): void {
+  if (!isConfigKey(key)) {
+    throw new Error(
+      `Unknown config key: ${key}. Available keys: ${CONFIG_KEYS.join(", ")}`,
+    );
+  }
+  const config = loadConfigForUpdate();
+
+  if (key === "profile") {
+    if (!value) throw new Error("profile must not be empty");
+    config.profile = value;
+  } else if (key === "columns") {
+    config.columns = parseColumns(value);
+  } else {
+    const error = PROFILE_SETTINGS[key].validate?.(value);
+    if (error) throw new Error(error);
+    const profiles = (config.profiles ??= {});
+    profiles[profile] = { ...profiles[profile], [key]: value };
+  }
+
+  saveConfig(config);
+}
+
+/**
+ * Drop `account` from every profile that selects `name`, after that login is
+ * removed. Returns the profiles changed. Throws when the config file is
+ * invalid.
+ */
+export function forgetAccount(name: string): string[] {
+  const config = loadConfigForUpdate();
+  const changed = Object.entries(config.profiles ?? {})
+    .filter(([, settings]) => settings.account === name)
+    .map(([profile]) => profile);
+  if (changed.length === 0) return changed;
+
+  for (const profile of changed) delete config.profiles![profile]!.account;
+  saveConfig(config);
+  return changed;
+}
+
+export interface ConfigListing {
+  path: string;
+  profile: string;
+  /** All profile names defined in the file. */
+  profiles: string[];
+  values: Array<ResolvedValue & { key: ConfigKey }>;
+}
+
+/**
+ * Everything `config list` shows: the active profile and every key's
+ * effective value and source.
+ */
+export function listConfig(): ConfigListing {
+  const config = loadConfig();
+  return {
+    path: getConfigPath(),
+    profile: resolveProfile(config).value,
+    profiles: Object.keys(config.profiles ?? {}),
+    values: CONFIG_KEYS.map((key) => ({
+      key,
+      ...getConfigValue(key, config),
+    })),
+  };
+}
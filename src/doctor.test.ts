@@ -0,0 +1,227 @@
+/**
+ * Tests for `talent-agent doctor`.
+ *
+ * Probes a local stub of talent-pro whose status codes are set per path,
+ * and stores credentials in a temp home with the plaintext file backend.
+ */
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import { type Server, createServer } from "node:http";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { saveCredentials } from "./auth/store";
+import { type DoctorReport, runDoctor, satisfiesMinimum } from "./doctor";
+
+let tempHome: string;
+
+vi.mock("node:os", () => ({
+  homedir: () => tempHome,
+  tmpdir: () => require("os").tmpdir(),
+}));
+
+// ─── Setup ──────────────────────────────────────────────────────────────────
+
+let server: Server;
+let proUrl: string;
+/** Status returned per request path; anything else gets 405. */
+let statuses: Record<string, number>;
+
+const originalEnv = { ...process.env };
+
+beforeEach(async () => {
+  tempHome = mkdtempSync(join(tmpdir(), "talent-agent-doctor-test-"));
+  statuses = {};
+  server = createServer((req, res) => {
+    res.writeHead(statuses[req.url ?? ""] ?? 405);
+    res.end();
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as { port: number };
+  proUrl = `http://127.0.0.1:${port}`;
+
+  process.env.TALENT_PRO_URL = proUrl;
+  process.env.TALENT_AGENT_CREDENTIAL_STORE = "file";
+  delete process.env.TALENT_AGENT_TOKEN;
+  delete process.env.TALENT_CLI_THEME;
+  delete process.env.COLORFGBG;
+});
+
+afterEach(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  rmSync(tempHome, { recursive: true, force: true });
+  process.env = { ...originalEnv };
+});
+
+function check(report: DoctorReport, name: string) {
+  return report.checks.find((c) => c.name === name)!;
+}
+
+function jwt(exp: number): string {
+  return `h.${Buffer.from(JSON.stringify({ exp })).toString("base64url")}.s`;
+}
+
+const inAnHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+
+describe("satisfiesMinimum", () => {
+  it("compares against >= ranges", () => {
+    expect(satisfiesMinimum("1.3.0", ">=1.3.0")).toBe(true);
+    expect(satisfiesMinimum("1.10.2", ">=1.3.0")).toBe(true);
+    expect(satisfiesMinimum("1.2.21", ">=1.3.0")).toBe(false);
+    expect(satisfiesMinimum("1.3.0-canary.1", ">=1.3")).toBe(true);
+  });
+
+  it("returns undefined for other range syntaxes", () => {
+    expect(satisfiesMinimum("1.3.0", "^1.3.0")).toBeUndefined();
+  });
+});
+
+describe("runDoctor", () => {
+  it("passes every check on a healthy setup", async () => {
+    saveCredentials({
+      token: "jwt",
+      expiresAt: inAnHour(),
+      authMethod: "email",
+      email: "user@example.com",
+    });
+
+    const report = await runDoctor({ bunVersion: "1.3.5" });
+
+    expect(report.ok).toBe(true);
+    expect(report.checks.map((c) => [c.name, c.status])).toEqual([
+      ["Bun", "pass"],
+      ["Talent Pro URL", "pass"],
+      ["Auth API", "pass"],
+      ["Chat API", "pass"],
+      ["Credential store", "pass"],
+      ["Token", "pass"],
+      ["TUI theme", "pass"],
+    ]);
+    expect(check(report, "Talent Pro URL").detail).toBe(`${proUrl} (env)`);
+    expect(check(report, "Auth API").detail).toContain("HTTP 405");
+    expect(check(report, "Credential store").detail).toContain("file");
+    expect(check(report, "Token").detail).toContain(
+      'email login for "default"',
+    );
+  });
+
+  it("fails a Bun version older than engines.bun", async () => {
+    const report = await runDoctor({ bunVersion: "1.1.0" });
+
+    expect(check(report, "Bun").status).toBe("fail");
+    expect(check(report, "Bun").detail).toMatch(/1\.1\.0 \(requires >=/);
+  });
+
+  it("fails when not running under Bun", async () => {
+    // vitest runs under Node, where there is no Bun global
+    const report = await runDoctor();
+
+    expect(check(report, "Bun")).toMatchObject({
+      status: "fail",
+      detail: "not running under Bun",
+    });
+  });
+
+  it("fails endpoints that return 404 or 5xx", async () => {
+    statuses["/api/auth/create-nonce"] = 404;
+    statuses["/api/chat"] = 502;
+
+    const report = await runDoctor({ bunVersion: "1.3.5" });
+
+    expect(report.ok).toBe(false);
+    expect(check(report, "Auth API").status).toBe("fail");
+    expect(check(report, "Auth API").detail).toContain("returned 404");
+    expect(check(report, "Chat API").status).toBe("fail");
+    expect(check(report, "Chat API").detail).toContain("HTTP 502");
+  });
+
+  it("fails endpoints that can't be reached", async () => {
+    await new Promise((resolve) => server.close(resolve));
+    server = createServer();
+    server.listen(0);
+
+    const report = await runDoctor({ bunVersion: "1.3.5", timeoutMs: 1_000 });
+
+    expect(check(report, "Auth API").status).toBe("fail");
+    expect(check(report, "Chat API").status).toBe("fail");
+  });
+
+  it("skips the network checks for an invalid URL", async () => {
+    process.env.TALENT_PRO_URL = "pro.talent.app";
+
+    const report = await runDoctor({ bunVersion: "1.3.5" });
+
+    expect(check(report, "Talent Pro URL").status).toBe("fail");
+    expect(check(report, "Auth API").detail).toContain("skipped");
+  });
+
+  it("fails when nobody is logged in", async () => {
+    const report = await runDoctor({ bunVersion: "1.3.5" });
+
+    expect(check(report, "Token")).toMatchObject({ status: "fail" });
+    expect(check(report, "Token").detail).toContain("not logged in");
+  });
+
+  it("warns about an expired stored login without clearing it", async () => {
+    saveCredentials({ token: "jwt", expiresAt: 1000, authMethod: "google" });
+
+    const report = await runDoctor({ bunVersion: "1.3.5" });
+
+    expect(check(report, "Token").status).toBe("warn");
+    expect(report.ok).toBe(true);
+    // Still stored: doctor must not touch credentials
+    expect(check(await runDoctor(), "Token").status).toBe("warn");
+  });
+
+  it("reads a legacy plaintext login without migrating it", async () => {
+    saveCredentials({
+      token: "jwt",
+      expiresAt: inAnHour(),
+      authMethod: "email",
+    });
+    process.env.TALENT_AGENT_CREDENTIAL_STORE = "encrypted-file";
+    const configDir = join(tempHome, ".talent-agent");
+
+    const report = await runDoctor({ bunVersion: "1.3.5" });
+
+    expect(check(report, "Token").status).toBe("pass");
+    expect(existsSync(join(configDir, "credentials.json"))).toBe(true);
+    expect(existsSync(join(configDir, "credentials.enc"))).toBe(false);
+  });
+
+  it("reports TALENT_AGENT_TOKEN and its expiry", async () => {
+    process.env.TALENT_AGENT_TOKEN = jwt(inAnHour());
+    expect(check(await runDoctor(), "Token")).toMatchObject({
+      status: "pass",
+      detail: expect.stringContaining("TALENT_AGENT_TOKEN, expires"),
+    });
+
+    process.env.TALENT_AGENT_TOKEN = jwt(1000);
+    expect(check(await runDoctor(), "Token")).toMatchObject({
+      status: "fail",
+      detail: expect.stringContaining("TALENT_AGENT_TOKEN expired"),
+    });
+  });
+
+  it("fails an unknown credential store", async () => {
+    process.env.TALENT_AGENT_CREDENTIAL_STORE = "vault";
+
+    const report = await runDoctor({ bunVersion: "1.3.5" });
+
+    expect(check(report, "Credential store").status).toBe("fail");
+    expect(check(report, "Credential store").detail).toContain("Unknown");
+  });
+
+  it("reports the theme and where it came from", async () => {
+    process.env.TALENT_CLI_THEME = "light";
+    expect(check(await runDoctor(), "TUI theme").detail).toBe("light (env)");
+
+    delete process.env.TALENT_CLI_THEME;
+    process.env.COLORFGBG = "0;15";
+    expect(check(await runDoctor(), "TUI theme").detail).toBe(
+      "light (detected)",
+    );
+  });
+});
@@ -0,0 +1,313 @@
+/**
+ * `talent-agent doctor`: environment diagnostics.
+ *
+ * Runs a fixed list of checks and reports each as pass, warn or fail:
+ *
+ * - the Bun runtime against `engines.bun` in package.json
+ * - the resolved Talent Pro URL and where it came from
+ * - reachability of talent-pro's /api/auth/* proxy and /api/chat
+ * - the credential store new logins are written to
+ * - the active token (TALENT_AGENT_TOKEN or the stored login) and its expiry
+ * - the TUI color scheme
+ *
+ * Checks only read state: nothing is refreshed, stored or cleared. Any HTTP
+ * response below 500 (other than 404) counts as reachable, since the
+ * endpoints reject unauthenticated GETs by design.
+ */
+import { readFileSync } from "node:fs";
+
+import {
+  type StoredCredentials,
+  encryptedCredentialsProblem,
+  getCredentialStoreName,
+  getHeadlessToken,
+  getRefreshSkewMs,
+  getTokenExpiry,
+  isTokenExpired,
+  loadCredentials,
+} from "./auth/store";
+import {
+  PROFILE_SETTINGS,
+  getActiveAccount,
+  getProUrl,
+  resolveSetting,
+} from "./config";
+import { detectColorScheme } from "./tui/theme";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type CheckStatus = "pass" | "warn" | "fail";
+
+export interface DoctorCheck {
+  name: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+export interface DoctorReport {
+  /** False when any check failed; warnings don't count. */
+  ok: boolean;
+  checks: DoctorCheck[];
+}
+
+export interface DoctorOptions {
+  /** Bun version to check; defaults to the running `Bun.version`. */
+  bunVersion?: string;
+  /** Per-request timeout for the reachability checks. */
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 5_000;
+
+/** Endpoints probed for reachability, by check name. */
+const ENDPOINTS: Array<[name: string, path: string]> = [
+  ["Auth API", "/api/auth/create-nonce"],
+  ["Chat API", "/api/chat"],
+];
+
+// ─── Runtime ────────────────────────────────────────────────────────────────
+
+function readBunEngine(): string | undefined {
+  try {
+    const pkg = JSON.parse(
+      readFileSync(new URL("../package.json", import.meta.url), "utf-8"),
+    );
+    return pkg.engines?.bun;
+  } catch {
+    return undefined;
+  }
+}
+
+function parseVersion(version: string): number[] {
+  return version
+    .replace(/^v/, "")
+    .split(/[.-]/)
+    .slice(0, 3)
+    .map((part) => parseInt(part, 10) || 0);
+}
+
+/**
+ * Whether `version` satisfies a ">=x.y.z" range. Returns undefined for
+ * other range syntaxes.
+ */
+export function satisfiesMinimum(
+  version: string,
+  range: string,
+): boolean | undefined {
+  const match = /^>=\s*v?(\d+(?:\.\d+){0,2})$/.exec(range.trim());
+  if (!match) return undefined;
+  const actual = parseVersion(version);
+  const minimum = parseVersion(match[1]!);
+  for (let i = 0; i < 3; i++) {
+    const diff = (actual[i] ?? 0) - (minimum[i] ?? 0);
+    if (diff !== 0) return diff > 0;
+  }
+  return true;
+}
+
+function checkBun(version: string | undefined): DoctorCheck {
+  const engine = readBunEngine();
+  if (!version) {
+    return { name: "Bun", status: "fail", detail: "not running under Bun" };
+  }
+  if (!engine) {
+    return { name: "Bun", status: "pass", detail: version };
+  }
+  const satisfied = satisfiesMinimum(version, engine);
+  if (satisfied === undefined) {
+    return {
+      name: "Bun",
+      status: "warn",
+      detail: `${version} (can't check against "${engine}")`,
+    };
+  }
+  return {
+    name: "Bun",
+    status: satisfied ? "pass" : "fail",
+    detail: `${version} (requires ${engine})`,
+  };
+}
+
+// ─── Network ────────────────────────────────────────────────────────────────
+
+function checkProUrl(): DoctorCheck {
+  const { value, source } = resolveSetting("pro-url");
+  const url = getProUrl();
+  const error = PROFILE_SETTINGS["pro-url"].validate?.(url);
+  return {
+    name: "Talent Pro URL",
+    status: error ? "fail" : "pass",
+    detail: `${value} (${source})${error ? `: ${error}` : ""}`,
+  };
+}
+
+async function checkEndpoint(
+  name: string,
+  url: string,
+  timeoutMs: number,
+): Promise<DoctorCheck> {
+  const started = Date.now();
+  try {
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(timeoutMs),
+      redirect: "manual",
+    });
+    const elapsed = `${Date.now() - started}ms`;
+    if (response.status === 404) {
+      return {
+        name,
+        status: "fail",
+        detail: `${url} returned 404; is the Talent Pro URL right?`,
+      };
+    }
+    return {
+      name,
+      status: response.status >= 500 ? "fail" : "pass",
+      detail: `${url} (HTTP ${response.status}, ${elapsed})`,
+    };
+  } catch (error) {
+    const reason =
+      error instanceof Error && error.name === "TimeoutError"
+        ? `no response within ${timeoutMs}ms`
+        : error instanceof Error
+          ? error.message
+          : String(error);
+    return { name, status: "fail", detail: `${url}: ${reason}` };
+  }
+}
+
+// ─── Credentials ────────────────────────────────────────────────────────────
+
+function formatExpiry(expiresAt: number): string {
+  return new Date(
+    expiresAt > 1_000_000_000_000 ? expiresAt : expiresAt * 1000,
+  ).toISOString();
+}
+
+function checkCredentialStore(): DoctorCheck {
+  const selected = process.env.TALENT_AGENT_CREDENTIAL_STORE || "auto";
+  try {
+    return {
+      name: "Credential store",
+      status: "pass",
+      detail: `${getCredentialStoreName()} (TALENT_AGENT_CREDENTIAL_STORE=${selected})`,
+    };
+  } catch (error) {
+    return {
+      name: "Credential store",
+      status: "fail",
+      detail: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+function checkToken(): DoctorCheck {
+  const name = "Token";
+  const headless = getHeadlessToken();
+  if (headless) {
+    const expiresAt = getTokenExpiry(headless);
+    if (expiresAt === null) {
+      return {
+        name,
+        status: "pass",
+        detail: "TALENT_AGENT_TOKEN (expiry unknown)",
+      };
+    }
+    return isTokenExpired(expiresAt)
+      ? {
+          name,
+          status: "fail",
+          detail: `TALENT_AGENT_TOKEN expired at ${formatExpiry(expiresAt)}`,
+        }
+      : {
+          name,
+          status: "pass",
+          detail: `TALENT_AGENT_TOKEN, expires ${formatExpiry(expiresAt)}`,
+        };
+  }
+
+  const account = getActiveAccount();
+  let creds: StoredCredentials | null;
+  try {
+    creds = loadCredentials(account, { migrate: false });
+  } catch (error) {
+    return {
+      name,
+      status: "fail",
+      detail: error instanceof Error ? error.message : String(error),
+    };
+  }
+  if (!creds) {
+    return {
+      name,
+      status: "fail",
+      detail:
+        encryptedCredentialsProblem(account) ??
+        `not logged in (account "${account}"); run 'talent-agent login'`,
+    };
+  }
+
+  const expires = formatExpiry(creds.expiresAt);
+  if (isTokenExpired(creds.expiresAt)) {
+    return {
+      name,
+      status: "warn",
+      detail: `${creds.authMethod} login for "${account}" expired at ${expires}; the next request will try to refresh it`,
+    };
+  }
+  const refreshSoon = isTokenExpired(creds.expiresAt, getRefreshSkewMs());
+  return {
+    name,
+    status: "pass",
+    detail: `${creds.authMethod} login for "${account}", expires ${expires}${refreshSoon ? " (refreshes on next request)" : ""}`,
+  };
+}
+
+// ─── Terminal ───────────────────────────────────────────────────────────────
+
+function checkTheme(): DoctorCheck {
+  const { source } = resolveSetting("theme");
+  return {
+    name: "TUI theme",
+    status: "pass",
+    detail: `${detectColorScheme()} (${source ?? "detected"})`,
+  };
+}
+
+// ─── Report ─────────────────────────────────────────────────────────────────
+
+/**
+ * Run every check. Never throws; failures are reported as checks.
+ */
+export async function runDoctor(
+  options: DoctorOptions = {},
+): Promise<DoctorReport> {
+  const bunVersion =
+    options.bunVersion ??
+    (typeof Bun === "undefined" ? undefined : Bun.version);
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  const proUrl = checkProUrl();
+  const endpoints =
+    proUrl.status === "fail"
+      ? ENDPOINTS.map(([name]): DoctorCheck => ({
+          name,
+          status: "fail",
+          detail: "skipped: invalid Talent Pro URL",
+        }))
+      : await Promise.all(
+          ENDPOINTS.map(([name, path]) =>
+            checkEndpoint(name, `${getProUrl()}${path}`, timeoutMs),
+          ),
+        );
+
+  const checks = [
+    checkBun(bunVersion),
+    proUrl,
+    ...endpoints,
+    checkCredentialStore(),
+    checkToken(),
+    checkTheme(),
+  ];
+  return { ok: checks.every((c) => c.status !== "fail"), checks };
+}
@@ -0,0 +1,30 @@
+/**
+ * Unit tests for duration parsing.
+ */
+import { describe, expect, it } from "vitest";
+
+import { parseDuration } from "./duration";
+
+describe("parseDuration", () => {
+  it("parses each unit", () => {
+    expect(parseDuration("30s")).toBe(30_000);
+    expect(parseDuration("15m")).toBe(900_000);
+    expect(parseDuration("12h")).toBe(43_200_000);
+    expect(parseDuration("7d")).toBe(604_800_000);
+    expect(parseDuration("2w")).toBe(1_209_600_000);
+  });
+
+  it("treats bare numbers as seconds", () => {
+    expect(parseDuration("90")).toBe(90_000);
+  });
+
+  it("accepts fractions and surrounding whitespace", () => {
+    expect(parseDuration(" 1.5h ")).toBe(5_400_000);
+  });
+
+  it("returns null for invalid input", () => {
+    expect(parseDuration("")).toBeNull();
+    expect(parseDuration("soon")).toBeNull();
+    expect(parseDuration("5y")).toBeNull();
+  });
+});
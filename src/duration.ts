@@ -0,0 +1,22 @@
+/**
+ * Parse short human durations ("30s", "15m", "12h", "7d", "2w") into
+ * milliseconds. A bare number is read as seconds.
+ *
+ * Returns null for anything that doesn't match, so callers can decide
+ * whether to fall back to a default or report a usage error.
+ */
+const UNIT_MS: Record<string, number> = {
+  s: 1_000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+export function parseDuration(input: string): number | null {
+  const match = input.trim().match(/^(\d+(?:\.\d+)?)\s*([smhdw]?)$/i);
+  if (!match) return null;
+  const value = Number(match[1]);
+  const unit = (match[2] || "s").toLowerCase();
+  return Math.round(value * UNIT_MS[unit]!);
+}
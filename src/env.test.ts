@@ -6,37 +6,76 @@ import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
+import { saveConfig } from "./config";
 import { validateEnv } from "./env";
 
+// Point the config file at an empty temp home so a developer's own
+// ~/.talent-agent/config.json doesn't leak into these tests
+let tempHome: string;
+
+vi.mock("node:os", () => ({
+  homedir: () => tempHome,
+  tmpdir: () => require("os").tmpdir(),
+}));
+
 describe("validateEnv", () => {
   const originalEnv = { ...process.env };
 
+  beforeEach(() => {
+    tempHome = mkdtempSync(join(tmpdir(), "talent-agent-env-"));
+  });
+
   afterEach(() => {
+    rmSync(tempHome, { recursive: true, force: true });
     process.env = { ...originalEnv };
   });
 
   it("keeps TALENT_PRO_URL when already set", () => {
     process.env.TALENT_PRO_URL = "https://custom.example.com";
 
-    validateEnv();
-
-    expect(process.env.TALENT_PRO_URL).toBe("https://custom.example.com");
+    expect(validateEnv()).toBe("https://custom.example.com");
   });
 
   it("defaults TALENT_PRO_URL when not set", () => {
     delete process.env.TALENT_PRO_URL;
 
-    validateEnv();
+    expect(validateEnv()).toBe("https://pro.talent.app");
+    expect(process.env.TALENT_PRO_URL).toBeUndefined();
+  });
+
+  it("uses the active profile's pro-url when TALENT_PRO_URL is not set", () => {
+    delete process.env.TALENT_PRO_URL;
+    process.env.TALENT_AGENT_PROFILE = "local";
+    saveConfig({
+      profiles: { local: { "pro-url": "http://localhost:3000/" } },
+    });
 
-    expect(process.env.TALENT_PRO_URL).toBe("https://pro.talent.app");
+    expect(validateEnv()).toBe("http://localhost:3000");
+    expect(process.env.TALENT_PRO_URL).toBeUndefined();
   });
 
   it("defaults TALENT_PRO_URL when empty string", () => {
     process.env.TALENT_PRO_URL = "";
 
-    validateEnv();
+    expect(validateEnv()).toBe("https://pro.talent.app");
+  });
+
+  it("rejects a TALENT_PRO_URL that is not an http(s) URL", () => {
+    process.env.TALENT_PRO_URL = "pro.example.com";
+
+    expect(() => validateEnv()).toThrow(
+      'pro-url must be an http(s) URL; got "pro.example.com" from TALENT_PRO_URL',
+    );
+  });
+
+  it("names the profile whose pro-url is invalid", () => {
+    delete process.env.TALENT_PRO_URL;
+    process.env.TALENT_AGENT_PROFILE = "local";
+    saveConfig({ profiles: { local: { "pro-url": "localhost:3000" } } });
 
-    expect(process.env.TALENT_PRO_URL).toBe("https://pro.talent.app");
+    expect(() => validateEnv()).toThrow(
+      'pro-url must be an http(s) URL; got "localhost:3000" from profile "local"',
+    );
   });
 });
 
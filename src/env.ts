@@ -1,13 +1,20 @@
 /**
  * Environment variable loading and validation for the CLI.
  *
- * Loads .env from the talent-agent project directory.
- * TALENT_PRO_URL defaults to https://pro.talent.app if not set.
+ * Loads .env from the talent-agent project directory. Values from .env
+ * count as environment variables, so they override config profiles (see
+ * ./config). TALENT_PRO_URL falls back to the active profile's pro-url,
+ * then https://pro.talent.app.
  */
 import { existsSync } from "node:fs";
 import { resolve } from "node:path";
 
-const DEFAULT_TALENT_PRO_URL = "https://pro.talent.app";
+import {
+  PROFILE_SETTINGS,
+  getProUrl,
+  resolveProfile,
+  resolveSetting,
+} from "./config";
 
 /**
  * Load environment variables from the .env file in the project root.
@@ -45,10 +52,20 @@ function parseEnvSync(filePath: string): void {
 }
 
 /**
- * Apply defaults for optional env vars and validate the environment.
+ * Validate the environment and return the resolved Talent Pro URL.
+ * Throws when the URL (from TALENT_PRO_URL or the active profile) is not
+ * an http(s) URL. process.env is left untouched, so a profile's pro-url is
+ * never mistaken for TALENT_PRO_URL.
  */
-export function validateEnv(): void {
-  if (!process.env.TALENT_PRO_URL) {
-    process.env.TALENT_PRO_URL = DEFAULT_TALENT_PRO_URL;
+export function validateEnv(): string {
+  const { value, source } = resolveSetting("pro-url");
+  const error = value && PROFILE_SETTINGS["pro-url"].validate?.(value);
+  if (error) {
+    const origin =
+      source === "profile"
+        ? `profile "${resolveProfile().value}"`
+        : PROFILE_SETTINGS["pro-url"].env;
+    throw new Error(`${error}; got "${value}" from ${origin}`);
   }
+  return getProUrl();
 }
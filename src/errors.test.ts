@@ -3,6 +3,7 @@
  */
 import { describe, expect, it } from "vitest";
 
+import { withRequestToken } from "./auth/store";
 import {
   EXIT_APP_ERROR,
   EXIT_AUTH_ERROR,
@@ -44,6 +45,42 @@ describe("toAIFriendlyError", () => {
     expect(result.message).toContain("login");
   });
 
+  it("names TALENT_AGENT_TOKEN when a headless token is rejected", () => {
+    process.env.TALENT_AGENT_TOKEN = "headless";
+    try {
+      const result = toAIFriendlyError(
+        new Error("Request failed with status 401"),
+      );
+
+      expect(result.code).toBe("AUTH_ERROR");
+      expect(result.message).toContain("TALENT_AGENT_TOKEN was rejected");
+      expect(result.message).not.toContain("login");
+    } finally {
+      delete process.env.TALENT_AGENT_TOKEN;
+    }
+  });
+
+  it("points at the Authorization header when a bearer token is rejected", () => {
+    const result = withRequestToken("bearer", () =>
+      toAIFriendlyError(new Error("Request failed with status 401")),
+    );
+
+    expect(result.code).toBe("AUTH_ERROR");
+    expect(result.message).toContain("bearer token was rejected");
+    expect(result.message).toContain("Authorization header");
+  });
+
+  it("keeps the message for an expired headless token", () => {
+    const result = toAIFriendlyError(
+      new Error("TALENT_AGENT_TOKEN has expired. Provide a new token."),
+    );
+
+    expect(result).toEqual({
+      message: "TALENT_AGENT_TOKEN has expired. Provide a new token.",
+      code: "AUTH_ERROR",
+    });
+  });
+
   it("handles Unauthorized string in error", () => {
     const result = toAIFriendlyError(new Error("Unauthorized access"));
 
@@ -59,6 +96,36 @@ describe("toAIFriendlyError", () => {
     expect(result.message).toContain("60s");
   });
 
+  it("handles HTTP 429 responses as rate limits", () => {
+    const result = toAIFriendlyError(new Error("Chat API error: 429"));
+
+    expect(result.code).toBe("RATE_LIMIT");
+  });
+
+  it("handles HTTP 503 responses as transient connection errors", () => {
+    const result = toAIFriendlyError(new Error("Chat API error: 503"));
+
+    expect(result.code).toBe("CONNECTION_ERROR");
+    expect(result.message).toContain("Retry");
+  });
+
+  it("handles timed-out requests", () => {
+    const result = toAIFriendlyError(
+      new DOMException("The operation timed out.", "TimeoutError"),
+    );
+
+    expect(result.code).toBe("TIMEOUT");
+    expect(result.message).toContain("--timeout");
+  });
+
+  it("handles cancelled requests", () => {
+    const result = toAIFriendlyError(
+      new DOMException("This operation was aborted", "AbortError"),
+    );
+
+    expect(result.code).toBe("CANCELLED");
+  });
+
   it("handles context_length_exceeded errors", () => {
     const result = toAIFriendlyError(
       new Error("context_length_exceeded: max 200000 tokens"),
@@ -136,6 +203,10 @@ describe("exitCodeForError", () => {
     expect(exitCodeForError("CONNECTION_ERROR")).toBe(EXIT_TRANSIENT_ERROR);
   });
 
+  it("maps TIMEOUT to EXIT_TRANSIENT_ERROR", () => {
+    expect(exitCodeForError("TIMEOUT")).toBe(EXIT_TRANSIENT_ERROR);
+  });
+
   it("maps VALIDATION_ERROR to EXIT_USAGE_ERROR", () => {
     expect(exitCodeForError("VALIDATION_ERROR")).toBe(EXIT_USAGE_ERROR);
   });
@@ -4,6 +4,7 @@
  * Translates raw errors into actionable messages that AI agents
  * can understand and act upon programmatically.
  */
+import { getRequestToken } from "./auth/store";
 
 // ─── Exit Codes ──────────────────────────────────────────────────────────────
 
@@ -24,6 +25,8 @@ export type ErrorCode =
   | "VALIDATION_ERROR"
   | "SESSION_NOT_FOUND"
   | "INDEX_OUT_OF_RANGE"
+  | "TIMEOUT"
+  | "CANCELLED"
   | "UNKNOWN_ERROR";
 
 // ─── AI-Friendly Error Rewriting ─────────────────────────────────────────────
@@ -34,12 +37,28 @@ export function toAIFriendlyError(error: unknown): {
 } {
   const msg = error instanceof Error ? error.message : String(error);
 
+  // AbortSignal.timeout() rejects with TimeoutError, abort() with AbortError
+  const name = (error as { name?: unknown } | null)?.name;
+  if (name === "TimeoutError")
+    return {
+      message:
+        "Request timed out. Retry, or allow more time with --timeout (e.g. --timeout 2m).",
+      code: "TIMEOUT",
+    };
+  if (name === "AbortError")
+    return {
+      message: "Request was cancelled.",
+      code: "CANCELLED",
+    };
+
   if (msg.includes("ECONNREFUSED"))
     return {
       message:
         "Cannot connect to the server. Check TALENT_PRO_URL and TALENT_PROTOCOL_API_URL.",
       code: "CONNECTION_ERROR",
     };
+  if (msg.includes("TALENT_AGENT_TOKEN"))
+    return { message: msg, code: "AUTH_ERROR" };
   if (
     msg.includes("Authentication required") ||
     msg.includes("Not authenticated")
@@ -50,8 +69,11 @@ export function toAIFriendlyError(error: unknown): {
     };
   if (msg.includes("401") || msg.includes("Unauthorized"))
     return {
-      message:
-        "Auth token is invalid or expired. Run 'talent-agent login' to re-authenticate.",
+      message: getRequestToken()
+        ? "The bearer token was rejected (invalid or expired). Send a valid Talent Pro token in the Authorization header."
+        : process.env.TALENT_AGENT_TOKEN
+          ? "TALENT_AGENT_TOKEN was rejected (invalid or expired). Provide a new token; headless tokens are not refreshed."
+          : "Auth token is invalid or expired. Run 'talent-agent login' to re-authenticate.",
       code: "AUTH_ERROR",
     };
   if (msg.includes("403") || msg.includes("Pro organization required"))
@@ -59,7 +81,7 @@ export function toAIFriendlyError(error: unknown): {
       message: "Pro organization required. Your account may not have access.",
       code: "AUTH_ERROR",
     };
-  if (msg.includes("rate_limit"))
+  if (msg.includes("rate_limit") || msg.includes("429"))
     return {
       message:
         "Rate limit hit. Wait 60s and retry, or use a different API key.",
@@ -76,6 +98,11 @@ export function toAIFriendlyError(error: unknown): {
         "Network error. Check your internet connection and endpoint URLs.",
       code: "CONNECTION_ERROR",
     };
+  if (msg.includes("502") || msg.includes("503"))
+    return {
+      message: "Service temporarily unavailable. Retry in a few seconds.",
+      code: "CONNECTION_ERROR",
+    };
   if (msg.includes("ECONNRESET"))
     return {
       message: "Connection was reset. Retry the request.",
@@ -95,6 +122,7 @@ export function exitCodeForError(code: ErrorCode): number {
       return EXIT_AUTH_ERROR;
     case "RATE_LIMIT":
     case "CONNECTION_ERROR":
+    case "TIMEOUT":
       return EXIT_TRANSIENT_ERROR;
     case "VALIDATION_ERROR":
       return EXIT_USAGE_ERROR;
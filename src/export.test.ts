@@ -0,0 +1,166 @@
+/**
+ * Unit tests for result export formats.
+ */
+import { describe, expect, it } from "vitest";
+
+import type { DetailResult, SearchResult } from "./agent";
+import {
+  EXPORT_COLUMNS,
+  detailToRow,
+  exportResult,
+  formatFromPath,
+  serializeRows,
+  summaryToRow,
+} from "./export";
+
+const search: SearchResult = {
+  type: "search",
+  session: "s1",
+  query: "Find React devs",
+  profiles: [
+    {
+      id: "p1",
+      displayName: "Jane Doe",
+      location: "Lisbon, Portugal",
+      githubTopLanguages: ["TypeScript", "Go"],
+      githubRecentlyActive: true,
+      linkedinYearsExperience: 7,
+    },
+    { id: "p2", name: 'Bob "The Builder"', bio: "=SUM(A1)" },
+  ],
+  totalMatches: 12,
+  summary: "",
+  appliedFilters: {},
+  pagination: { page: 2, pageSize: 2, offset: 2, hasMore: true },
+};
+
+const detail: DetailResult = {
+  type: "detail",
+  session: "s1",
+  summary: "",
+  profile: {
+    id: "p1",
+    displayName: "Jane Doe",
+    name: "Jane",
+    bio: "Builder | maker",
+    mainRole: "Engineer",
+    location: "Lisbon",
+    tags: ["react"],
+    github: {
+      topLanguages: "TypeScript",
+      topFrameworks: "React",
+      expertiseLevel: "senior",
+      totalContributions: 1234,
+      isRecentlyActive: true,
+    },
+    workExperience: [
+      {
+        title: "Engineer",
+        company: "Acme",
+        description: "",
+        durationMonths: 24,
+        startDate: "2022-01",
+        isCurrent: true,
+      },
+    ],
+    education: [
+      {
+        degree: "BSc",
+        fieldOfStudy: "CS",
+        school: "IST",
+        startYear: 2014,
+        endYear: 2017,
+      },
+    ],
+  },
+};
+
+describe("row mapping", () => {
+  it("maps summaries and details onto the same columns", () => {
+    const keys = EXPORT_COLUMNS.map((c) => c.key).sort();
+    expect(Object.keys(summaryToRow(search.profiles[0]!, 0)).sort()).toEqual(
+      keys,
+    );
+    expect(Object.keys(detailToRow(detail.profile)).sort()).toEqual(keys);
+  });
+
+  it("flattens work history, education and GitHub stats", () => {
+    const row = detailToRow(detail.profile);
+
+    expect(row.workHistory).toBe("Engineer @ Acme (2022-01 - present)");
+    expect(row.education).toBe("BSc, CS - IST (2014-2017)");
+    expect(row.contributions).toBe(1234);
+    expect(row.index).toBeNull();
+  });
+});
+
+describe("exportResult", () => {
+  it("numbers search rows by page index and ranks them across pages", () => {
+    const lines = exportResult(search, "jsonl").trim().split("\n");
+
+    expect(lines.map((l) => JSON.parse(l).index)).toEqual([0, 1]);
+    expect(lines.map((l) => JSON.parse(l).position)).toEqual([3, 4]);
+    expect(JSON.parse(lines[0]!).languages).toBe("TypeScript, Go");
+  });
+
+  it("quotes CSV fields and neutralizes formulas", () => {
+    const csv = exportResult(search, "csv");
+    const [header, first, second] = csv.split("\r\n");
+
+    expect(header!.startsWith("#,Position,ID,Name")).toBe(true);
+    expect(first).toContain('"Lisbon, Portugal"');
+    expect(first).toContain(",yes,");
+    expect(second).toContain('"Bob ""The Builder"""');
+    expect(second).toContain("'=SUM(A1)");
+  });
+
+  it("neutralizes formulas behind a leading tab or carriage return", () => {
+    const rows = [
+      summaryToRow({ id: "p3", name: "\t=1+1" }, 0),
+      summaryToRow({ id: "p4", name: "\r=1+1" }, 1),
+    ];
+
+    const csv = serializeRows(rows, "csv");
+    expect(csv).toContain(",'\t=1+1,");
+    expect(csv).toContain(',"\'\r=1+1",');
+    expect(serializeRows(rows, "tsv")).toContain("\t' =1+1\t");
+  });
+
+  it("escapes pipes in Markdown and markup in HTML", () => {
+    expect(exportResult(detail, "md")).toContain("Builder \\| maker");
+
+    const html = serializeRows(
+      [summaryToRow({ id: "p3", name: "<b>Eve</b>" }, 0)],
+      "html",
+    );
+    expect(html).toContain("<td>&lt;b&gt;Eve&lt;/b&gt;</td>");
+  });
+
+  it("writes one tab-separated line per profile", () => {
+    const tsv = exportResult(search, "tsv").trim().split("\n");
+
+    expect(tsv).toHaveLength(3);
+    expect(tsv[0]!.split("\t")).toHaveLength(EXPORT_COLUMNS.length);
+  });
+
+  it("neutralizes formulas in TSV fields", () => {
+    const tsv = exportResult(search, "tsv");
+
+    expect(tsv).toContain("\t'=SUM(A1)");
+  });
+
+  it("refuses error results", () => {
+    expect(() =>
+      exportResult({ type: "error", session: "s1", error: "Boom" }, "csv"),
+    ).toThrow("Nothing to export");
+  });
+});
+
+describe("formatFromPath", () => {
+  it("maps file extensions to formats", () => {
+    expect(formatFromPath("out/devs.CSV")).toBe("csv");
+    expect(formatFromPath("notes.markdown")).toBe("md");
+    expect(formatFromPath("table.htm")).toBe("html");
+    expect(formatFromPath("devs.xlsx")).toBeNull();
+  });
+});
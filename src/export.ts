@@ -0,0 +1,269 @@
+/**
+ * Export search and detail results as CSV, TSV, Markdown, JSONL or HTML.
+ *
+ * Every format uses the same column mapping (EXPORT_COLUMNS), so a CSV
+ * imported into a spreadsheet and a Markdown table pasted into a doc line
+ * up. Search results fill the summary columns; detail results also fill the
+ * flattened DetailedProfile columns (work history, education, GitHub stats),
+ * which stay empty for search rows.
+ *
+ * CSV and TSV open directly in Excel / Google Sheets; HTML tables can be
+ * pasted into either as well.
+ */
+import type { AgentResult, DetailedProfile, ProfileSummary } from "./agent";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export const EXPORT_FORMATS = ["csv", "tsv", "md", "jsonl", "html"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export type ExportValue = string | number | boolean | null;
+
+/** One exported profile, keyed by column key. */
+export type ExportRow = Record<string, ExportValue>;
+
+export interface ExportColumn {
+  key: string;
+  header: string;
+}
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: "index", header: "#" },
+  { key: "position", header: "Position" },
+  { key: "id", header: "ID" },
+  { key: "name", header: "Name" },
+  { key: "role", header: "Role" },
+  { key: "location", header: "Location" },
+  { key: "title", header: "Current Title" },
+  { key: "company", header: "Current Company" },
+  { key: "yearsExperience", header: "Years Experience" },
+  { key: "languages", header: "Languages" },
+  { key: "frameworks", header: "Frameworks" },
+  { key: "expertise", header: "GitHub Expertise" },
+  { key: "recentlyActive", header: "Recently Active" },
+  { key: "contributions", header: "GitHub Contributions" },
+  { key: "archetype", header: "Developer Archetype" },
+  { key: "tags", header: "Tags" },
+  { key: "openTo", header: "Open To" },
+  { key: "workHistory", header: "Work History" },
+  { key: "education", header: "Education" },
+  { key: "bio", header: "Bio" },
+];
+
+// ─── Row Mapping ────────────────────────────────────────────────────────────
+
+function list(value: string | string[] | null | undefined): string | null {
+  if (!value) return null;
+  return Array.isArray(value) ? value.join(", ") : value;
+}
+
+function emptyRow(index: number | null, id: string): ExportRow {
+  const row: ExportRow = {};
+  for (const column of EXPORT_COLUMNS) row[column.key] = null;
+  row.index = index;
+  row.id = id;
+  return row;
+}
+
+/**
+ * Map a search-result profile to an export row. `index` is its place on the
+ * page (what --detail takes); `position` is its 1-based rank across pages.
+ */
+export function summaryToRow(
+  profile: ProfileSummary,
+  index: number,
+  position: number | null = null,
+): ExportRow {
+  return {
+    ...emptyRow(index, profile.id),
+    position,
+    name: profile.displayName ?? profile.name ?? null,
+    role: profile.mainRole ?? null,
+    location: profile.location ?? null,
+    title: profile.linkedinCurrentTitle ?? null,
+    company: profile.linkedinCurrentCompany ?? null,
+    yearsExperience: profile.linkedinYearsExperience ?? null,
+    languages: list(profile.githubTopLanguages),
+    frameworks: list(profile.githubTopFrameworks),
+    expertise: profile.githubExpertiseLevel ?? null,
+    recentlyActive: profile.githubRecentlyActive ?? null,
+    tags: list(profile.tags),
+    bio: profile.bio ?? null,
+  };
+}
+
+/**
+ * Map a detailed profile to an export row, flattening nested history.
+ * `index` is the profile's position in the search it came from, if known.
+ */
+export function detailToRow(
+  profile: DetailedProfile,
+  index: number | null = null,
+): ExportRow {
+  const workHistory = (profile.workExperience ?? []).map((job) => {
+    const end = job.isCurrent ? "present" : (job.endDate ?? "");
+    const dates = job.startDate ? ` (${job.startDate} - ${end})` : "";
+    return `${job.title} @ ${job.company}${dates}`;
+  });
+  const education = (profile.education ?? []).map((edu) => {
+    const field = [edu.degree, edu.fieldOfStudy].filter(Boolean).join(", ");
+    return `${field} - ${edu.school} (${edu.startYear}-${edu.endYear})`;
+  });
+
+  return {
+    ...emptyRow(index, profile.id),
+    name: profile.displayName ?? profile.name,
+    role: profile.mainRole ?? null,
+    location: profile.location,
+    title: profile.linkedin?.currentTitle ?? null,
+    company: profile.linkedin?.currentCompany ?? null,
+    yearsExperience: profile.linkedin?.totalYearsExperience ?? null,
+    languages: profile.github?.topLanguages ?? null,
+    frameworks: profile.github?.topFrameworks ?? null,
+    expertise: profile.github?.expertiseLevel ?? null,
+    recentlyActive: profile.github?.isRecentlyActive ?? null,
+    contributions: profile.github?.totalContributions ?? null,
+    archetype: profile.github?.developerArchetype ?? null,
+    tags: list(profile.tags),
+    openTo: profile.openTo ?? null,
+    workHistory: workHistory.length > 0 ? workHistory.join("; ") : null,
+    education: education.length > 0 ? education.join("; ") : null,
+    bio: profile.bio,
+  };
+}
+
+/**
+ * Rows for a search or detail result. Throws for error results.
+ */
+export function resultToRows(result: AgentResult): ExportRow[] {
+  switch (result.type) {
+    case "search": {
+      const offset = result.pagination?.offset ?? 0;
+      return result.profiles.map((p, i) => summaryToRow(p, i, offset + i + 1));
+    }
+    case "detail":
+      return [detailToRow(result.profile)];
+    case "error":
+      throw new Error(`Nothing to export: ${result.error}`);
+  }
+}
+
+// ─── Serializers ────────────────────────────────────────────────────────────
+
+function cellText(value: ExportValue): string {
+  if (value === null) return "";
+  if (typeof value === "boolean") return value ? "yes" : "no";
+  return String(value);
+}
+
+/**
+ * Cell text for formats opened in spreadsheets. Text that a spreadsheet
+ * would evaluate as a formula (=, +, -, @, or a leading tab or carriage
+ * return) is prefixed with a quote so it stays plain text.
+ */
+function spreadsheetText(value: ExportValue): string {
+  const text = cellText(value);
+  return typeof value === "string" && /^[=+\-@\t\r]/.test(text)
+    ? `'${text}`
+    : text;
+}
+
+/** Quote a CSV field (RFC 4180). */
+function csvField(value: ExportValue): string {
+  const text = spreadsheetText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function tsvField(value: ExportValue): string {
+  return spreadsheetText(value).replace(/[\t\r\n]+/g, " ");
+}
+
+function mdField(value: ExportValue): string {
+  return cellText(value).replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+function htmlEscape(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Serialize rows in the given format. Output ends with a newline.
+ */
+export function serializeRows(rows: ExportRow[], format: ExportFormat): string {
+  const headers = EXPORT_COLUMNS.map((c) => c.header);
+  const cells = (row: ExportRow) => EXPORT_COLUMNS.map((c) => row[c.key]!);
+
+  switch (format) {
+    case "csv":
+      return (
+        [headers, ...rows.map(cells)]
+          .map((line) => line.map(csvField).join(","))
+          .join("\r\n") + "\r\n"
+      );
+    case "tsv":
+      return (
+        [headers, ...rows.map(cells)]
+          .map((line) => line.map(tsvField).join("\t"))
+          .join("\n") + "\n"
+      );
+    case "md": {
+      const line = (values: ExportValue[]) =>
+        `| ${values.map(mdField).join(" | ")} |`;
+      return (
+        [
+          line(headers),
+          `| ${headers.map(() => "---").join(" | ")} |`,
+          ...rows.map((row) => line(cells(row))),
+        ].join("\n") + "\n"
+      );
+    }
+    case "jsonl":
+      return rows.map((row) => JSON.stringify(row) + "\n").join("");
+    case "html": {
+      const tr = (tag: "th" | "td", values: ExportValue[]) =>
+        `<tr>${values.map((v) => `<${tag}>${htmlEscape(cellText(v))}</${tag}>`).join("")}</tr>`;
+      return (
+        [
+          "<table>",
+          `<thead>${tr("th", headers)}</thead>`,
+          "<tbody>",
+          ...rows.map((row) => tr("td", cells(row))),
+          "</tbody>",
+          "</table>",
+        ].join("\n") + "\n"
+      );
+    }
+  }
+}
+
+/**
+ * Export a search or detail result. Throws for error results.
+ */
+export function exportResult(
+  result: AgentResult,
+  format: ExportFormat,
+): string {
+  return serializeRows(resultToRows(result), format);
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Pick a format from a file extension (.csv, .tsv, .md, .jsonl, .html).
+ * Returns null for unknown extensions.
+ */
+export function formatFromPath(path: string): ExportFormat | null {
+  const ext = path.toLowerCase().match(/\.([a-z]+)$/)?.[1] ?? "";
+  if (ext === "markdown") return "md";
+  if (ext === "htm") return "html";
+  return isExportFormat(ext) ? ext : null;
+}
@@ -11,8 +11,14 @@ beforeAll(() => {
 });
 
 // Dynamic import after setting env
-const { formatSearchResult, formatDetailResult, formatError, toJSON } =
-  await import("./format");
+const {
+  formatSearchResult,
+  formatDetailResult,
+  formatError,
+  toJSON,
+  toStreamEventLine,
+  formatUsageSummary,
+} = await import("./format");
 
 describe("formatSearchResult", () => {
   it("formats a search result with profiles", () => {
@@ -68,6 +74,59 @@ describe("formatSearchResult", () => {
     expect(output).toContain("No profiles found");
     expect(output).toContain("0 total matches");
   });
+
+  it("shows the page range and a next-page hint when paginated", () => {
+    const result: SearchResult = {
+      type: "search",
+      session: "test-session",
+      query: "Find devs",
+      profiles: [{ id: "p11", name: "Eleven" }],
+      totalMatches: 30,
+      summary: "",
+      appliedFilters: {},
+      pagination: { page: 2, pageSize: 10, offset: 10, hasMore: true },
+    };
+
+    const output = formatSearchResult(result);
+
+    expect(output).toContain("Showing 11-11 (page 2)");
+    expect(output).toContain("--session test-session --page 3");
+  });
+
+  it("shows the requested columns and fits the given width", () => {
+    const result: SearchResult = {
+      type: "search",
+      session: "test-session",
+      query: "Find devs",
+      profiles: [
+        {
+          id: "p1",
+          name: "Jane",
+          linkedinCurrentCompany: "Acme",
+          linkedinYearsExperience: 7,
+          githubExpertiseLevel: "senior",
+        },
+      ],
+      totalMatches: 1,
+      summary: "",
+      appliedFilters: {},
+    };
+
+    const output = formatSearchResult(result, {
+      columns: ["name", "company", "years", "expertise"],
+      width: 60,
+    });
+    const lines = output.split("\n");
+    const header = lines.find((l) => l.includes("Name"))!;
+    const row = lines.find((l) => l.includes("Jane"))!;
+
+    expect(header).toMatch(/Name\s+Company\s+Yrs\s+Expertise/);
+    expect(header).not.toContain("Location");
+    expect(row).toMatch(/Jane\s+Acme\s+7\s+senior/);
+    expect(
+      Math.max(header.trimEnd().length, row.trimEnd().length),
+    ).toBeLessThanOrEqual(60);
+  });
 });
 
 describe("formatDetailResult", () => {
@@ -178,3 +237,73 @@ describe("toJSON", () => {
     expect(parsed.error).toBe("test error");
   });
 });
+
+describe("toStreamEventLine", () => {
+  it("renames type to event and keeps the payload on one line", () => {
+    const line = toStreamEventLine(
+      {
+        type: "tool-call",
+        toolCallId: "tc-1",
+        toolName: "searchProfiles",
+        args: { query: "React" },
+      },
+      "req-1",
+    );
+
+    expect(line).not.toContain("\n");
+    expect(JSON.parse(line)).toEqual({
+      event: "tool-call",
+      toolCallId: "tc-1",
+      toolName: "searchProfiles",
+      args: { query: "React" },
+      id: "req-1",
+    });
+  });
+
+  it("omits the id when none is given", () => {
+    const parsed = JSON.parse(
+      toStreamEventLine({ type: "text-delta", delta: "Found" }),
+    );
+    expect(parsed).toEqual({ event: "text-delta", delta: "Found" });
+  });
+});
+
+describe("formatUsageSummary", () => {
+  const totals = (requests: number, tokensUsed: number) => ({
+    requests,
+    searches: requests,
+    details: 0,
+    errors: 0,
+    tokensUsed,
+    durationMs: 1000 * requests,
+  });
+
+  it("lists totals by day, session and tool", () => {
+    const output = formatUsageSummary({
+      since: "2026-10-11T00:00:00.000Z",
+      total: totals(3, 1500),
+      byDay: { "2026-10-16": totals(1, 500), "2026-10-17": totals(2, 1000) },
+      bySession: { s1: totals(3, 1500) },
+      byTool: { searchProfiles: 3 },
+    });
+
+    expect(output).toContain("Usage since 2026-10-11");
+    expect(output).toContain("1,500 tokens");
+    expect(output).toContain("2026-10-17");
+    expect(output).toContain("s1");
+    expect(output).toMatch(/searchProfiles\s+3 calls/);
+  });
+
+  it("stops after the header when nothing was recorded", () => {
+    const output = formatUsageSummary({
+      since: null,
+      total: totals(0, 0),
+      byDay: {},
+      bySession: {},
+      byTool: {},
+    });
+
+    expect(output).toContain("0 requests");
+    expect(output).not.toContain("By day");
+  });
+});
@@ -9,7 +9,17 @@ import type {
   DetailedProfile,
   ProfileSummary,
   SearchResult,
+  StreamEvent,
 } from "./agent";
+import {
+  type ColumnId,
+  type ColumnStyle,
+  DEFAULT_COLUMNS,
+  INDEX_WIDTH,
+  layoutColumns,
+} from "./columns";
+import type { CheckStatus, DoctorReport } from "./doctor";
+import type { UsageSummary, UsageTotals } from "./usage";
 
 // ─── ANSI Colors ─────────────────────────────────────────────────────────────
 
@@ -28,6 +38,17 @@ const RED = NO_COLOR ? "" : "\x1b[31m";
 
 // ─── Profile Table Formatter ─────────────────────────────────────────────────
 
+/** Used when stdout is not a terminal (piped or redirected). */
+const DEFAULT_WIDTH = 100;
+
+const COLUMN_STYLES: Record<ColumnStyle, string> = {
+  name: GREEN,
+  role: "",
+  location: DIM,
+  accent: MAGENTA,
+  dim: DIM,
+};
+
 function pad(str: string, len: number): string {
   if (str.length >= len) return str.slice(0, len);
   return str + " ".repeat(len - str.length);
@@ -43,14 +64,29 @@ function truncate(
   return s.slice(0, maxLen - 1) + "…";
 }
 
-export function formatSearchResult(result: SearchResult): string {
+export interface SearchTableOptions {
+  /** Columns to show; defaults to DEFAULT_COLUMNS. */
+  columns?: ColumnId[];
+  /** Total width in characters; defaults to the terminal width. */
+  width?: number;
+}
+
+export function formatSearchResult(
+  result: SearchResult,
+  options: SearchTableOptions = {},
+): string {
   const lines: string[] = [];
 
   // Header
   lines.push("");
   lines.push(`${BOLD}${CYAN}Search:${RESET} ${result.query}`);
+  const page = result.pagination;
+  const showing =
+    page && result.profiles.length > 0
+      ? `${page.offset + 1}-${page.offset + result.profiles.length} (page ${page.page})`
+      : String(result.profiles.length);
   lines.push(
-    `${DIM}${result.totalMatches} total matches. Showing ${result.profiles.length}.${RESET}`,
+    `${DIM}${result.totalMatches} total matches. Showing ${showing}.${RESET}`,
   );
   lines.push(`${DIM}Session: ${result.session}${RESET}`);
   lines.push("");
@@ -65,28 +101,29 @@ export function formatSearchResult(result: SearchResult): string {
     return lines.join("\n");
   }
 
-  // Table header
-  const colWidths = { idx: 3, name: 22, role: 22, location: 18, languages: 20 };
+  // Table
+  const layout = layoutColumns(
+    options.columns ?? DEFAULT_COLUMNS,
+    (options.width ?? process.stdout.columns ?? DEFAULT_WIDTH) - 2,
+  );
+  const cell = (text: string, width: number) =>
+    pad(truncate(text, width), width);
   lines.push(
-    `${BOLD}${WHITE}  ${pad("#", colWidths.idx)} ${pad("Name", colWidths.name)} ${pad("Role", colWidths.role)} ${pad("Location", colWidths.location)} ${pad("Languages", colWidths.languages)}${RESET}`,
+    `${BOLD}${WHITE}  ${pad("#", INDEX_WIDTH - 1)} ${layout.map((l) => cell(l.column.header, l.width)).join(" ")}${RESET}`,
   );
   lines.push(
-    `${DIM}  ${"─".repeat(colWidths.idx + colWidths.name + colWidths.role + colWidths.location + colWidths.languages + 4)}${RESET}`,
+    `${DIM}  ${"─".repeat(layout.reduce((sum, l) => sum + l.width + 1, INDEX_WIDTH - 1))}${RESET}`,
   );
 
   // Rows
   for (let i = 0; i < result.profiles.length; i++) {
     const p = result.profiles[i]!;
-    const name = truncate(p.displayName || p.name || "Unknown", colWidths.name);
-    const role = truncate(
-      p.mainRole || p.linkedinCurrentTitle || "",
-      colWidths.role,
+    const cells = layout.map(
+      (l) =>
+        `${COLUMN_STYLES[l.column.style]}${cell(l.column.value(p), l.width)}${RESET}`,
     );
-    const location = truncate(p.location || "", colWidths.location);
-    const languages = truncate(p.githubTopLanguages || "", colWidths.languages);
-
     lines.push(
-      `  ${YELLOW}${pad(String(i), colWidths.idx)}${RESET} ${GREEN}${pad(name, colWidths.name)}${RESET} ${pad(role, colWidths.role)} ${DIM}${pad(location, colWidths.location)}${RESET} ${MAGENTA}${pad(languages, colWidths.languages)}${RESET}`,
+      `  ${YELLOW}${pad(String(i), INDEX_WIDTH - 1)}${RESET} ${cells.join(" ")}`,
     );
   }
 
@@ -102,6 +139,11 @@ export function formatSearchResult(result: SearchResult): string {
   lines.push(
     `${DIM}Use --session ${result.session} to refine. Use --detail <index> to view a profile.${RESET}`,
   );
+  if (page?.hasMore) {
+    lines.push(
+      `${DIM}More results: --session ${result.session} --page ${page.page + 1}${RESET}`,
+    );
+  }
   lines.push("");
 
   return lines.join("\n");
@@ -224,6 +266,92 @@ export function formatDetailResult(result: DetailResult): string {
   return lines.join("\n");
 }
 
+// ─── Usage Formatter ─────────────────────────────────────────────────────────
+
+function formatTotalsRow(label: string, totals: UsageTotals): string {
+  const errors = totals.errors ? `  ${RED}${totals.errors} errors${RESET}` : "";
+  return `  ${pad(label, 24)} ${String(totals.requests).padStart(6)} requests  ${totals.tokensUsed.toLocaleString("en-US").padStart(10)} tokens${errors}`;
+}
+
+export function formatUsageSummary(summary: UsageSummary): string {
+  const lines: string[] = [];
+  const { total } = summary;
+
+  lines.push("");
+  lines.push(
+    `${BOLD}${CYAN}Usage${RESET}${summary.since ? ` since ${summary.since.slice(0, 10)}` : ""}`,
+  );
+  lines.push(
+    `${DIM}${total.requests} requests (${total.searches} searches, ${total.details} details, ${total.errors} errors), ${total.tokensUsed.toLocaleString("en-US")} tokens, ${(total.durationMs / 1000).toFixed(1)}s${RESET}`,
+  );
+
+  if (total.requests === 0) {
+    lines.push("");
+    return lines.join("\n");
+  }
+
+  lines.push("");
+  lines.push(`${BOLD}By day${RESET}`);
+  for (const day of Object.keys(summary.byDay).sort()) {
+    lines.push(formatTotalsRow(day, summary.byDay[day]!));
+  }
+
+  lines.push("");
+  lines.push(`${BOLD}By session${RESET}`);
+  const sessions = Object.entries(summary.bySession).sort(
+    ([, a], [, b]) => b.requests - a.requests,
+  );
+  for (const [session, totals] of sessions) {
+    lines.push(formatTotalsRow(session, totals));
+  }
+
+  const tools = Object.entries(summary.byTool).sort(([, a], [, b]) => b - a);
+  if (tools.length > 0) {
+    lines.push("");
+    lines.push(`${BOLD}By tool${RESET}`);
+    for (const [tool, calls] of tools) {
+      lines.push(`  ${pad(tool, 24)} ${String(calls).padStart(6)} calls`);
+    }
+  }
+
+  lines.push("");
+  return lines.join("\n");
+}
+
+// ─── Doctor Formatter ────────────────────────────────────────────────────────
+
+const CHECK_MARKS: Record<CheckStatus, string> = {
+  pass: `${GREEN}✓${RESET}`,
+  warn: `${YELLOW}!${RESET}`,
+  fail: `${RED}✗${RESET}`,
+};
+
+export function formatDoctorReport(report: DoctorReport): string {
+  const lines: string[] = [];
+
+  lines.push("");
+  lines.push(`${BOLD}${CYAN}talent-agent doctor${RESET}`);
+  lines.push("");
+  for (const check of report.checks) {
+    lines.push(
+      `  ${CHECK_MARKS[check.status]} ${pad(check.name, 18)} ${check.detail}`,
+    );
+  }
+
+  const failed = report.checks.filter((c) => c.status === "fail").length;
+  const warned = report.checks.filter((c) => c.status === "warn").length;
+  lines.push("");
+  if (failed === 0 && warned === 0) {
+    lines.push(`${GREEN}All checks passed${RESET}`);
+  } else {
+    lines.push(
+      `${failed > 0 ? RED : YELLOW}${failed} failed, ${warned} ${warned === 1 ? "warning" : "warnings"}${RESET}`,
+    );
+  }
+  lines.push("");
+  return lines.join("\n");
+}
+
 // ─── Error Formatter ─────────────────────────────────────────────────────────
 
 export function formatError(error: string, session?: string): string {
@@ -235,3 +363,15 @@ export function formatError(error: string, session?: string): string {
 export function toJSON(result: AgentResult): string {
   return JSON.stringify(result, null, 2);
 }
+
+/**
+ * Serialize a streaming event as a single JSONL line for `--stream` output.
+ * Uses an `event` key so consumers can tell events apart from the final
+ * `{ success, ... }` envelope.
+ */
+export function toStreamEventLine(event: StreamEvent, id?: string): string {
+  const { type, ...fields } = event;
+  const line: Record<string, unknown> = { event: type, ...fields };
+  if (id) line.id = id;
+  return JSON.stringify(line);
+}
@@ -0,0 +1,266 @@
+/**
+ * Unit tests for the retrying HTTP layer.
+ */
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { refreshRejectedToken } from "./auth/store";
+import {
+  DEFAULT_RETRY_POLICY,
+  type RetryPolicy,
+  backoffDelay,
+  fetchWithAuth,
+  fetchWithRetry,
+  getRetryPolicy,
+  parseRetryAfter,
+} from "./http";
+
+vi.mock("./auth/store", () => ({
+  refreshRejectedToken: vi.fn(),
+}));
+
+// No real waiting in tests
+const FAST: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1,
+  maxDelayMs: 2,
+  maxRetryAfterMs: 50,
+};
+
+const originalEnv = { ...process.env };
+
+afterEach(() => {
+  process.env = { ...originalEnv };
+  vi.restoreAllMocks();
+  vi.clearAllMocks();
+});
+
+function mockFetchSequence(...steps: Array<Response | Error>) {
+  const spy = vi.spyOn(globalThis, "fetch");
+  for (const step of steps) {
+    if (step instanceof Error) spy.mockRejectedValueOnce(step);
+    else spy.mockResolvedValueOnce(step);
+  }
+  return spy;
+}
+
+describe("parseRetryAfter", () => {
+  it("parses delay-seconds", () => {
+    expect(parseRetryAfter("3")).toBe(3_000);
+  });
+
+  it("parses an HTTP date relative to now", () => {
+    const now = Date.parse("2025-01-01T00:00:00Z");
+    expect(parseRetryAfter("Wed, 01 Jan 2025 00:00:05 GMT", now)).toBe(5_000);
+  });
+
+  it("returns null for missing or invalid headers", () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter("soon")).toBeNull();
+  });
+});
+
+describe("backoffDelay", () => {
+  it("grows exponentially and is capped", () => {
+    const max = () => 1;
+    expect(backoffDelay(0, DEFAULT_RETRY_POLICY, max)).toBe(500);
+    expect(backoffDelay(2, DEFAULT_RETRY_POLICY, max)).toBe(2_000);
+    expect(backoffDelay(10, DEFAULT_RETRY_POLICY, max)).toBe(8_000);
+    expect(backoffDelay(3, DEFAULT_RETRY_POLICY, () => 0)).toBe(0);
+  });
+});
+
+describe("getRetryPolicy", () => {
+  it("reads TALENT_AGENT_MAX_RETRIES", () => {
+    process.env.TALENT_AGENT_MAX_RETRIES = "0";
+    expect(getRetryPolicy().maxAttempts).toBe(1);
+    process.env.TALENT_AGENT_MAX_RETRIES = "bogus";
+    expect(getRetryPolicy()).toEqual(DEFAULT_RETRY_POLICY);
+  });
+});
+
+describe("fetchWithRetry", () => {
+  it("retries 429 and reports the retry count", async () => {
+    const spy = mockFetchSequence(
+      new Response("", { status: 429, headers: { "Retry-After": "0" } }),
+      new Response("ok", { status: 200 }),
+    );
+
+    const { response, retries } = await fetchWithRetry(
+      "http://x/api/chat",
+      { method: "POST" },
+      { policy: FAST },
+    );
+
+    expect(response.status).toBe(200);
+    expect(retries).toBe(1);
+    expect(spy).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives up when Retry-After exceeds the policy limit", async () => {
+    const spy = mockFetchSequence(
+      new Response("", { status: 503, headers: { "Retry-After": "120" } }),
+    );
+
+    const { response, retries } = await fetchWithRetry(
+      "http://x",
+      {},
+      { policy: FAST },
+    );
+
+    expect(response.status).toBe(503);
+    expect(retries).toBe(0);
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns the last response when attempts are exhausted", async () => {
+    const spy = mockFetchSequence(
+      new Response("", { status: 503 }),
+      new Response("", { status: 503 }),
+      new Response("", { status: 503 }),
+    );
+
+    const { response, retries } = await fetchWithRetry(
+      "http://x",
+      {},
+      { policy: FAST },
+    );
+
+    expect(response.status).toBe(503);
+    expect(retries).toBe(2);
+    expect(spy).toHaveBeenCalledTimes(3);
+  });
+
+  it("retries 502 for GET but not for POST", async () => {
+    mockFetchSequence(
+      new Response("", { status: 502 }),
+      new Response("ok", { status: 200 }),
+    );
+    const get = await fetchWithRetry("http://x", {}, { policy: FAST });
+    expect(get.response.status).toBe(200);
+
+    vi.restoreAllMocks();
+    const spy = mockFetchSequence(new Response("", { status: 502 }));
+    const post = await fetchWithRetry(
+      "http://x",
+      { method: "POST" },
+      { policy: FAST },
+    );
+    expect(post.response.status).toBe(502);
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries refused connections for any method", async () => {
+    mockFetchSequence(
+      new Error("connect ECONNREFUSED 127.0.0.1:3000"),
+      new Response("ok", { status: 200 }),
+    );
+
+    const { retries } = await fetchWithRetry(
+      "http://x",
+      { method: "POST" },
+      { policy: FAST },
+    );
+    expect(retries).toBe(1);
+  });
+
+  it("does not retry a dropped POST, which may have been processed", async () => {
+    const spy = mockFetchSequence(new Error("read ECONNRESET"));
+
+    await expect(
+      fetchWithRetry("http://x", { method: "POST" }, { policy: FAST }),
+    ).rejects.toThrow("ECONNRESET");
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not retry non-transient statuses", async () => {
+    const spy = mockFetchSequence(new Response("", { status: 404 }));
+
+    const { response } = await fetchWithRetry("http://x", {}, { policy: FAST });
+    expect(response.status).toBe(404);
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not retry once the request is aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const spy = mockFetchSequence(controller.signal.reason);
+
+    await expect(
+      fetchWithRetry(
+        "http://x",
+        { signal: controller.signal },
+        { policy: FAST },
+      ),
+    ).rejects.toMatchObject({ name: "AbortError" });
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("fetchWithAuth", () => {
+  const authHeader = (spy: ReturnType<typeof vi.spyOn>, call: number) =>
+    (
+      (spy.mock.calls[call]![1] as RequestInit).headers as Record<
+        string,
+        string
+      >
+    ).Authorization;
+
+  it("sends the token alongside the caller's headers", async () => {
+    const spy = mockFetchSequence(new Response("ok", { status: 200 }));
+
+    await fetchWithAuth("http://x", "tok", {
+      headers: { "Content-Type": "application/json" },
+    });
+
+    expect((spy.mock.calls[0]![1] as RequestInit).headers).toEqual({
+      "Content-Type": "application/json",
+      Authorization: "Bearer tok",
+    });
+    expect(refreshRejectedToken).not.toHaveBeenCalled();
+  });
+
+  it("retries once with a refreshed token after a 401", async () => {
+    vi.mocked(refreshRejectedToken).mockResolvedValueOnce("fresh");
+    const spy = mockFetchSequence(
+      new Response("", { status: 401 }),
+      new Response("ok", { status: 200 }),
+    );
+
+    const { response, retries } = await fetchWithAuth(
+      "http://x/api/chat",
+      "stale",
+      { method: "POST", body: "{}" },
+      { policy: FAST },
+    );
+
+    expect(response.status).toBe(200);
+    expect(retries).toBe(1);
+    expect(refreshRejectedToken).toHaveBeenCalledWith("stale");
+    expect(authHeader(spy, 0)).toBe("Bearer stale");
+    expect(authHeader(spy, 1)).toBe("Bearer fresh");
+  });
+
+  it("returns the 401 when no new token is available", async () => {
+    vi.mocked(refreshRejectedToken).mockResolvedValueOnce(null);
+    const spy = mockFetchSequence(new Response("", { status: 401 }));
+
+    const { response } = await fetchWithAuth("http://x", "stale");
+
+    expect(response.status).toBe(401);
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not retry a second 401", async () => {
+    vi.mocked(refreshRejectedToken).mockResolvedValueOnce("fresh");
+    const spy = mockFetchSequence(
+      new Response("", { status: 401 }),
+      new Response("", { status: 401 }),
+    );
+
+    const { response } = await fetchWithAuth("http://x", "stale");
+
+    expect(response.status).toBe(401);
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(refreshRejectedToken).toHaveBeenCalledTimes(1);
+  });
+});
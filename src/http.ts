@@ -0,0 +1,250 @@
+/**
+ * Shared HTTP layer for talent-pro API calls.
+ *
+ * `fetchWithRetry` wraps `fetch` with a retry policy:
+ * - Jittered exponential backoff between attempts ("full jitter").
+ * - `Retry-After` (seconds or HTTP date) is honored on 429 and 503; if the
+ *   server asks for a longer wait than `maxRetryAfterMs`, the response is
+ *   returned as-is so the caller can report RATE_LIMIT instead of hanging.
+ * - Idempotency-aware: non-idempotent requests (POST) are only retried when
+ *   the server provably did not process them (429/503, or the connection
+ *   was never established). GET requests are also retried on 502/504 and
+ *   on dropped connections.
+ *
+ * An aborted `init.signal` (cancellation or timeout) is never retried and
+ * also cuts short any backoff wait.
+ *
+ * Retries only ever happen before a response is handed back. Once the
+ * caller starts reading a body (e.g. the /api/chat stream), a failure is
+ * final -- partially streamed chat responses are never replayed.
+ *
+ * `fetchWithAuth` adds the Bearer token on top, and on a 401 refreshes the
+ * stored token once and repeats the request with the new one.
+ */
+import { refreshRejectedToken } from "./auth/store";
+
+// ─── Retry Policy ───────────────────────────────────────────────────────────
+
+export interface RetryPolicy {
+  /** Total attempts, including the first one. */
+  maxAttempts: number;
+  /** Backoff base; attempt n waits up to baseDelayMs * 2^n. */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay. */
+  maxDelayMs: number;
+  /** Longest `Retry-After` we are willing to wait for. */
+  maxRetryAfterMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8_000,
+  maxRetryAfterMs: 30_000,
+};
+
+/**
+ * Resolve the retry policy, applying `TALENT_AGENT_MAX_RETRIES` (number of
+ * retries after the first attempt; 0 disables retrying).
+ */
+export function getRetryPolicy(): RetryPolicy {
+  const raw = process.env.TALENT_AGENT_MAX_RETRIES;
+  const retries = raw === undefined ? NaN : parseInt(raw, 10);
+  if (isNaN(retries) || retries < 0) return DEFAULT_RETRY_POLICY;
+  return { ...DEFAULT_RETRY_POLICY, maxAttempts: retries + 1 };
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+/** Statuses that mean "not processed, try again later" for any method. */
+const ALWAYS_RETRYABLE = new Set([429, 503]);
+
+/** Gateway errors -- the request may or may not have reached the app. */
+const IDEMPOTENT_RETRYABLE = new Set([502, 504]);
+
+/** Errors raised before any bytes reached the server. */
+const CONNECT_ERRORS = [
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "ConnectionRefused", // Bun
+];
+
+/** Errors where the request may have been sent before the socket died. */
+const DROPPED_ERRORS = [
+  "ECONNRESET",
+  "ETIMEDOUT",
+  "EPIPE",
+  "ConnectionClosed", // Bun
+  "fetch failed", // undici (Node)
+];
+
+function errorText(error: unknown): string {
+  if (!(error instanceof Error)) return String(error);
+  const cause = (error as Error & { cause?: unknown }).cause;
+  const causeCode =
+    cause && typeof cause === "object" && "code" in cause
+      ? String((cause as { code: unknown }).code)
+      : "";
+  return `${error.message} ${(error as NodeJS.ErrnoException).code ?? ""} ${causeCode}`;
+}
+
+function isRetryableError(error: unknown, idempotent: boolean): boolean {
+  const name = (error as Error)?.name;
+  if (name === "AbortError" || name === "TimeoutError") return false;
+  const text = errorText(error);
+  if (CONNECT_ERRORS.some((code) => text.includes(code))) return true;
+  return idempotent && DROPPED_ERRORS.some((code) => text.includes(code));
+}
+
+/**
+ * Parse a `Retry-After` header into milliseconds from `now`.
+ * Returns null when the header is missing or unparseable.
+ */
+export function parseRetryAfter(
+  header: string | null,
+  now: number = Date.now(),
+): number | null {
+  if (!header) return null;
+  const trimmed = header.trim();
+  if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10) * 1_000;
+  const date = Date.parse(trimmed);
+  if (isNaN(date)) return null;
+  return Math.max(0, date - now);
+}
+
+/**
+ * Full-jitter backoff delay for the given (0-based) retry number.
+ */
+export function backoffDelay(
+  retry: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random,
+): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+  return Math.round(random() * ceiling);
+}
+
+/** Wait `ms`, rejecting early with the signal's reason if it aborts. */
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+export interface FetchWithRetryOptions {
+  /** Defaults to `getRetryPolicy()`. */
+  policy?: RetryPolicy;
+  /**
+   * Whether repeating the request is safe after it may have reached the
+   * server. Defaults to true for GET/HEAD, false otherwise.
+   */
+  idempotent?: boolean;
+}
+
+export interface FetchWithRetryResult {
+  response: Response;
+  /** Number of retries performed (0 when the first attempt was used). */
+  retries: number;
+}
+
+/**
+ * `fetch` with retries according to the module rules above.
+ *
+ * Resolves with the last response (which may still be a non-2xx status);
+ * rejects with the last network error once attempts are exhausted.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit = {},
+  options: FetchWithRetryOptions = {},
+): Promise<FetchWithRetryResult> {
+  const policy = options.policy ?? getRetryPolicy();
+  const method = (init.method ?? "GET").toUpperCase();
+  const idempotent =
+    options.idempotent ?? (method === "GET" || method === "HEAD");
+
+  let retries = 0;
+  while (true) {
+    const canRetry = retries + 1 < policy.maxAttempts;
+
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      if (!canRetry || !isRetryableError(error, idempotent)) throw error;
+      await sleep(backoffDelay(retries, policy), init.signal);
+      retries++;
+      continue;
+    }
+
+    const retryable =
+      ALWAYS_RETRYABLE.has(response.status) ||
+      (idempotent && IDEMPOTENT_RETRYABLE.has(response.status));
+    if (!retryable || !canRetry) return { response, retries };
+
+    let delay = backoffDelay(retries, policy);
+    const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+    if (retryAfter !== null) {
+      if (retryAfter > policy.maxRetryAfterMs) return { response, retries };
+      delay = Math.max(delay, retryAfter);
+    }
+
+    // Release the connection before waiting
+    await response.body?.cancel().catch(() => {});
+    await sleep(delay, init.signal);
+    retries++;
+  }
+}
+
+/**
+ * `fetchWithRetry` with `Authorization: Bearer <token>`.
+ *
+ * A 401 gets one more attempt after the stored token is refreshed (a refresh
+ * already done by a concurrent request is reused). If no new token can be
+ * obtained, the 401 response is returned for the caller to report. `init`
+ * must be replayable: a string body or none.
+ */
+export async function fetchWithAuth(
+  url: string,
+  token: string,
+  init: RequestInit = {},
+  options: FetchWithRetryOptions = {},
+): Promise<FetchWithRetryResult> {
+  const send = (bearer: string) =>
+    fetchWithRetry(
+      url,
+      {
+        ...init,
+        headers: {
+          ...(init.headers as Record<string, string> | undefined),
+          Authorization: `Bearer ${bearer}`,
+        },
+      },
+      options,
+    );
+
+  const first = await send(token);
+  if (first.response.status !== 401) return first;
+
+  const refreshed = await refreshRejectedToken(token);
+  if (!refreshed || refreshed === token) return first;
+
+  await first.response.body?.cancel().catch(() => {});
+  const second = await send(refreshed);
+  return {
+    response: second.response,
+    retries: first.retries + 1 + second.retries,
+  };
+}
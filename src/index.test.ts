@@ -5,7 +5,9 @@
  * by running it as a subprocess with different arguments.
  */
 import { execFileSync } from "node:child_process";
-import { resolve } from "node:path";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
 import { describe, expect, it } from "vitest";
 
 const CLI_PATH = resolve(__dirname, "index.ts");
@@ -16,6 +18,7 @@ const CLI_PATH = resolve(__dirname, "index.ts");
 function runCli(
   args: string[],
   env?: Record<string, string>,
+  input?: string,
 ): { stdout: string; stderr: string; exitCode: number } {
   try {
     const stdout = execFileSync("bun", ["run", CLI_PATH, ...args], {
@@ -24,6 +27,7 @@ function runCli(
         NO_COLOR: "1",
         ...env,
       },
+      input,
       encoding: "utf-8",
       timeout: 15000,
     });
@@ -109,3 +113,345 @@ describe("CLI unknown flags", () => {
     expect(exitCode).toBe(2);
   });
 });
+
+describe("CLI session subcommand", () => {
+  it("exits with code 2 when arguments are missing", () => {
+    const { stderr, exitCode } = runCli(["session", "save", "abc123"]);
+
+    expect(stderr).toContain("Usage: talent-agent session save");
+    expect(exitCode).toBe(2);
+  });
+});
+
+describe("CLI usage subcommand", () => {
+  it("prints an empty JSON summary for a fresh home directory", () => {
+    const home = mkdtempSync(join(tmpdir(), "talent-agent-cli-usage-"));
+    try {
+      const { stdout, exitCode } = runCli(
+        ["usage", "--since", "7d", "--json"],
+        {
+          HOME: home,
+        },
+      );
+
+      expect(exitCode).toBe(0);
+      const output = JSON.parse(stdout);
+      expect(output.success).toBe(true);
+      expect(output.data.total.requests).toBe(0);
+      expect(output.data.since).not.toBeNull();
+    } finally {
+      rmSync(home, { recursive: true, force: true });
+    }
+  });
+
+  it("exits with code 2 for an invalid --since", () => {
+    const { stderr, exitCode } = runCli(["usage", "--since", "soon"]);
+
+    expect(stderr).toContain("--since requires a duration");
+    expect(exitCode).toBe(2);
+  });
+});
+
+describe("CLI --format", () => {
+  it("exits with code 2 for an unknown format", () => {
+    const { stderr, exitCode } = runCli(["--format", "xlsx", "Find devs"]);
+
+    expect(stderr).toContain("--format must be one of: csv, tsv, md");
+    expect(exitCode).toBe(2);
+  });
+
+  it("exits with code 2 when combined with --json", () => {
+    const { stderr, exitCode } = runCli([
+      "--format",
+      "csv",
+      "--json",
+      "Find devs",
+    ]);
+
+    expect(stderr).toContain("--format cannot be combined with --json");
+    expect(exitCode).toBe(2);
+  });
+});
+
+describe("CLI --columns", () => {
+  it("exits with code 2 for an unknown column", () => {
+    const { stderr, exitCode } = runCli(["--columns", "name,salary", "Find"]);
+
+    expect(stderr).toContain("Unknown column: salary");
+    expect(stderr).toContain("Available columns: name, role");
+    expect(exitCode).toBe(2);
+  });
+
+  it("exits with code 2 in pipe mode", () => {
+    const { stderr, exitCode } = runCli(["--pipe", "--columns", "name"]);
+
+    expect(stderr).toContain(
+      "--columns requires a query or the interactive TUI",
+    );
+    expect(exitCode).toBe(2);
+  });
+});
+
+describe("CLI config subcommand", () => {
+  it("sets and reads back profile settings", () => {
+    const home = mkdtempSync(join(tmpdir(), "talent-agent-cli-config-"));
+    const env = { HOME: home, TALENT_PRO_URL: "", TALENT_AGENT_PROFILE: "" };
+    try {
+      const set = runCli(
+        [
+          "--profile",
+          "staging",
+          "config",
+          "set",
+          "pro-url",
+          "https://staging.example.com",
+        ],
+        env,
+      );
+      expect(set.exitCode).toBe(0);
+      expect(set.stdout).toContain("(profile staging)");
+
+      expect(runCli(["config", "get", "pro-url"], env).stdout.trim()).toBe(
+        "https://pro.talent.app",
+      );
+      expect(
+        runCli(
+          ["config", "get", "pro-url", "--profile", "staging"],
+          env,
+        ).stdout.trim(),
+      ).toBe("https://staging.example.com");
+
+      const { stdout } = runCli(["config", "list", "--json"], {
+        ...env,
+        TALENT_AGENT_PROFILE: "staging",
+      });
+      const listing = JSON.parse(stdout).data;
+      expect(listing.profile).toBe("staging");
+      expect(listing.values).toContainEqual({
+        key: "pro-url",
+        value: "https://staging.example.com",
+        source: "profile",
+      });
+    } finally {
+      rmSync(home, { recursive: true, force: true });
+    }
+  });
+
+  it("exits with code 2 for an unknown key", () => {
+    const { stderr, exitCode } = runCli(["config", "set", "color", "red"]);
+
+    expect(stderr).toContain("Unknown config key: color");
+    expect(exitCode).toBe(2);
+  });
+
+  it("exits with code 2 when TALENT_PRO_URL is not a URL", () => {
+    const { stderr, exitCode } = runCli(["Find Go developers"], {
+      TALENT_PRO_URL: "pro.example.com",
+    });
+
+    expect(stderr).toContain(
+      'pro-url must be an http(s) URL; got "pro.example.com" from TALENT_PRO_URL',
+    );
+    expect(exitCode).toBe(2);
+  });
+});
+
+describe("CLI accounts subcommand", () => {
+  it("lists no accounts and reports the active one in whoami", () => {
+    const home = mkdtempSync(join(tmpdir(), "talent-agent-cli-accounts-"));
+    const env = { HOME: home, TALENT_AGENT_ACCOUNT: "" };
+    try {
+      const list = runCli(["accounts", "list", "--json"], env);
+      expect(list.exitCode).toBe(0);
+      expect(JSON.parse(list.stdout)).toEqual({ success: true, data: [] });
+
+      const whoami = runCli(["whoami", "--account", "work"], env);
+      expect(whoami.stdout).toContain('Not authenticated (account "work")');
+    } finally {
+      rmSync(home, { recursive: true, force: true });
+    }
+  });
+
+  it("exits with code 1 when switching to an unknown account", () => {
+    const home = mkdtempSync(join(tmpdir(), "talent-agent-cli-accounts-"));
+    try {
+      const { stderr, exitCode } = runCli(["accounts", "switch", "work"], {
+        HOME: home,
+      });
+
+      expect(stderr).toContain('No stored account "work"');
+      expect(exitCode).toBe(1);
+    } finally {
+      rmSync(home, { recursive: true, force: true });
+    }
+  });
+
+  it("stops the profile from selecting an account that logs out", () => {
+    const home = mkdtempSync(join(tmpdir(), "talent-agent-cli-accounts-"));
+    const env = { HOME: home, TALENT_AGENT_ACCOUNT: "" };
+    try {
+      runCli(["config", "set", "account", "work"], env);
+
+      const logout = runCli(["logout", "--account", "work"], env);
+
+      expect(logout.exitCode).toBe(0);
+      expect(logout.stdout).toContain('no longer uses "work"');
+      expect(runCli(["config", "get", "account"], env).stdout).not.toContain(
+        "work",
+      );
+    } finally {
+      rmSync(home, { recursive: true, force: true });
+    }
+  });
+
+  it("exits with code 2 for an invalid --account", () => {
+    const { stderr, exitCode } = runCli(["whoami", "--account", "a/b"]);
+
+    expect(stderr).toContain("--account must be letters, digits, - or _");
+    expect(exitCode).toBe(2);
+  });
+});
+
+describe("CLI headless tokens", () => {
+  const expiredJwt = `h.${Buffer.from(JSON.stringify({ exp: 1000 })).toString("base64url")}.s`;
+
+  it("shows a TALENT_AGENT_TOKEN in whoami without storing it", () => {
+    const home = mkdtempSync(join(tmpdir(), "talent-agent-cli-token-"));
+    try {
+      const { stdout, exitCode } = runCli(["whoami"], {
+        HOME: home,
+        TALENT_AGENT_TOKEN: "opaque-token",
+      });
+
+      expect(stdout).toContain("TALENT_AGENT_TOKEN, not stored");
+      expect(exitCode).toBe(0);
+    } finally {
+      rmSync(home, { recursive: true, force: true });
+    }
+  });
+
+  it("reads a token from stdin with --token-stdin", () => {
+    const { stdout } = runCli(
+      ["whoami", "--token-stdin"],
+      { TALENT_AGENT_TOKEN: "" },
+      `${expiredJwt}\n`,
+    );
+
+    expect(stdout).toContain("Token:       EXPIRED");
+  });
+
+  it("fails with AUTH_ERROR when the token has expired", () => {
+    const home = mkdtempSync(join(tmpdir(), "talent-agent-cli-token-"));
+    try {
+      const { stdout, exitCode } = runCli(["--json", "Find Go developers"], {
+        HOME: home,
+        TALENT_AGENT_TOKEN: expiredJwt,
+      });
+
+      const envelope = JSON.parse(stdout);
+      expect(envelope.code).toBe("AUTH_ERROR");
+      expect(envelope.error).toContain("TALENT_AGENT_TOKEN has expired");
+      expect(exitCode).toBe(3);
+    } finally {
+      rmSync(home, { recursive: true, force: true });
+    }
+  });
+
+  it("exits with code 2 when --token-stdin is combined with --pipe", () => {
+    const { stderr, exitCode } = runCli(["--token-stdin", "--pipe"], {}, "t");
+
+    expect(stderr).toContain("--token-stdin reads the token from piped stdin");
+    expect(exitCode).toBe(2);
+  });
+});
+
+describe("CLI wallet login options", () => {
+  it("exits with code 2 when --chain-id is used without --wallet", () => {
+    const { stderr, exitCode } = runCli([
+      "login",
+      "--email",
+      "--chain-id",
+      "1",
+    ]);
+
+    expect(stderr).toContain("require login --wallet");
+    expect(exitCode).toBe(2);
+  });
+
+  it("exits with code 2 for a non-numeric --chain-id", () => {
+    const { stderr, exitCode } = runCli([
+      "login",
+      "--wallet",
+      "--chain-id",
+      "base",
+    ]);
+
+    expect(stderr).toContain("--chain-id must be a positive integer");
+    expect(exitCode).toBe(2);
+  });
+});
+
+describe("CLI doctor", () => {
+  it("exits with code 2 for unknown arguments", () => {
+    const { stderr, exitCode } = runCli(["doctor", "--fix"]);
+
+    expect(stderr).toContain("Usage: talent-agent doctor [--json]");
+    expect(exitCode).toBe(2);
+  });
+
+  it("prints a JSON report and exits 1 when a check fails", () => {
+    const home = mkdtempSync(join(tmpdir(), "talent-agent-cli-doctor-"));
+    try {
+      const { stdout, exitCode } = runCli(["doctor", "--json"], {
+        HOME: home,
+        TALENT_PRO_URL: "not-a-url",
+      });
+
+      const envelope = JSON.parse(stdout);
+      expect(envelope.data.ok).toBe(false);
+      expect(envelope.data.checks).toContainEqual({
+        name: "Auth API",
+        status: "fail",
+        detail: "skipped: invalid Talent Pro URL",
+      });
+      expect(exitCode).toBe(1);
+    } finally {
+      rmSync(home, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("CLI MCP transport flags", () => {
+  it("exits with code 2 when --transport is used without --serve", () => {
+    const { stderr, exitCode } = runCli(["--transport", "http", "query"]);
+
+    expect(stderr).toContain("--transport requires --serve");
+    expect(exitCode).toBe(2);
+  });
+
+  it("exits with code 2 for an unknown transport", () => {
+    const { stderr, exitCode } = runCli(["--serve", "--transport", "ws"]);
+
+    expect(stderr).toContain("--transport must be stdio or http");
+    expect(exitCode).toBe(2);
+  });
+
+  it("exits with code 2 when --port is used with the stdio transport", () => {
+    const { stderr, exitCode } = runCli(["--serve", "--port", "3000"]);
+
+    expect(stderr).toContain(
+      "--port, --host and --allow-server-credentials require --serve --transport http",
+    );
+    expect(exitCode).toBe(2);
+  });
+
+  it("exits with code 2 when --allow-server-credentials is used with stdio", () => {
+    const { stderr, exitCode } = runCli([
+      "--serve",
+      "--allow-server-credentials",
+    ]);
+
+    expect(stderr).toContain("require --serve --transport http");
+    expect(exitCode).toBe(2);
+  });
+});
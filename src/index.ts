@@ -14,10 +14,28 @@
  *   talent-agent --serve                                   # MCP server mode
  *   talent-agent session save <id> <path>                  # Save session to file
  *   talent-agent session load <path>                       # Load session from file
+ *   talent-agent --profile staging config set pro-url <url> # Configure a profile
+ *   talent-agent login --account work                      # Store a second login
  */
 import { readFileSync } from "node:fs";
 import { resolve } from "node:path";
 
+import { type ColumnId, parseColumns } from "./columns";
+import {
+  CONFIG_KEYS,
+  forgetAccount,
+  getActiveAccount,
+  getActiveProfile,
+  getConfigValue,
+  getSetting,
+  isConfigKey,
+  isValidAccountName,
+  listConfig,
+  setActiveProfile,
+  setConfigValue,
+  setSettingOverride,
+} from "./config";
+import { parseDuration } from "./duration";
 import { loadEnv, validateEnv } from "./env";
 import {
   EXIT_APP_ERROR,
@@ -25,10 +43,11 @@ import {
   EXIT_SUCCESS,
   EXIT_USAGE_ERROR,
 } from "./errors";
+import { EXPORT_FORMATS, type ExportFormat, isExportFormat } from "./export";
 
 // ─── Argument Parsing (before env loading so --help works without .env) ──────
 
-type AuthMethod = "email" | "google" | "wallet";
+type AuthMethod = "email" | "google" | "wallet" | "device";
 
 interface CliArgs {
   mode:
@@ -38,15 +57,46 @@ interface CliArgs {
     | "serve"
     | "login"
     | "logout"
-    | "whoami";
+    | "whoami"
+    | "session"
+    | "usage"
+    | "config"
+    | "accounts"
+    | "doctor";
   query?: string;
   session?: string;
   detail?: number;
+  page?: number;
+  limit?: number;
   json: boolean;
   help: boolean;
   version: boolean;
   debug: boolean;
+  stream: boolean;
+  timeoutMs?: number;
+  concurrency?: number;
+  format?: ExportFormat;
+  columns?: ColumnId[];
   loginMethod?: AuthMethod;
+  withToken?: boolean;
+  chainId?: number;
+  keyFile?: string;
+  smartAccount?: string;
+  tokenStdin?: boolean;
+  transport?: "stdio" | "http";
+  port?: number;
+  host?: string;
+  allowServerCredentials?: boolean;
+  sessionCommand?: "save" | "load";
+  sessionArgs?: string[];
+  register?: boolean;
+  sinceMs?: number;
+  profile?: string;
+  account?: string;
+  accountsCommand?: "list" | "switch" | "remove";
+  accountName?: string;
+  configCommand?: "get" | "set" | "list";
+  configArgs?: string[];
 }
 
 function getVersion(): string {
@@ -59,6 +109,26 @@ function getVersion(): string {
   }
 }
 
+/**
+ * Remove a `--flag <value>` pair from `args`, wherever it appears, and
+ * return the value.
+ */
+function takeGlobalFlag(
+  args: string[],
+  flag: string,
+  what: string,
+): string | undefined {
+  const index = args.indexOf(flag);
+  if (index === -1) return undefined;
+  const value = args[index + 1];
+  if (!value || value.startsWith("-")) {
+    console.error(`${flag} requires ${what}`);
+    process.exit(EXIT_USAGE_ERROR);
+  }
+  args.splice(index, 2);
+  return value;
+}
+
 function parseArgs(): CliArgs {
   const args = process.argv.slice(2);
   const result: CliArgs = {
@@ -67,11 +137,30 @@ function parseArgs(): CliArgs {
     help: false,
     version: false,
     debug: false,
+    stream: false,
   };
 
   let i = 0;
   const positional: string[] = [];
 
+  // --profile and --account apply to every command, so take them out before
+  // subcommands. Activate them right away: the TALENT_CLI_SESSION fallback
+  // below reads the profile.
+  result.profile = takeGlobalFlag(args, "--profile", "a profile name");
+  result.account = takeGlobalFlag(args, "--account", "an account name");
+  if (result.account && !isValidAccountName(result.account)) {
+    console.error("--account must be letters, digits, - or _");
+    process.exit(EXIT_USAGE_ERROR);
+  }
+  setActiveProfile(result.profile);
+  setSettingOverride("account", result.account);
+
+  const tokenStdinIndex = args.indexOf("--token-stdin");
+  if (tokenStdinIndex !== -1) {
+    args.splice(tokenStdinIndex, 1);
+    result.tokenStdin = true;
+  }
+
   // Check for subcommands
   if (args[0] === "login") {
     result.mode = "login";
@@ -79,6 +168,44 @@ function parseArgs(): CliArgs {
     if (args[1] === "--email") result.loginMethod = "email";
     else if (args[1] === "--google") result.loginMethod = "google";
     else if (args[1] === "--wallet") result.loginMethod = "wallet";
+    else if (args[1] === "--device") result.loginMethod = "device";
+    else if (args[1] === "--with-token") result.withToken = true;
+
+    // Wallet signing options
+    const walletArgs = args.slice(2);
+    const chainId = takeGlobalFlag(walletArgs, "--chain-id", "a chain ID");
+    result.keyFile = takeGlobalFlag(walletArgs, "--key-file", "a file path");
+    result.smartAccount = takeGlobalFlag(
+      walletArgs,
+      "--smart-account",
+      "a contract address",
+    );
+    if (chainId !== undefined) {
+      result.chainId = parseInt(chainId, 10);
+      if (!/^\d+$/.test(chainId) || result.chainId < 1) {
+        console.error("--chain-id must be a positive integer");
+        process.exit(EXIT_USAGE_ERROR);
+      }
+    }
+    if (
+      (chainId !== undefined || result.keyFile || result.smartAccount) &&
+      result.loginMethod !== "wallet"
+    ) {
+      console.error(
+        "--chain-id, --key-file and --smart-account require login --wallet",
+      );
+      process.exit(EXIT_USAGE_ERROR);
+    }
+    if (result.withToken && process.stdin.isTTY) {
+      console.error(
+        "--with-token reads the token from stdin, e.g. echo $TOKEN | talent-agent login --with-token",
+      );
+      process.exit(EXIT_USAGE_ERROR);
+    }
+    if (result.tokenStdin) {
+      console.error("Use 'talent-agent login --with-token' to store a token");
+      process.exit(EXIT_USAGE_ERROR);
+    }
     return result;
   }
 
@@ -87,11 +214,110 @@ function parseArgs(): CliArgs {
     return result;
   }
 
+  if (args[0] === "accounts") {
+    result.mode = "accounts";
+    const sub = args[1];
+    const rest = args.slice(2);
+    result.json = rest.includes("--json") || rest.includes("-j");
+    const names = rest.filter((a) => a !== "--json" && a !== "-j");
+
+    if (sub === "list" && names.length === 0) {
+      result.accountsCommand = "list";
+    } else if ((sub === "switch" || sub === "remove") && names.length === 1) {
+      result.accountsCommand = sub;
+      result.accountName = names[0];
+    } else {
+      console.error(
+        "Usage: talent-agent accounts list [--json] | accounts switch <name> | accounts remove <name>",
+      );
+      process.exit(EXIT_USAGE_ERROR);
+    }
+    return result;
+  }
+
   if (args[0] === "whoami") {
     result.mode = "whoami";
     return result;
   }
 
+  if (args[0] === "usage") {
+    result.mode = "usage";
+    for (let j = 1; j < args.length; j++) {
+      const arg = args[j]!;
+      if (arg === "--json" || arg === "-j") {
+        result.json = true;
+      } else if (arg === "--since") {
+        const value = parseDuration(args[++j] ?? "");
+        if (!value) {
+          console.error("--since requires a duration, e.g. 24h, 7d, 2w");
+          process.exit(EXIT_USAGE_ERROR);
+        }
+        result.sinceMs = value;
+      } else {
+        console.error(
+          "Usage: talent-agent usage [--since <duration>] [--json]",
+        );
+        process.exit(EXIT_USAGE_ERROR);
+      }
+    }
+    return result;
+  }
+
+  if (args[0] === "doctor") {
+    result.mode = "doctor";
+    for (const arg of args.slice(1)) {
+      if (arg === "--json" || arg === "-j") {
+        result.json = true;
+      } else {
+        console.error("Usage: talent-agent doctor [--json]");
+        process.exit(EXIT_USAGE_ERROR);
+      }
+    }
+    return result;
+  }
+
+  if (args[0] === "config") {
+    result.mode = "config";
+    const sub = args[1];
+    const rest = args.slice(2);
+    result.json = rest.includes("--json") || rest.includes("-j");
+    result.configArgs = rest.filter((a) => a !== "--json" && a !== "-j");
+
+    if (sub === "list" && result.configArgs.length === 0) {
+      result.configCommand = "list";
+    } else if (sub === "get" && result.configArgs.length === 1) {
+      result.configCommand = "get";
+    } else if (sub === "set" && result.configArgs.length === 2) {
+      result.configCommand = "set";
+    } else {
+      console.error(
+        "Usage: talent-agent [--profile <name>] config list [--json] | config get <key> | config set <key> <value>",
+      );
+      process.exit(EXIT_USAGE_ERROR);
+    }
+    return result;
+  }
+
+  if (args[0] === "session") {
+    result.mode = "session";
+    const sub = args[1];
+    const rest = args.slice(2);
+    result.register = rest.includes("--register");
+    result.sessionArgs = rest.filter((a) => a !== "--register");
+
+    if (sub === "save" && result.sessionArgs.length === 2) {
+      result.sessionCommand = "save";
+    } else if (sub === "load" && result.sessionArgs.length === 1) {
+      result.sessionCommand = "load";
+    } else {
+      console.error(
+        "Usage: talent-agent session save <id> <path> | session load <path> [--register]",
+      );
+      process.exit(EXIT_USAGE_ERROR);
+    }
+    return result;
+  }
+
   while (i < args.length) {
     const arg = args[i]!;
     switch (arg) {
@@ -114,10 +340,71 @@ function parseArgs(): CliArgs {
       case "--serve":
         result.mode = "serve";
         break;
+      case "--transport": {
+        const value = args[++i] ?? "";
+        if (value !== "stdio" && value !== "http") {
+          console.error("--transport must be stdio or http");
+          process.exit(EXIT_USAGE_ERROR);
+        }
+        result.transport = value;
+        break;
+      }
+      case "--port": {
+        const value = args[++i] ?? "";
+        result.port = parseInt(value, 10);
+        if (!/^\d+$/.test(value) || result.port > 65535) {
+          console.error("--port requires a port number (0-65535)");
+          process.exit(EXIT_USAGE_ERROR);
+        }
+        break;
+      }
+      case "--allow-server-credentials":
+        result.allowServerCredentials = true;
+        break;
+      case "--host":
+        result.host = args[++i];
+        if (!result.host) {
+          console.error("--host requires an address, e.g. 0.0.0.0");
+          process.exit(EXIT_USAGE_ERROR);
+        }
+        break;
       case "--debug":
       case "-D":
         result.debug = true;
         break;
+      case "--stream":
+        result.stream = true;
+        break;
+      case "--timeout": {
+        const value = parseDuration(args[++i] ?? "");
+        if (!value) {
+          console.error(
+            "--timeout requires a duration, e.g. 30s, 2m (bare numbers are seconds)",
+          );
+          process.exit(EXIT_USAGE_ERROR);
+        }
+        result.timeoutMs = value;
+        break;
+      }
+      case "--format": {
+        const value = args[++i] ?? "";
+        if (!isExportFormat(value)) {
+          console.error(
+            `--format must be one of: ${EXPORT_FORMATS.join(", ")}`,
+          );
+          process.exit(EXIT_USAGE_ERROR);
+        }
+        result.format = value;
+        break;
+      }
+      case "--columns":
+        try {
+          result.columns = parseColumns(args[++i] ?? "");
+        } catch (error) {
+          console.error(`--columns: ${(error as Error).message}`);
+          process.exit(EXIT_USAGE_ERROR);
+        }
+        break;
       case "--session":
       case "-s":
         result.session = args[++i];
@@ -126,6 +413,19 @@ function parseArgs(): CliArgs {
       case "-d":
         result.detail = parseInt(args[++i] ?? "0", 10);
         break;
+      case "--page":
+      case "--limit":
+      case "--concurrency": {
+        const value = parseInt(args[++i] ?? "", 10);
+        if (isNaN(value) || value < 1) {
+          console.error(`${arg} requires a positive integer`);
+          process.exit(EXIT_USAGE_ERROR);
+        }
+        if (arg === "--page") result.page = value;
+        else if (arg === "--limit") result.limit = value;
+        else result.concurrency = value;
+        break;
+      }
       default:
         if (arg.startsWith("-")) {
           console.error(`Unknown flag: ${arg}`);
@@ -142,9 +442,19 @@ function parseArgs(): CliArgs {
     result.query = positional.join(" ");
   }
 
-  // TALENT_CLI_SESSION env var fallback
-  if (!result.session && process.env.TALENT_CLI_SESSION) {
-    result.session = process.env.TALENT_CLI_SESSION;
+  // TALENT_CLI_SESSION env var / profile fallback
+  if (!result.session) {
+    result.session = getSetting("session");
+  }
+
+  // --detail / --page on an existing session need no query text
+  if (
+    result.mode === "interactive" &&
+    result.session &&
+    (result.detail !== undefined || result.page !== undefined)
+  ) {
+    result.mode = "single-shot";
+    result.query = "";
   }
 
   // Detect piped stdin (non-TTY)
@@ -153,10 +463,84 @@ function parseArgs(): CliArgs {
   }
 
   // Auto-enable JSON when stdout is not a TTY (piping to another program)
-  if (result.mode === "single-shot" && !process.stdout.isTTY) {
+  if (
+    result.mode === "single-shot" &&
+    !result.format &&
+    !process.stdout.isTTY
+  ) {
     result.json = true;
   }
 
+  if (result.stream && !result.help && !result.json && result.mode !== "pipe") {
+    console.error("--stream requires --json or --pipe");
+    process.exit(EXIT_USAGE_ERROR);
+  }
+
+  if (
+    result.concurrency !== undefined &&
+    !result.help &&
+    result.mode !== "pipe"
+  ) {
+    console.error("--concurrency requires --pipe");
+    process.exit(EXIT_USAGE_ERROR);
+  }
+
+  if (
+    result.columns &&
+    !result.help &&
+    result.mode !== "single-shot" &&
+    result.mode !== "interactive"
+  ) {
+    console.error("--columns requires a query or the interactive TUI");
+    process.exit(EXIT_USAGE_ERROR);
+  }
+
+  if (result.transport && !result.help && result.mode !== "serve") {
+    console.error("--transport requires --serve");
+    process.exit(EXIT_USAGE_ERROR);
+  }
+
+  if (
+    (result.port !== undefined ||
+      result.host ||
+      result.allowServerCredentials) &&
+    !result.help &&
+    result.transport !== "http"
+  ) {
+    console.error(
+      "--port, --host and --allow-server-credentials require --serve --transport http",
+    );
+    process.exit(EXIT_USAGE_ERROR);
+  }
+
+  if (result.tokenStdin && !result.help) {
+    // The token is read from stdin, so stdin can't also carry queries or MCP
+    if (
+      result.mode === "pipe" ||
+      (result.mode === "serve" && result.transport !== "http") ||
+      result.mode === "interactive" ||
+      process.stdin.isTTY
+    ) {
+      console.error(
+        "--token-stdin reads the token from piped stdin; it can't be combined with --pipe, stdio --serve or the interactive TUI",
+      );
+      process.exit(EXIT_USAGE_ERROR);
+    }
+  }
+
+  if (result.format && !result.help) {
+    if (result.mode !== "single-shot") {
+      console.error(
+        "--format requires a query or --session with --detail/--page",
+      );
+      process.exit(EXIT_USAGE_ERROR);
+    }
+    if (result.json) {
+      console.error("--format cannot be combined with --json");
+      process.exit(EXIT_USAGE_ERROR);
+    }
+  }
+
   return result;
 }
 
@@ -172,19 +556,47 @@ AUTHENTICATION:
   talent-agent login --email                          # Login with email (magic code)
   talent-agent login --google                         # Login with Google
   talent-agent login --wallet                         # Login with wallet (SIWE)
+  talent-agent login --wallet --key-file key.json     # Sign locally with a key or keystore file
+  talent-agent login --device                         # Login with a code on another device (SSH)
+  echo $TOKEN | talent-agent login --with-token       # Store an existing token (CI, servers)
   talent-agent logout                                 # Clear stored credentials
   talent-agent whoami                                 # Show current auth status
+  talent-agent login --account work                   # Store a second login as "work"
+  talent-agent accounts list                          # Stored logins (* = active)
+  talent-agent accounts switch work                   # Use "work" by default
+  talent-agent accounts remove work                   # Delete a stored login
 
 SEARCH:
   talent-agent "Find React developers in Lisbon"
   talent-agent --json "Find senior Python engineers"
   talent-agent --session abc123 "Only show those from Google"
   talent-agent --session abc123 --detail 0
+  talent-agent --session abc123 --page 2              # Next page of results
+  talent-agent --json --stream "Find Go developers"   # JSONL events as they arrive
+  talent-agent --format csv "Find Go developers" > devs.csv
+  talent-agent --columns name,company,years "Find Go developers"
   talent-agent                                        # Interactive TUI
   echo '{"query":"Find Rust devs"}' | talent-agent --pipe
   talent-agent --serve                                # MCP server mode
+  talent-agent --serve --transport http --port 3000   # MCP over HTTP at /mcp, many clients
   talent-agent session save abc123 ./search.json      # Save session
   talent-agent session load ./search.json             # Load session
+  talent-agent session load ./search.json --register  # Load and re-create on server
+
+CONFIGURATION (~/.talent-agent/config.json):
+  talent-agent config list                            # Active profile and effective settings
+  talent-agent config get pro-url
+  talent-agent --profile staging config set pro-url https://staging.example.com
+  talent-agent config set profile staging             # Make staging the default profile
+  talent-agent --profile staging "Find Go developers" # Use a profile for one command
+
+USAGE LEDGER:
+  talent-agent usage                                  # All recorded searches and detail lookups
+  talent-agent usage --since 7d --json                # Last 7 days by day, session and tool
+
+TROUBLESHOOTING:
+  talent-agent doctor                                 # Check Bun, URL, network, credentials and theme
+  talent-agent doctor --json                          # Same, as a JSON report (exit 1 on failures)
 
 OPTIONS:
   -h, --help              Show this help message
@@ -192,13 +604,41 @@ OPTIONS:
   -j, --json              Output results as JSON
   -s, --session <id>      Continue a previous search session (for refinement)
   -d, --detail <index>    Show detailed profile at index from last search
+  --page <n>              Page of results (with --session and no query: next pages)
+  --limit <n>             Profiles per page (default: 10 when paging)
   -p, --pipe              JSONL mode: read queries from stdin, write results to stdout
+  --stream                Emit JSONL events as they arrive (with --json or --pipe)
+  --timeout <duration>    Abort each request after e.g. 30s, 2m (TIMEOUT error)
+  --concurrency <n>       Pipe mode: run up to n requests at once (answers out of order)
+  --format <fmt>          Print results as csv, tsv, md, jsonl or html
+  --columns <list>        Table columns, e.g. name,company,years,expertise
+  --profile <name>        Config profile to use (prod, staging, local, ...)
+  --account <name>        Stored login to use for this command
+  --token-stdin           Read an auth token from stdin for this command (not stored)
   -D, --debug             Print diagnostic info to stderr
   --serve                 Start as MCP server (stdio transport)
+  --transport <t>         MCP transport: stdio (default) or http (streamable HTTP)
+  --port <n>              HTTP transport port (default: 3000)
+  --host <addr>           HTTP transport address (default: 127.0.0.1)
+  --allow-server-credentials
+                          HTTP transport: serve clients without a Bearer token
+                          using this server's own login (off: they get 401)
 
 ENVIRONMENT VARIABLES:
   TALENT_PRO_URL           Talent Pro app URL (auth + agent API)
   TALENT_CLI_SESSION       Default session ID (fallback for --session)
+  TALENT_CLI_THEME         TUI color scheme (light or dark)
+  TALENT_AGENT_PROFILE     Config profile (overridden by --profile)
+  TALENT_AGENT_ACCOUNT     Stored login to use (overridden by --account)
+  TALENT_AGENT_TOKEN       Auth token to use instead of stored credentials
+  TALENT_AGENT_KEYSTORE_PASSWORD
+                           Password for login --wallet --key-file keystores
+  TALENT_AGENT_REFRESH_SKEW
+                           Refresh stored tokens this long before expiry (default: 5m)
+  TALENT_AGENT_CREDENTIAL_STORE
+                           auto, keychain, secret-service, encrypted-file or file
+  TALENT_AGENT_CREDENTIAL_PASSPHRASE
+                           Passphrase for the encrypted-file credential store
   NO_COLOR                 Disable colored output
 
 INTERACTIVE MODE:
@@ -210,7 +650,8 @@ INTERACTIVE MODE:
     Up/Down      Navigate search history (sidebar) or results
     Enter        Submit search / select history item
     d + number   Show detail for profile at that index
-    n            Next page of results
+    n / p        Next / previous page of results
+    Esc          Cancel a running search
     q / Ctrl+C   Quit
 `);
 }
@@ -223,24 +664,70 @@ function printHelpJson(): void {
     modes: {
       search: { usage: "talent-agent [--json] [--session <id>] <query>" },
       detail: { usage: "talent-agent --session <id> --detail <index>" },
+      page: { usage: "talent-agent --session <id> --page <n> [--limit <n>]" },
       pipe: {
-        usage: "talent-agent --pipe",
-        inputSchema: "JSONL: {action, query?, session?, id?, index?}",
+        usage: "talent-agent --pipe [--concurrency <n>]",
+        inputSchema:
+          "JSONL: {action: search|detail|page|cancel, query?, session?, id?, index?, page?, limit?, direction?}",
       },
       interactive: { usage: "talent-agent" },
-      serve: { usage: "talent-agent --serve" },
+      serve: {
+        usage:
+          "talent-agent --serve [--transport stdio|http] [--port <n>] [--host <addr>] [--allow-server-credentials]",
+      },
+      session: {
+        usage:
+          "talent-agent session save <id> <path> | session load <path> [--register]",
+      },
+      usage: { usage: "talent-agent usage [--since <duration>] [--json]" },
+      doctor: { usage: "talent-agent doctor [--json]" },
+      accounts: {
+        usage:
+          "talent-agent accounts list [--json] | accounts switch <name> | accounts remove <name>",
+      },
+      config: {
+        usage:
+          "talent-agent [--profile <name>] config list [--json] | config get <key> | config set <key> <value>",
+        keys: CONFIG_KEYS,
+      },
     },
     flags: [
       "--json",
       "--session",
       "--detail",
+      "--page",
+      "--limit",
       "--pipe",
+      "--stream",
+      "--timeout",
+      "--concurrency",
+      "--format",
+      "--columns",
+      "--profile",
+      "--account",
+      "--token-stdin",
       "--debug",
       "--serve",
+      "--transport",
+      "--port",
+      "--host",
+      "--allow-server-credentials",
       "--help",
       "--version",
     ],
-    envVars: ["TALENT_PRO_URL", "TALENT_CLI_SESSION", "NO_COLOR"],
+    envVars: [
+      "TALENT_PRO_URL",
+      "TALENT_CLI_SESSION",
+      "TALENT_CLI_THEME",
+      "TALENT_AGENT_PROFILE",
+      "TALENT_AGENT_ACCOUNT",
+      "TALENT_AGENT_TOKEN",
+      "TALENT_AGENT_KEYSTORE_PASSWORD",
+      "TALENT_AGENT_REFRESH_SKEW",
+      "TALENT_AGENT_CREDENTIAL_STORE",
+      "TALENT_AGENT_CREDENTIAL_PASSPHRASE",
+      "NO_COLOR",
+    ],
   };
   console.log(JSON.stringify(schema, null, 2));
 }
@@ -267,13 +754,46 @@ if (cliArgs.help) {
 // Load and validate env after --help/--version check (so they work without .env)
 loadEnv();
 
+/** Exit with a usage error when the configured Talent Pro URL is invalid. */
+function checkEnv(): void {
+  try {
+    validateEnv();
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(EXIT_USAGE_ERROR);
+  }
+}
+
+if (cliArgs.tokenStdin) {
+  const token = (await Bun.stdin.text()).trim();
+  if (!token) {
+    console.error("--token-stdin: no token on stdin");
+    process.exit(EXIT_USAGE_ERROR);
+  }
+  // Same path as TALENT_AGENT_TOKEN: used as-is, never stored
+  process.env.TALENT_AGENT_TOKEN = token;
+}
+
 // ─── Auth Commands (need env but not full validation) ─────────────────────
 
 if (cliArgs.mode === "login") {
-  validateEnv();
-  const { runInteractiveLogin } = await import("./auth/flows");
+  checkEnv();
+  const { runInteractiveLogin, runTokenFlow } = await import("./auth/flows");
   try {
-    await runInteractiveLogin(cliArgs.loginMethod);
+    if (cliArgs.withToken) {
+      await runTokenFlow((await Bun.stdin.text()).trim());
+    } else {
+      await runInteractiveLogin(cliArgs.loginMethod, {
+        chainId: cliArgs.chainId,
+        keyFile: cliArgs.keyFile ? resolve(cliArgs.keyFile) : undefined,
+        smartAccount: cliArgs.smartAccount,
+      });
+    }
+    if (cliArgs.account) {
+      console.error(
+        `Saved as account "${cliArgs.account}". Use it with --account ${cliArgs.account} or 'talent-agent accounts switch ${cliArgs.account}'.`,
+      );
+    }
     process.exit(EXIT_SUCCESS);
   } catch (error) {
     console.error(
@@ -283,37 +803,242 @@ if (cliArgs.mode === "login") {
   }
 }
 
-if (cliArgs.mode === "logout") {
+/**
+ * Remove a stored login, and stop config profiles from selecting it so later
+ * commands don't point at an account that no longer exists.
+ */
+async function removeAccount(name: string, message: string): Promise<void> {
   const { clearCredentials } = await import("./auth/store");
-  clearCredentials();
-  console.log("Logged out. Credentials cleared.");
+  clearCredentials(name);
+  console.log(message);
+  let profiles: string[] = [];
+  try {
+    profiles = forgetAccount(name);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+  }
+  if (profiles.length > 0) {
+    const names = profiles.map((p) => `"${p}"`).join(", ");
+    console.log(
+      `Profile ${names} no longer uses "${name}"; it falls back to the "default" account. Use 'talent-agent accounts switch <name>' to pick another.`,
+    );
+  }
+}
+
+if (cliArgs.mode === "logout") {
+  const account = getActiveAccount();
+  await removeAccount(
+    account,
+    `Logged out of account "${account}". Credentials cleared.`,
+  );
   process.exit(EXIT_SUCCESS);
 }
 
 if (cliArgs.mode === "whoami") {
-  const { loadCredentials, isTokenExpired } = await import("./auth/store");
-  const creds = loadCredentials();
+  const {
+    loadCredentials,
+    isTokenExpired,
+    getCredentialStoreName,
+    getHeadlessToken,
+    getTokenExpiry,
+  } = await import("./auth/store");
+  const formatExpiry = (expiresAt: number) =>
+    new Date(
+      expiresAt > 1_000_000_000_000 ? expiresAt : expiresAt * 1000,
+    ).toLocaleString();
+
+  const headless = getHeadlessToken();
+  if (headless) {
+    const expiresAt = getTokenExpiry(headless);
+    console.log("Auth method: token (TALENT_AGENT_TOKEN, not stored)");
+    if (expiresAt === null) {
+      console.log("Expires:     unknown");
+    } else {
+      console.log(
+        `Token:       ${isTokenExpired(expiresAt) ? "EXPIRED" : "valid"}`,
+      );
+      console.log(`Expires:     ${formatExpiry(expiresAt)}`);
+    }
+    process.exit(EXIT_SUCCESS);
+  }
+
+  const account = getActiveAccount();
+  const creds = loadCredentials(account);
   if (!creds) {
-    console.log("Not authenticated. Run 'talent-agent login' to sign in.");
+    console.log(
+      `Not authenticated (account "${account}"). Run 'talent-agent login' to sign in.`,
+    );
     process.exit(EXIT_SUCCESS);
   }
   const expired = isTokenExpired(creds.expiresAt);
-  const expiresDate = new Date(
-    creds.expiresAt > 1_000_000_000_000
-      ? creds.expiresAt
-      : creds.expiresAt * 1000,
-  );
+  console.log(`Account:     ${account}`);
   console.log(`Auth method: ${creds.authMethod}`);
   if (creds.email) console.log(`Email:       ${creds.email}`);
   if (creds.address) console.log(`Address:     ${creds.address}`);
   console.log(`Token:       ${expired ? "EXPIRED" : "valid"}`);
-  console.log(`Expires:     ${expiresDate.toLocaleString()}`);
+  console.log(`Expires:     ${formatExpiry(creds.expiresAt)}`);
+  console.log(`Storage:     ${getCredentialStoreName()}`);
   process.exit(EXIT_SUCCESS);
 }
 
+if (cliArgs.mode === "accounts") {
+  const { listAccounts } = await import("./auth/store");
+  const accounts = listAccounts();
+  const active = getActiveAccount();
+  const name = cliArgs.accountName!;
+  const known = accounts.some((a) => a.name === name);
+
+  if (cliArgs.accountsCommand === "list") {
+    if (cliArgs.json) {
+      console.log(
+        JSON.stringify(
+          {
+            success: true,
+            data: accounts.map((a) => ({ ...a, active: a.name === active })),
+          },
+          null,
+          2,
+        ),
+      );
+    } else if (accounts.length === 0) {
+      console.log("No accounts. Run 'talent-agent login' to sign in.");
+    } else {
+      for (const a of accounts) {
+        const marker = a.name === active ? "*" : " ";
+        const identity = a.email ?? a.address ?? "";
+        console.log(
+          `${marker} ${a.name.padEnd(16)} ${a.authMethod.padEnd(7)} ${identity}`,
+        );
+      }
+    }
+  } else if (!known) {
+    console.error(
+      `No stored account "${name}". Run 'talent-agent login --account ${name}' first.`,
+    );
+    process.exit(EXIT_APP_ERROR);
+  } else if (cliArgs.accountsCommand === "switch") {
+    setConfigValue("account", name);
+    console.log(
+      `Switched to account "${name}" (profile ${getActiveProfile()})`,
+    );
+  } else {
+    await removeAccount(name, `Removed account "${name}"`);
+  }
+  process.exit(EXIT_SUCCESS);
+}
+
+// ─── Session Files ────────────────────────────────────────────────────────
+
+if (cliArgs.mode === "session") {
+  checkEnv();
+  const { loadSessionFromFile, saveSessionToFile } =
+    await import("./sessions/file");
+  try {
+    if (cliArgs.sessionCommand === "save") {
+      const [id, path] = cliArgs.sessionArgs as [string, string];
+      const file = await saveSessionToFile(id, path);
+      console.log(
+        `Saved session ${file.id} (${file.messages.length} messages) to ${path}`,
+      );
+    } else {
+      const [path] = cliArgs.sessionArgs as [string];
+      const session = await loadSessionFromFile(path, {
+        register: cliArgs.register,
+      });
+      console.log(
+        `Loaded session ${session.id} (${session.messages.length} messages)`,
+      );
+      console.log(`Continue with: talent-agent --session ${session.id} "..."`);
+    }
+    process.exit(EXIT_SUCCESS);
+  } catch (error) {
+    console.error(
+      `Session ${cliArgs.sessionCommand} failed: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    process.exit(EXIT_APP_ERROR);
+  }
+}
+
+// ─── Usage Ledger ─────────────────────────────────────────────────────────
+
+if (cliArgs.mode === "usage") {
+  const { readUsage, summarizeUsage } = await import("./usage");
+  const since =
+    cliArgs.sinceMs === undefined ? undefined : Date.now() - cliArgs.sinceMs;
+  const summary = summarizeUsage(readUsage(since), since);
+  if (cliArgs.json) {
+    console.log(JSON.stringify({ success: true, data: summary }, null, 2));
+  } else {
+    const { formatUsageSummary } = await import("./format");
+    console.log(formatUsageSummary(summary));
+  }
+  process.exit(EXIT_SUCCESS);
+}
+
+// ─── Diagnostics ──────────────────────────────────────────────────────────
+
+if (cliArgs.mode === "doctor") {
+  const { runDoctor } = await import("./doctor");
+  const report = await runDoctor();
+  if (cliArgs.json) {
+    console.log(JSON.stringify({ success: true, data: report }, null, 2));
+  } else {
+    const { formatDoctorReport } = await import("./format");
+    console.log(formatDoctorReport(report));
+  }
+  process.exit(report.ok ? EXIT_SUCCESS : EXIT_APP_ERROR);
+}
+
+// ─── Configuration ────────────────────────────────────────────────────────
+
+if (cliArgs.mode === "config") {
+  const [key, value] = cliArgs.configArgs as [string, string];
+  try {
+    if (cliArgs.configCommand === "list") {
+      const listing = listConfig();
+      if (cliArgs.json) {
+        console.log(JSON.stringify({ success: true, data: listing }, null, 2));
+      } else {
+        console.log(`Config:   ${listing.path}`);
+        console.log(`Profile:  ${listing.profile}`);
+        if (listing.profiles.length > 0) {
+          console.log(`Profiles: ${listing.profiles.join(", ")}`);
+        }
+        console.log("");
+        for (const entry of listing.values) {
+          const source = entry.source ? `  (${entry.source})` : "";
+          console.log(
+            `  ${entry.key.padEnd(10)} ${entry.value ?? "-"}${source}`,
+          );
+        }
+      }
+    } else if (cliArgs.configCommand === "get") {
+      if (!isConfigKey(key)) {
+        throw new Error(
+          `Unknown config key: ${key}. Available keys: ${CONFIG_KEYS.join(", ")}`,
+        );
+      }
+      const { value: current } = getConfigValue(key);
+      if (current === undefined) process.exit(EXIT_APP_ERROR);
+      console.log(current);
+    } else {
+      setConfigValue(key, value);
+      const scope =
+        key === "profile" || key === "columns"
+          ? ""
+          : ` (profile ${getActiveProfile()})`;
+      console.log(`Set ${key} = ${value}${scope}`);
+    }
+    process.exit(EXIT_SUCCESS);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(EXIT_USAGE_ERROR);
+  }
+}
+
 // ─── Main Modes (require full env + auth) ─────────────────────────────────
 
-validateEnv();
+checkEnv();
 
 switch (cliArgs.mode) {
   case "single-shot": {
@@ -324,22 +1049,52 @@ switch (cliArgs.mode) {
       cliArgs.detail,
       cliArgs.json,
       cliArgs.debug,
+      {
+        page: cliArgs.page,
+        limit: cliArgs.limit,
+        stream: cliArgs.stream,
+        timeoutMs: cliArgs.timeoutMs,
+        format: cliArgs.format,
+        columns: cliArgs.columns,
+      },
     );
     break;
   }
   case "pipe": {
     const { runPiped } = await import("./programmatic/piped");
-    await runPiped(cliArgs.debug);
+    await runPiped(cliArgs.debug, {
+      stream: cliArgs.stream,
+      timeoutMs: cliArgs.timeoutMs,
+      concurrency: cliArgs.concurrency,
+    });
     break;
   }
   case "serve": {
-    const { startMcpServer } = await import("./mcp/server");
-    await startMcpServer();
+    if (cliArgs.transport === "http") {
+      const { MCP_HTTP_PATH, startMcpHttpServer } =
+        await import("./mcp/server");
+      const server = await startMcpHttpServer({
+        port: cliArgs.port ?? 3000,
+        host: cliArgs.host,
+        allowServerCredentials: cliArgs.allowServerCredentials,
+      });
+      console.error(`MCP server listening on ${server.url}${MCP_HTTP_PATH}`);
+      const shutdown = async () => {
+        console.error("Shutting down MCP server...");
+        await server.close();
+        process.exit(EXIT_SUCCESS);
+      };
+      process.once("SIGINT", shutdown);
+      process.once("SIGTERM", shutdown);
+    } else {
+      const { startMcpServer } = await import("./mcp/server");
+      await startMcpServer();
+    }
     break;
   }
   case "interactive": {
     const { runTUI } = await import("./tui/app");
-    await runTUI();
+    await runTUI({ columns: cliArgs.columns });
     break;
   }
 }
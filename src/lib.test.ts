@@ -3,7 +3,13 @@
  */
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
-import { getDetail as mockGetDetail, query as mockQuery } from "./agent";
+import {
+  fetchPage as mockFetchPage,
+  getDetail as mockGetDetail,
+  loadSession as mockLoadSession,
+  query as mockQuery,
+  queryStream as mockQueryStream,
+} from "./agent";
 import { TalentSearch } from "./lib";
 
 // Mock the agent module before importing lib
@@ -11,6 +17,9 @@ vi.mock("./agent", () => {
   return {
     query: vi.fn(),
     getDetail: vi.fn(),
+    fetchPage: vi.fn(),
+    queryStream: vi.fn(),
+    loadSession: vi.fn(),
   };
 });
 
@@ -154,6 +163,30 @@ describe("TalentSearch", () => {
       expect(mockGetDetail).toHaveBeenCalledWith("sess-1", 2, { debug: true });
     });
 
+    it("passes the abort signal and timeout", async () => {
+      (mockGetDetail as any).mockResolvedValue({
+        result: {
+          type: "detail",
+          session: "sess-1",
+          profile: {} as any,
+          summary: "",
+        },
+        meta: { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
+      });
+      const controller = new AbortController();
+
+      await ts.detail("sess-1", 0, {
+        signal: controller.signal,
+        timeoutMs: 5000,
+      });
+
+      expect(mockGetDetail).toHaveBeenCalledWith("sess-1", 0, {
+        debug: undefined,
+        signal: controller.signal,
+        timeoutMs: 5000,
+      });
+    });
+
     it("throws when result is an error", async () => {
       (mockGetDetail as any).mockResolvedValue({
         result: {
@@ -273,4 +306,140 @@ describe("TalentSearch", () => {
       });
     });
   });
+
+  describe("page", () => {
+    it("fetches the requested page of a session", async () => {
+      (mockFetchPage as any).mockResolvedValue({
+        result: {
+          type: "search",
+          session: "sess-1",
+          query: "test",
+          profiles: [],
+          totalMatches: 30,
+          summary: "",
+          appliedFilters: {},
+          pagination: { page: 2, pageSize: 10, offset: 10, hasMore: true },
+        },
+        meta: { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
+      });
+
+      const response = await ts.page("sess-1", 2, { limit: 10 });
+
+      expect(response.result.pagination?.page).toBe(2);
+      expect(mockFetchPage).toHaveBeenCalledWith("sess-1", 2, {
+        debug: undefined,
+        limit: 10,
+      });
+    });
+
+    it("throws when result is an error", async () => {
+      (mockFetchPage as any).mockResolvedValue({
+        result: {
+          type: "error",
+          session: "sess-1",
+          error: "Page 9 out of range.",
+          code: "INDEX_OUT_OF_RANGE",
+        },
+        meta: { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
+      });
+
+      await expect(ts.page("sess-1", 9)).rejects.toThrow("out of range");
+    });
+
+    it("passes the abort signal and timeout", async () => {
+      (mockFetchPage as any).mockResolvedValue({
+        result: {
+          type: "search",
+          session: "sess-1",
+          query: "test",
+          profiles: [],
+          totalMatches: 30,
+          summary: "",
+          appliedFilters: {},
+          pagination: { page: 2, pageSize: 10, offset: 10, hasMore: true },
+        },
+        meta: { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
+      });
+      const controller = new AbortController();
+
+      await ts.page("sess-1", 2, {
+        signal: controller.signal,
+        timeoutMs: 5000,
+      });
+
+      expect(mockFetchPage).toHaveBeenCalledWith("sess-1", 2, {
+        debug: undefined,
+        limit: undefined,
+        signal: controller.signal,
+        timeoutMs: 5000,
+      });
+    });
+  });
+
+  describe("searchStream", () => {
+    it("passes search options through to queryStream", async () => {
+      (mockQueryStream as any).mockImplementation(async function* () {
+        yield { type: "text-delta", delta: "Hi" };
+      });
+
+      const events = [];
+      for await (const event of ts.searchStream("Find devs", {
+        session: "sess-1",
+        limit: 5,
+      })) {
+        events.push(event);
+      }
+
+      expect(events).toEqual([{ type: "text-delta", delta: "Hi" }]);
+      expect(mockQueryStream).toHaveBeenCalledWith("Find devs", "sess-1", {
+        debug: undefined,
+        page: undefined,
+        limit: 5,
+      });
+    });
+  });
+
+  describe("export", () => {
+    const searchResult = {
+      type: "search" as const,
+      session: "sess-1",
+      query: "Find React devs",
+      profiles: [{ id: "p1", displayName: "Jane Doe", location: "Lisbon" }],
+      totalMatches: 1,
+      summary: "Found 1 developer.",
+      appliedFilters: {},
+    };
+
+    it("exports a result directly", async () => {
+      const csv = await ts.export(searchResult, "csv");
+
+      expect(csv.split("\r\n")[1]).toContain("Jane Doe");
+      expect(mockLoadSession).not.toHaveBeenCalled();
+    });
+
+    it("exports the last result of a session", async () => {
+      (mockLoadSession as any).mockResolvedValue({
+        id: "sess-1",
+        messages: [],
+        lastResult: searchResult,
+      });
+
+      const jsonl = await ts.export("sess-1", "jsonl");
+
+      expect(mockLoadSession).toHaveBeenCalledWith("sess-1");
+      expect(JSON.parse(jsonl).name).toBe("Jane Doe");
+    });
+
+    it("throws when the session has no results", async () => {
+      (mockLoadSession as any).mockResolvedValue({
+        id: "sess-1",
+        messages: [],
+        lastResult: null,
+      });
+
+      await expect(ts.export("sess-1", "csv")).rejects.toThrow(
+        "No search results",
+      );
+    });
+  });
 });
@@ -8,17 +8,36 @@
  *   import { TalentSearch } from "talent-agent";
  *   const ts = new TalentSearch();
  *   const result = await ts.search("Find React developers in Lisbon");
+ *
+ *   for await (const event of ts.searchStream("Find Rust developers")) {
+ *     if (event.type === "text-delta") process.stdout.write(event.delta);
+ *   }
+ *
+ *   const csv = await ts.export(result.result, "csv");
  */
 import {
   type AgentMeta,
   type AgentResult,
   type DetailResult,
   type ErrorResult,
+  type Pagination,
   type ProfileSummary,
+  type QueryStreamEvent,
   type SearchResult,
+  type StreamEvent,
+  fetchPage,
   getDetail,
+  loadSession,
   query,
+  queryStream,
 } from "./agent";
+import { type ExportFormat, exportResult } from "./export";
+import {
+  type LoadSessionOptions,
+  type SessionFile,
+  loadSessionFromFile,
+  saveSessionToFile,
+} from "./sessions/file";
 
 // Re-export types for consumers
 export type {
@@ -27,12 +46,26 @@ export type {
   SearchResult,
   DetailResult,
   ErrorResult,
+  Pagination,
   ProfileSummary,
+  QueryStreamEvent,
+  StreamEvent,
+  LoadSessionOptions,
+  SessionFile,
+  ExportFormat,
 };
 
 export interface SearchOptions {
   session?: string;
   debug?: boolean;
+  /** 1-based page of results to return. */
+  page?: number;
+  /** Profiles per page. */
+  limit?: number;
+  /** Abort the request (rejects/reports with code CANCELLED). */
+  signal?: AbortSignal;
+  /** Give up after this many milliseconds (code TIMEOUT). */
+  timeoutMs?: number;
 }
 
 export interface SearchResponse {
@@ -60,6 +93,10 @@ export class TalentSearch {
   ): Promise<SearchResponse> {
     const { result, meta } = await query(queryText, options?.session, {
       debug: options?.debug,
+      page: options?.page,
+      limit: options?.limit,
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs,
     });
 
     if (result.type === "error") {
@@ -73,16 +110,36 @@ export class TalentSearch {
     return { result, meta };
   }
 
+  /**
+   * Run a talent search query, yielding text deltas and tool steps as they
+   * arrive. The final `done` event carries the same result and meta that
+   * `search()` returns; errors are reported there rather than thrown.
+   */
+  searchStream(
+    queryText: string,
+    options?: SearchOptions,
+  ): AsyncGenerator<QueryStreamEvent> {
+    return queryStream(queryText, options?.session, {
+      debug: options?.debug,
+      page: options?.page,
+      limit: options?.limit,
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs,
+    });
+  }
+
   /**
    * Get detailed profile information by index from a search session.
    */
   async detail(
     session: string,
     index: number,
-    options?: { debug?: boolean },
+    options?: { debug?: boolean; signal?: AbortSignal; timeoutMs?: number },
   ): Promise<DetailResponse> {
     const { result, meta } = await getDetail(session, index, {
       debug: options?.debug,
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs,
     });
 
     if (result.type === "error") {
@@ -103,10 +160,12 @@ export class TalentSearch {
   async refine(
     session: string,
     queryText: string,
-    options?: { debug?: boolean },
+    options?: { debug?: boolean; signal?: AbortSignal; timeoutMs?: number },
   ): Promise<RefineResponse> {
     const { result, meta } = await query(queryText, session, {
       debug: options?.debug,
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs,
     });
 
     if (result.type === "error") {
@@ -119,4 +178,77 @@ export class TalentSearch {
 
     return { result, meta };
   }
+
+  /**
+   * Fetch another page of the last search in a session.
+   * `page` is 1-based; use `result.pagination` to find the current page
+   * (page 1 when it is absent).
+   */
+  async page(
+    session: string,
+    page: number,
+    options?: {
+      debug?: boolean;
+      limit?: number;
+      signal?: AbortSignal;
+      timeoutMs?: number;
+    },
+  ): Promise<SearchResponse> {
+    const { result, meta } = await fetchPage(session, page, {
+      debug: options?.debug,
+      limit: options?.limit,
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs,
+    });
+
+    if (result.type === "error") {
+      throw new Error(result.error);
+    }
+
+    if (result.type !== "search") {
+      throw new Error(`Unexpected result type: ${result.type}`);
+    }
+
+    return { result, meta };
+  }
+
+  /**
+   * Export a search or detail result as csv, tsv, md, jsonl or html.
+   * Pass a session ID instead of a result to export that session's last
+   * result.
+   */
+  async export(
+    source: string | SearchResult | DetailResult,
+    format: ExportFormat,
+  ): Promise<string> {
+    const result =
+      typeof source === "string"
+        ? (await loadSession(source)).lastResult
+        : source;
+
+    if (!result || result.type === "error") {
+      throw new Error("No search results in this session. Run a search first.");
+    }
+
+    return exportResult(result, format);
+  }
+
+  /**
+   * Save a session (messages, last result, server session ID) to a JSON file.
+   */
+  async saveSession(session: string, path: string): Promise<SessionFile> {
+    return saveSessionToFile(session, path);
+  }
+
+  /**
+   * Load a session file so `refine()` and `detail()` can continue it.
+   * Returns the session ID to use (a new one when `register` is set).
+   */
+  async loadSession(
+    path: string,
+    options?: LoadSessionOptions,
+  ): Promise<string> {
+    const session = await loadSessionFromFile(path, options);
+    return session.id;
+  }
 }
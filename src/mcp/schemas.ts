@@ -0,0 +1,155 @@
+/**
+ * Output schemas for the MCP tools.
+ *
+ * Mirror the result types in agent.ts, so clients can validate a tool's
+ * `structuredContent` and render it without parsing the text block.
+ * Profile schemas are lenient: talent-pro may add fields (passed through
+ * unvalidated) or send null for a missing optional one, and neither should
+ * turn a successful search into an output validation error.
+ */
+import { z } from "zod";
+
+// ─── Profiles ───────────────────────────────────────────────────────────────
+
+/** Strings talent-pro sends either joined or as an array. */
+const stringOrList = z.union([z.string(), z.array(z.string())]);
+
+export const profileSummarySchema = z.looseObject({
+  id: z.string(),
+  displayName: z.string().nullish(),
+  name: z.string().nullish(),
+  bio: z.string().nullish(),
+  mainRole: z.string().nullish(),
+  location: z.string().nullish(),
+  tags: z.array(z.string()).nullish(),
+  githubTopLanguages: stringOrList.nullish(),
+  githubTopFrameworks: stringOrList.nullish(),
+  githubExpertiseLevel: z.string().nullish(),
+  githubRecentlyActive: z.boolean().nullish(),
+  linkedinCurrentTitle: z.string().nullish(),
+  linkedinCurrentCompany: z.string().nullish(),
+  linkedinYearsExperience: z.number().nullish(),
+});
+
+export const detailedProfileSchema = z.looseObject({
+  id: z.string(),
+  displayName: z.string().nullable(),
+  name: z.string().nullable(),
+  bio: z.string().nullable(),
+  imageUrl: z.string().nullish(),
+  mainRole: z.string().nullish(),
+  location: z.string().nullable(),
+  humanCheckmark: z.boolean().optional(),
+  openTo: z.string().nullish(),
+  tags: z.array(z.string()),
+  github: z
+    .looseObject({
+      topLanguages: z.string().nullish(),
+      topFrameworks: z.string().nullish(),
+      expertiseLevel: z.string().nullish(),
+      totalContributions: z.number().nullish(),
+      isRecentlyActive: z.boolean().nullish(),
+    })
+    .optional(),
+  workExperience: z
+    .array(
+      z.looseObject({
+        title: z.string(),
+        company: z.string(),
+        durationMonths: z.number(),
+        isCurrent: z.boolean(),
+      }),
+    )
+    .optional(),
+  education: z
+    .array(
+      z.looseObject({
+        degree: z.string(),
+        fieldOfStudy: z.string(),
+        school: z.string(),
+      }),
+    )
+    .optional(),
+  linkedin: z
+    .looseObject({
+      currentTitle: z.string().nullish(),
+      currentCompany: z.string().nullish(),
+      totalYearsExperience: z.number().nullish(),
+    })
+    .optional(),
+});
+
+// ─── Results ────────────────────────────────────────────────────────────────
+
+export const metaSchema = z.object({
+  durationMs: z.number(),
+  tokensUsed: z.number(),
+  toolsCalled: z.array(z.string()),
+  retries: z.number().optional(),
+  inputTokens: z.number().optional(),
+  outputTokens: z.number().optional(),
+  model: z.string().optional(),
+  finishReason: z.string().optional(),
+});
+
+export const paginationSchema = z.object({
+  page: z.number().int().positive(),
+  pageSize: z.number().int().positive(),
+  offset: z.number().int().nonnegative(),
+  hasMore: z.boolean(),
+});
+
+const searchResultShape = {
+  type: z.literal("search"),
+  session: z.string(),
+  query: z.string(),
+  profiles: z.array(profileSummarySchema),
+  totalMatches: z.number(),
+  summary: z.string(),
+  appliedFilters: z.record(z.string(), z.unknown()),
+  pagination: paginationSchema.optional(),
+  meta: metaSchema,
+};
+
+const detailResultShape = {
+  type: z.literal("detail"),
+  session: z.string(),
+  profile: detailedProfileSchema,
+  summary: z.string(),
+  meta: metaSchema,
+};
+
+/** A search or detail result, told apart by `type`. */
+export const agentResultSchema = z.discriminatedUnion("type", [
+  z.object(searchResultShape),
+  z.object(detailResultShape),
+]);
+
+/**
+ * Output of talent_search, talent_refine and talent_next_page: usually a
+ * search, but the agent answers with a detail result when it looks up one
+ * profile (getProfileDetails) during the turn.
+ *
+ * MCP output schemas must be objects, so this is the two shapes merged with
+ * the type-specific fields optional, refined to match exactly one of them.
+ */
+export const searchOutputSchema = z
+  .object({
+    ...searchResultShape,
+    ...detailResultShape,
+    type: z.enum(["search", "detail"]),
+    query: searchResultShape.query.optional(),
+    profiles: searchResultShape.profiles.optional(),
+    totalMatches: searchResultShape.totalMatches.optional(),
+    appliedFilters: searchResultShape.appliedFilters.optional(),
+    profile: detailResultShape.profile.optional(),
+  })
+  .superRefine((value, ctx) => {
+    const parsed = agentResultSchema.safeParse(value);
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) ctx.addIssue({ ...issue });
+    }
+  });
+
+/** Output of talent_detail. */
+export const detailOutputSchema = z.object(detailResultShape);
@@ -0,0 +1,890 @@
+/**
+ * Tests for the MCP server's Streamable HTTP transport.
+ *
+ * Runs the real MCP SDK server and client over a local port with the agent
+ * mocked, to cover per-connection sessions, bearer token passthrough,
+ * resources, prompts, progress, cancellation, health endpoints and
+ * graceful shutdown.
+ */
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { ResourceListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  type SearchResult,
+  _resetSessionStore,
+  fetchRecentSessions,
+  getDetail,
+  getOrCreateSession,
+  getProfile,
+  isTokenAccepted,
+  loadSession,
+  queryStream,
+} from "../agent";
+import { getRequestToken } from "../auth/store";
+import { type McpHttpServer, startMcpHttpServer } from "./server";
+
+let tempHome: string;
+
+vi.mock("node:os", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("node:os")>()),
+  homedir: () => tempHome,
+}));
+
+// The session store and its disk cache are real; talent-pro calls are mocked.
+vi.mock("../agent", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../agent")>()),
+  queryStream: vi.fn(),
+  getDetail: vi.fn(),
+  fetchPage: vi.fn(),
+  loadSession: vi.fn(),
+  fetchRecentSessions: vi.fn(),
+  getProfile: vi.fn(),
+  isTokenAccepted: vi.fn(),
+}));
+
+// ─── Setup ──────────────────────────────────────────────────────────────────
+
+let server: McpHttpServer;
+let clients: Client[];
+
+beforeEach(async () => {
+  tempHome = mkdtempSync(join(tmpdir(), "mcp-http-test-"));
+  clients = [];
+  server = await startMcpHttpServer({ port: 0, shutdownTimeoutMs: 2_000 });
+  vi.mocked(queryStream).mockImplementation(async function* (text, session) {
+    const result: SearchResult = {
+      type: "search",
+      session: session ?? "s1",
+      query: text,
+      profiles: [],
+      totalMatches: 0,
+      summary: `token=${getRequestToken() ?? "none"}`,
+      appliedFilters: {},
+    };
+    const stored = getOrCreateSession(result.session);
+    stored.lastResult = stored.lastSearch = result;
+    yield {
+      type: "done",
+      result,
+      meta: { durationMs: 1, tokensUsed: 0, toolsCalled: [] },
+    };
+  });
+  vi.mocked(fetchRecentSessions).mockResolvedValue([]);
+  vi.mocked(isTokenAccepted).mockResolvedValue(true);
+  vi.mocked(getDetail).mockImplementation(async (session) => ({
+    result: {
+      type: "detail",
+      session,
+      profile: {
+        id: "p1",
+        displayName: "Ada",
+        name: "ada",
+        bio: null,
+        mainRole: "Engineer",
+        location: null,
+        tags: [],
+      },
+      summary: "",
+    },
+    meta: { durationMs: 1, tokensUsed: 0, toolsCalled: [] },
+  }));
+});
+
+afterEach(async () => {
+  await Promise.allSettled(clients.map((c) => c.close()));
+  await server.close();
+  vi.clearAllMocks();
+  _resetSessionStore();
+  rmSync(tempHome, { recursive: true, force: true });
+});
+
+/** Connect a client, with `token` as its Bearer token (none for null). */
+async function connect(token: string | null = "test-token"): Promise<Client> {
+  const client = new Client({ name: "test", version: "1.0.0" });
+  const transport = new StreamableHTTPClientTransport(
+    new URL(`${server.url}/mcp`),
+    token
+      ? { requestInit: { headers: { Authorization: `Bearer ${token}` } } }
+      : undefined,
+  );
+  await client.connect(transport);
+  clients.push(client);
+  return client;
+}
+
+const INIT_HEADERS = {
+  "Content-Type": "application/json",
+  Accept: "application/json, text/event-stream",
+  Authorization: "Bearer test-token",
+};
+
+/** Open an MCP session with a bare initialize request. */
+function initialize(url: string): Promise<Response> {
+  return fetch(`${url}/mcp`, {
+    method: "POST",
+    headers: INIT_HEADERS,
+    body: JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: {
+        protocolVersion: "2025-03-26",
+        capabilities: {},
+        clientInfo: { name: "test", version: "1.0.0" },
+      },
+    }),
+  });
+}
+
+async function callTool(
+  client: Client,
+  name: string,
+  args: Record<string, unknown>,
+) {
+  const result = await client.callTool({ name, arguments: args });
+  const [content] = result.content as Array<{ type: string; text: string }>;
+  return JSON.parse(content!.text);
+}
+
+async function readResource(client: Client, uri: string) {
+  const { contents } = await client.readResource({ uri });
+  return JSON.parse((contents[0] as { text: string }).text);
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+
+describe("startMcpHttpServer", () => {
+  it("serves health and readiness endpoints", async () => {
+    const health = await fetch(`${server.url}/healthz`);
+    expect(health.status).toBe(200);
+    expect(await health.json()).toEqual({ status: "ok" });
+
+    const ready = await fetch(`${server.url}/readyz`);
+    expect(ready.status).toBe(200);
+    expect(await ready.json()).toEqual({ status: "ready", sessions: 0 });
+  });
+
+  it("lists the tools over HTTP", async () => {
+    const client = await connect();
+
+    const { tools } = await client.listTools();
+
+    expect(tools.map((t) => t.name).sort()).toEqual([
+      "talent_detail",
+      "talent_next_page",
+      "talent_refine",
+      "talent_search",
+    ]);
+  });
+
+  it("returns structured content matching each tool's output schema", async () => {
+    const client = await connect();
+    const { tools } = await client.listTools();
+    const search = tools.find((t) => t.name === "talent_search")!;
+
+    expect(search.outputSchema?.properties).toHaveProperty("profiles");
+    expect(search.annotations).toMatchObject({
+      readOnlyHint: true,
+      openWorldHint: true,
+    });
+
+    // The client validates structuredContent against the output schema
+    const result = await client.callTool({
+      name: "talent_search",
+      arguments: { query: "Go devs" },
+    });
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      type: "search",
+      query: "Go devs",
+      meta: { durationMs: 1 },
+    });
+    const detail = await client.callTool({
+      name: "talent_detail",
+      arguments: { session: "s1", index: 0 },
+    });
+    expect(detail.structuredContent).toMatchObject({
+      type: "detail",
+      profile: { displayName: "Ada" },
+    });
+  });
+
+  it("accepts a detail result from a search or refine turn", async () => {
+    // The agent answers with one profile when it calls getProfileDetails
+    vi.mocked(queryStream).mockImplementationOnce(
+      async function* (_text, session) {
+        yield {
+          type: "done",
+          result: {
+            type: "detail",
+            session: session ?? "s1",
+            profile: {
+              id: "p1",
+              displayName: "Ada",
+              name: "ada",
+              bio: null,
+              mainRole: "Engineer",
+              location: null,
+              tags: [],
+            },
+            summary: "Ada is a Go engineer.",
+          },
+          meta: {
+            durationMs: 1,
+            tokensUsed: 0,
+            toolsCalled: ["getProfileDetails"],
+          },
+        };
+      },
+    );
+    const client = await connect();
+
+    const result = await client.callTool({
+      name: "talent_refine",
+      arguments: { session: "s1", query: "Tell me more about the first one" },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      type: "detail",
+      profile: { displayName: "Ada" },
+    });
+  });
+
+  it("still rejects search output that matches neither result shape", async () => {
+    vi.mocked(queryStream).mockImplementationOnce(async function* () {
+      yield {
+        type: "done",
+        result: { type: "search", session: "s1" } as never,
+        meta: { durationMs: 1, tokensUsed: 0, toolsCalled: [] },
+      };
+    });
+    const client = await connect();
+
+    const result = await client.callTool({
+      name: "talent_search",
+      arguments: { query: "Go devs" },
+    });
+
+    expect(result.isError).toBe(true);
+    const [content] = result.content as Array<{ text: string }>;
+    expect(content!.text).toMatch(/Output validation error/);
+  });
+
+  it("returns failures as isError results with an error code", async () => {
+    vi.mocked(getDetail).mockResolvedValueOnce({
+      result: {
+        type: "error",
+        session: "s1",
+        error: "Index 9 is out of range",
+        code: "INDEX_OUT_OF_RANGE",
+      },
+      meta: { durationMs: 1, tokensUsed: 0, toolsCalled: [] },
+    });
+    const client = await connect();
+
+    const result = await client.callTool({
+      name: "talent_detail",
+      arguments: { session: "s1", index: 9 },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+    const [content] = result.content as Array<{ text: string }>;
+    expect(JSON.parse(content!.text)).toMatchObject({
+      code: "INDEX_OUT_OF_RANGE",
+    });
+  });
+
+  it("passes each client's bearer token through to the agent", async () => {
+    const alice = await connect("alice-token");
+    const bob = await connect("bob-token");
+
+    expect(
+      (await callTool(alice, "talent_search", { query: "Go devs" })).summary,
+    ).toBe("token=alice-token");
+    expect(
+      (await callTool(bob, "talent_search", { query: "Go devs" })).summary,
+    ).toBe("token=bob-token");
+  });
+
+  it("rejects requests without a bearer token", async () => {
+    await expect(connect(null)).rejects.toThrow();
+
+    const response = await fetch(`${server.url}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    expect(response.status).toBe(401);
+    expect(response.headers.get("www-authenticate")).toMatch(/^Bearer/);
+    expect(queryStream).not.toHaveBeenCalled();
+  });
+
+  it("uses the server's own credentials only when allowed", async () => {
+    await server.close();
+    server = await startMcpHttpServer({
+      port: 0,
+      allowServerCredentials: true,
+    });
+    const anonymous = await connect(null);
+
+    expect(
+      (await callTool(anonymous, "talent_search", { query: "Go devs" }))
+        .summary,
+    ).toBe("token=none");
+  });
+
+  it("looks up several profiles from one search", async () => {
+    const actual = await vi.importActual<typeof import("../agent")>("../agent");
+    vi.mocked(getDetail).mockImplementation(actual.getDetail);
+    const realFetch = globalThis.fetch;
+    const fetchSpy = vi
+      .spyOn(globalThis, "fetch")
+      .mockImplementation(async (input, init) => {
+        const url = input instanceof Request ? input.url : String(input);
+        if (url.startsWith(server.url)) return realFetch(input, init);
+        const id = url.match(/\/api\/profile\/([^/]+)\/detail/)?.[1] ?? "";
+        return Response.json({
+          profile: {
+            id,
+            displayName: id,
+            name: id,
+            bio: null,
+            location: null,
+            tags: [],
+          },
+        });
+      });
+    try {
+      const client = await connect();
+      await callTool(client, "talent_search", { query: "Go devs" });
+      getOrCreateSession("s1").lastSearch!.profiles = [
+        { id: "p1" },
+        { id: "p2" },
+      ];
+
+      const first = await callTool(client, "talent_detail", {
+        session: "s1",
+        index: 0,
+      });
+      const second = await callTool(client, "talent_detail", {
+        session: "s1",
+        index: 1,
+      });
+
+      expect(first).toMatchObject({ type: "detail", profile: { id: "p1" } });
+      expect(second).toMatchObject({ type: "detail", profile: { id: "p2" } });
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  it("keeps talent-agent sessions private to their connection", async () => {
+    const alice = await connect("alice-token");
+    const bob = await connect("bob-token");
+
+    await callTool(alice, "talent_search", { query: "Go devs" });
+    const stolen = await callTool(bob, "talent_detail", {
+      session: "s1",
+      index: 0,
+    });
+    const own = await callTool(alice, "talent_detail", {
+      session: "s1",
+      index: 0,
+    });
+
+    expect(stolen).toMatchObject({ type: "error", code: "SESSION_NOT_FOUND" });
+    expect(own.type).toBe("detail");
+    expect(getDetail).toHaveBeenCalledTimes(1);
+  });
+
+  it("lets a client reconnecting with the same token keep its sessions", async () => {
+    const first = await connect("alice-token");
+    await callTool(first, "talent_search", { query: "Go devs" });
+    await first.close();
+
+    const again = await connect("alice-token");
+    const detail = await callTool(again, "talent_detail", {
+      session: "s1",
+      index: 0,
+    });
+
+    expect(detail.type).toBe("detail");
+  });
+
+  it("keeps sessions private to their token across restarts", async () => {
+    const alice = await connect("alice-token");
+    await callTool(alice, "talent_search", { query: "Go devs" });
+    await server.close();
+    _resetSessionStore();
+    server = await startMcpHttpServer({ port: 0, shutdownTimeoutMs: 2_000 });
+
+    const bob = await connect("bob-token");
+    const stolen = await callTool(bob, "talent_detail", {
+      session: "s1",
+      index: 0,
+    });
+    const aliceAgain = await connect("alice-token");
+    const own = await callTool(aliceAgain, "talent_detail", {
+      session: "s1",
+      index: 0,
+    });
+
+    expect(stolen).toMatchObject({ type: "error", code: "SESSION_NOT_FOUND" });
+    expect(own.type).toBe("detail");
+  });
+
+  it("keeps sessions with the user of a refreshed token", async () => {
+    const jwt = (claims: object) =>
+      `h.${Buffer.from(JSON.stringify(claims)).toString("base64url")}.s`;
+    const first = await connect(jwt({ sub: "u1", exp: 1000 }));
+    await callTool(first, "talent_search", { query: "Go devs" });
+
+    const refreshed = await connect(jwt({ sub: "u1", exp: 2000 }));
+    const own = await callTool(refreshed, "talent_detail", {
+      session: "s1",
+      index: 0,
+    });
+    vi.mocked(isTokenAccepted).mockResolvedValue(false);
+    const forged = await connect(jwt({ sub: "u1", exp: 3000 }));
+    const stolen = await callTool(forged, "talent_detail", {
+      session: "s1",
+      index: 0,
+    });
+
+    expect(own.type).toBe("detail");
+    expect(stolen).toMatchObject({ type: "error", code: "SESSION_NOT_FOUND" });
+  });
+
+  it("keeps sessions from the local login private from token clients", async () => {
+    getOrCreateSession("local").lastResult = {
+      type: "search",
+      session: "local",
+      query: "Go devs",
+      profiles: [],
+      totalMatches: 0,
+      summary: "",
+      appliedFilters: {},
+    };
+    const client = await connect();
+
+    const stolen = await callTool(client, "talent_detail", {
+      session: "local",
+      index: 0,
+    });
+
+    expect(stolen).toMatchObject({ type: "error", code: "SESSION_NOT_FOUND" });
+  });
+
+  it("tracks one MCP session per client", async () => {
+    await connect();
+    await connect();
+
+    const ready = await fetch(`${server.url}/readyz`);
+    expect((await ready.json()).sessions).toBe(2);
+  });
+
+  it("closes MCP sessions that stay idle", async () => {
+    const idle = await startMcpHttpServer({
+      port: 0,
+      sessionIdleTimeoutMs: 50,
+    });
+    try {
+      const response = await initialize(idle.url);
+      await response.text();
+      const sessionId = response.headers.get("mcp-session-id")!;
+      const open = await fetch(`${idle.url}/readyz`);
+      expect((await open.json()).sessions).toBe(1);
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      const ready = await fetch(`${idle.url}/readyz`);
+      expect((await ready.json()).sessions).toBe(0);
+      const expired = await fetch(`${idle.url}/mcp`, {
+        method: "POST",
+        headers: { ...INIT_HEADERS, "Mcp-Session-Id": sessionId },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+      });
+      expect(expired.status).toBe(404);
+    } finally {
+      await idle.close();
+    }
+  });
+
+  it("refuses new MCP sessions beyond the maximum", async () => {
+    const full = await startMcpHttpServer({ port: 0, maxSessions: 1 });
+    try {
+      const first = await initialize(full.url);
+      await first.text();
+      const second = await initialize(full.url);
+
+      expect(first.status).toBe(200);
+      expect(second.status).toBe(503);
+      expect((await second.json()).error.message).toBe(
+        "Too many open MCP sessions",
+      );
+    } finally {
+      await full.close();
+    }
+  });
+
+  it("rejects unknown sessions and requests without one", async () => {
+    const headers = {
+      "Content-Type": "application/json",
+      Authorization: "Bearer test-token",
+    };
+    const unknown = await fetch(`${server.url}/mcp`, {
+      method: "POST",
+      headers: { ...headers, "Mcp-Session-Id": "nope" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    expect(unknown.status).toBe(404);
+
+    const missing = await fetch(`${server.url}/mcp`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    expect(missing.status).toBe(400);
+
+    const invalid = await fetch(`${server.url}/mcp`, {
+      method: "POST",
+      headers,
+      body: "{",
+    });
+    expect(invalid.status).toBe(400);
+
+    expect((await fetch(`${server.url}/other`)).status).toBe(404);
+  });
+
+  it("finishes in-flight tool calls before shutting down", async () => {
+    const client = await connect();
+    let finish!: () => void;
+    vi.mocked(queryStream).mockImplementationOnce(async function* (text) {
+      await new Promise<void>((resolve) => (finish = resolve));
+      yield {
+        type: "done",
+        result: {
+          type: "search",
+          session: "slow",
+          query: text,
+          profiles: [],
+          totalMatches: 0,
+          summary: "done",
+          appliedFilters: {},
+        },
+        meta: { durationMs: 1, tokensUsed: 0, toolsCalled: [] },
+      };
+    });
+
+    const call = callTool(client, "talent_search", { query: "slow" });
+    await vi.waitFor(() => expect(queryStream).toHaveBeenCalled());
+    const closed = server.close();
+    finish();
+
+    expect((await call).summary).toBe("done");
+    await closed;
+    await expect(fetch(`${server.url}/healthz`)).rejects.toThrow();
+  });
+});
+
+describe("progress and cancellation", () => {
+  it("reports the agent's tool calls as progress notifications", async () => {
+    vi.mocked(queryStream).mockImplementationOnce(async function* (text) {
+      yield {
+        type: "tool-call",
+        toolCallId: "tc-1",
+        toolName: "searchProfiles",
+        args: {},
+      };
+      yield {
+        type: "tool-result",
+        toolCallId: "tc-1",
+        toolName: "searchProfiles",
+        result: {},
+      };
+      yield {
+        type: "done",
+        result: {
+          type: "search",
+          session: "s1",
+          query: text,
+          profiles: [],
+          totalMatches: 0,
+          summary: "",
+          appliedFilters: {},
+        },
+        meta: { durationMs: 1, tokensUsed: 0, toolsCalled: [] },
+      };
+    });
+    const client = await connect();
+    const messages: Array<string | undefined> = [];
+
+    await client.callTool(
+      { name: "talent_search", arguments: { query: "Go devs" } },
+      undefined,
+      { onprogress: (progress) => messages.push(progress.message) },
+    );
+
+    expect(messages).toEqual([
+      "Sending query to the talent agent…",
+      "Searching profiles…",
+      "Searching profiles: done",
+    ]);
+  });
+
+  it("aborts the search when the client cancels the request", async () => {
+    let aborted!: () => void;
+    const abortSeen = new Promise<void>((resolve) => (aborted = resolve));
+    vi.mocked(queryStream).mockImplementationOnce(
+      async function* (_text, _session, options) {
+        await new Promise<void>((resolve) =>
+          options!.signal!.addEventListener("abort", () => resolve()),
+        );
+        aborted();
+        yield {
+          type: "done",
+          result: {
+            type: "error",
+            session: "s1",
+            error: "Request was cancelled.",
+            code: "CANCELLED",
+          },
+          meta: { durationMs: 1, tokensUsed: 0, toolsCalled: [] },
+        };
+      },
+    );
+    const client = await connect();
+    const controller = new AbortController();
+
+    const call = client.callTool(
+      { name: "talent_search", arguments: { query: "everyone" } },
+      undefined,
+      { signal: controller.signal },
+    );
+    await vi.waitFor(() => expect(queryStream).toHaveBeenCalled());
+    controller.abort("user stopped");
+
+    await expect(call).rejects.toThrow();
+    await abortSeen;
+  });
+});
+
+describe("MCP resources", () => {
+  it("lists the account's recent sessions with the token of the client", async () => {
+    vi.mocked(fetchRecentSessions).mockImplementation(async () =>
+      getRequestToken() === "alice-token"
+        ? [
+            {
+              sessionId: "42",
+              title: "Rust devs",
+              updatedAt: new Date("2026-01-02T00:00:00Z"),
+            },
+          ]
+        : [],
+    );
+    const alice = await connect("alice-token");
+
+    expect(await readResource(alice, "talent://sessions")).toEqual([
+      {
+        uri: "talent://sessions/42",
+        id: "42",
+        title: "Rust devs",
+        updatedAt: "2026-01-02T00:00:00.000Z",
+      },
+    ]);
+    const { resources } = await alice.listResources();
+    expect(resources.map((r) => r.uri)).toEqual([
+      "talent://sessions",
+      "talent://sessions/42",
+    ]);
+  });
+
+  it("lists the resource templates", async () => {
+    const client = await connect();
+
+    const { resourceTemplates } = await client.listResourceTemplates();
+
+    expect(resourceTemplates.map((t) => t.uriTemplate)).toEqual([
+      "talent://sessions/{id}",
+      "talent://profiles/{id}",
+    ]);
+  });
+
+  it("reads a session's transcript and last result", async () => {
+    const lastResult = {
+      type: "search" as const,
+      session: "42",
+      query: "Rust devs",
+      profiles: [],
+      totalMatches: 0,
+      summary: "",
+      appliedFilters: {},
+    };
+    vi.mocked(loadSession).mockResolvedValue({
+      id: "42",
+      messages: [{ role: "user", content: "Rust devs" }],
+      lastResult,
+    } as never);
+    const client = await connect();
+
+    expect(await readResource(client, "talent://sessions/42")).toEqual({
+      id: "42",
+      messages: [{ role: "user", content: "Rust devs" }],
+      lastResult,
+    });
+    expect(loadSession).toHaveBeenCalledWith("42");
+  });
+
+  it("keeps session resources private to their connection", async () => {
+    const alice = await connect("alice-token");
+    const bob = await connect("bob-token");
+    await callTool(alice, "talent_search", { query: "Go devs" });
+
+    await expect(
+      bob.readResource({ uri: "talent://sessions/s1" }),
+    ).rejects.toThrow(/another client/);
+    expect(loadSession).not.toHaveBeenCalled();
+  });
+
+  it("reads a profile's details", async () => {
+    vi.mocked(getProfile).mockResolvedValue({
+      id: "p1",
+      name: "Ada",
+    } as never);
+    const client = await connect();
+
+    expect(await readResource(client, "talent://profiles/p1")).toEqual({
+      id: "p1",
+      name: "Ada",
+    });
+    expect(getProfile).toHaveBeenCalledWith("p1", {
+      signal: expect.any(AbortSignal),
+    });
+  });
+
+  it("lists profiles from the connection's searches", async () => {
+    const client = await connect();
+    await callTool(client, "talent_search", { query: "Go devs" });
+    (getOrCreateSession("s1").lastResult as SearchResult).profiles = [
+      { id: "p1", displayName: "Ada", name: "ada" },
+    ] as never;
+
+    const { resources } = await client.listResources();
+
+    expect(resources.map((r) => [r.uri, r.name])).toEqual([
+      ["talent://sessions", "sessions"],
+      ["talent://sessions/s1", "Go devs"],
+      ["talent://profiles/p1", "Ada"],
+    ]);
+  });
+
+  it("sends list_changed after a search", async () => {
+    const client = await connect();
+    let notified!: () => void;
+    const changed = new Promise<void>((resolve) => (notified = resolve));
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () =>
+      notified(),
+    );
+
+    await callTool(client, "talent_search", { query: "Go devs" });
+
+    await changed;
+  });
+});
+
+describe("MCP prompts", () => {
+  async function getPromptText(
+    client: Client,
+    name: string,
+    args: Record<string, string>,
+  ) {
+    const { messages } = await client.getPrompt({ name, arguments: args });
+    return (messages[0]!.content as { text: string }).text;
+  }
+
+  it("lists the recruiting prompts and their arguments", async () => {
+    const client = await connect();
+
+    const { prompts } = await client.listPrompts();
+
+    expect(
+      prompts.map((p) => [p.name, p.arguments?.map((a) => a.name)]),
+    ).toEqual([
+      ["find_candidates_for_role", ["role", "location", "seniority"]],
+      ["compare_candidates", ["session", "indices"]],
+      ["summarize_top_candidates", ["session", "n"]],
+    ]);
+  });
+
+  it("expands find_candidates_for_role into a search and detail calls", async () => {
+    const client = await connect();
+
+    const text = await getPromptText(client, "find_candidates_for_role", {
+      role: "Rust developer",
+      location: "Berlin",
+      seniority: "senior",
+    });
+
+    expect(text).toContain(
+      'Call talent_search with the query "Find senior Rust developer in Berlin"',
+    );
+    expect(text).toContain("talent_detail");
+    expect(
+      await getPromptText(client, "find_candidates_for_role", { role: "SRE" }),
+    ).toContain('"Find SRE"');
+  });
+
+  it("expands compare_candidates into one detail call per index", async () => {
+    const client = await connect();
+
+    const text = await getPromptText(client, "compare_candidates", {
+      session: "s1",
+      indices: "0, 2,2 ,5",
+    });
+
+    expect(text).toContain(
+      'Call talent_detail with session "s1" once for each index: 0, 2, 5.',
+    );
+    await expect(
+      client.getPrompt({
+        name: "compare_candidates",
+        arguments: { session: "s1", indices: "first" },
+      }),
+    ).rejects.toThrow(/comma-separated/);
+  });
+
+  it("caps summarize_top_candidates and defaults to five", async () => {
+    const client = await connect();
+
+    expect(
+      await getPromptText(client, "summarize_top_candidates", {
+        session: "s1",
+      }),
+    ).toContain("for each index from 0 to 4");
+    expect(
+      await getPromptText(client, "summarize_top_candidates", {
+        session: "s1",
+        n: "50",
+      }),
+    ).toContain("for each index from 0 to 9");
+  });
+
+  it("completes session IDs from the connection's sessions", async () => {
+    const client = await connect();
+    await callTool(client, "talent_search", { query: "Go devs" });
+
+    const { completion } = await client.complete({
+      ref: { type: "ref/prompt", name: "compare_candidates" },
+      argument: { name: "session", value: "" },
+    });
+
+    expect(completion.values).toEqual(["s1"]);
+  });
+});
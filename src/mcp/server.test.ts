@@ -6,25 +6,51 @@
  */
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
-import { getDetail, query } from "../agent";
+import {
+  type AgentMeta,
+  type AgentResult,
+  fetchPage,
+  findSession,
+  getDetail,
+  queryStream,
+} from "../agent";
 
 // Mock the agent module
-vi.mock("../agent", () => ({
-  query: vi.fn(),
+vi.mock("../agent", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../agent")>()),
+  queryStream: vi.fn(),
   getDetail: vi.fn(),
+  fetchPage: vi.fn(),
+  findSession: vi.fn(),
+  claimSessionOwner: vi.fn(),
+  loadSession: vi.fn(),
+  fetchRecentSessions: vi.fn(),
+  getProfile: vi.fn(),
 }));
 
 // Mock the MCP SDK with class constructors
-const mockTool = vi.fn();
+const mockRegisterTool = vi.fn();
+const mockRegisterResource = vi.fn();
+const mockRegisterPrompt = vi.fn();
+const mockSendResourceListChanged = vi.fn();
 const mockConnect = vi.fn();
 
 vi.mock("@modelcontextprotocol/sdk/server/mcp.js", () => {
   class McpServer {
-    tool = mockTool;
+    registerTool = mockRegisterTool;
+    registerResource = mockRegisterResource;
+    registerPrompt = mockRegisterPrompt;
+    sendResourceListChanged = mockSendResourceListChanged;
     connect = mockConnect;
     constructor(_opts: any) {}
   }
-  return { McpServer };
+  class ResourceTemplate {
+    constructor(
+      public uriTemplate: string,
+      public callbacks: unknown,
+    ) {}
+  }
+  return { McpServer, ResourceTemplate };
 });
 
 vi.mock("@modelcontextprotocol/sdk/server/stdio.js", () => {
@@ -32,6 +58,18 @@ vi.mock("@modelcontextprotocol/sdk/server/stdio.js", () => {
   return { StdioServerTransport };
 });
 
+/** Make the next search (or every search) finish with `response`. */
+function mockSearch(
+  response: { result: AgentResult; meta: AgentMeta },
+  once = false,
+) {
+  const impl = async function* () {
+    yield { type: "done" as const, ...response };
+  };
+  if (once) vi.mocked(queryStream).mockImplementationOnce(impl);
+  else vi.mocked(queryStream).mockImplementation(impl);
+}
+
 describe("startMcpServer", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -41,34 +79,130 @@ describe("startMcpServer", () => {
     vi.restoreAllMocks();
   });
 
-  it("registers three tools and connects transport", async () => {
+  it("registers four tools and connects transport", async () => {
     const { startMcpServer } = await import("./server");
     await startMcpServer();
 
-    // Should register 3 tools: talent_search, talent_detail, talent_refine
-    expect(mockTool).toHaveBeenCalledTimes(3);
+    // Should register 4 tools: talent_search, talent_detail, talent_refine, talent_next_page
+    expect(mockRegisterTool).toHaveBeenCalledTimes(4);
     expect(mockConnect).toHaveBeenCalledTimes(1);
 
     // Check tool names
-    const toolNames = mockTool.mock.calls.map((call: unknown[]) => call[0]);
+    const toolNames = mockRegisterTool.mock.calls.map(
+      (call: unknown[]) => call[0],
+    );
     expect(toolNames).toContain("talent_search");
     expect(toolNames).toContain("talent_detail");
     expect(toolNames).toContain("talent_refine");
+    expect(toolNames).toContain("talent_next_page");
+  });
+
+  it("registers the session and profile resources", async () => {
+    const { startMcpServer } = await import("./server");
+    await startMcpServer();
+
+    const uris = mockRegisterResource.mock.calls.map((call: unknown[]) =>
+      typeof call[1] === "string"
+        ? call[1]
+        : (call[1] as { uriTemplate: string }).uriTemplate,
+    );
+    expect(uris).toEqual([
+      "talent://sessions",
+      "talent://sessions/{id}",
+      "talent://profiles/{id}",
+    ]);
+  });
+
+  it("registers the recruiting prompts", async () => {
+    const { startMcpServer } = await import("./server");
+    await startMcpServer();
+
+    const names = mockRegisterPrompt.mock.calls.map(
+      (call: unknown[]) => call[0],
+    );
+    expect(names).toEqual([
+      "find_candidates_for_role",
+      "compare_candidates",
+      "summarize_top_candidates",
+    ]);
+  });
+
+  it("notifies clients when a search updates a session", async () => {
+    const { startMcpServer } = await import("./server");
+    await startMcpServer();
+    const handler = mockRegisterTool.mock.calls.find(
+      (call: unknown[]) => call[0] === "talent_search",
+    )![2];
+
+    mockSearch(
+      {
+        result: {
+          type: "error",
+          session: "s1",
+          code: "UNKNOWN_ERROR",
+          error: "failed",
+        },
+        meta: { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
+      },
+      true,
+    );
+    await handler({ query: "Find devs" });
+    expect(mockSendResourceListChanged).not.toHaveBeenCalled();
+
+    mockSearch(
+      {
+        result: {
+          type: "search",
+          session: "s1",
+          query: "Find devs",
+          profiles: [],
+          totalMatches: 0,
+          summary: "",
+          appliedFilters: {},
+        },
+        meta: { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
+      },
+      true,
+    );
+    await handler({ query: "Find devs" });
+    expect(mockSendResourceListChanged).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns failures as isError results with an error code", async () => {
+    const { startMcpServer } = await import("./server");
+    await startMcpServer();
+    const handler = mockRegisterTool.mock.calls.find(
+      (call: unknown[]) => call[0] === "talent_detail",
+    )![2];
+
+    (getDetail as any).mockResolvedValueOnce({
+      result: { type: "error", session: "s1", error: "No results" },
+      meta: { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
+    });
+    const result = await handler({ session: "s1", index: 0 });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+    expect(JSON.parse(result.content[0].text)).toMatchObject({
+      type: "error",
+      error: "No results",
+      code: "UNKNOWN_ERROR",
+    });
   });
 
-  it("talent_search tool calls query and returns JSON content", async () => {
+  it("talent_search tool runs the query and returns JSON content", async () => {
     const { startMcpServer } = await import("./server");
     await startMcpServer();
 
     // Find the talent_search handler
-    const searchCall = mockTool.mock.calls.find(
+    const searchCall = mockRegisterTool.mock.calls.find(
       (call: unknown[]) => call[0] === "talent_search",
     );
     expect(searchCall).toBeDefined();
 
-    const handler = searchCall![3]; // 4th argument is the handler
+    const handler = searchCall![2]; // 3rd argument is the handler
 
-    (query as any).mockResolvedValue({
+    mockSearch({
       result: {
         type: "search",
         session: "s1",
@@ -87,25 +221,27 @@ describe("startMcpServer", () => {
 
     const result = await handler({ query: "Find devs", session: undefined });
 
-    expect(query).toHaveBeenCalledWith("Find devs", undefined);
+    expect(queryStream).toHaveBeenCalledWith("Find devs", undefined, {});
     expect(result.content).toHaveLength(1);
     expect(result.content[0].type).toBe("text");
 
     const parsed = JSON.parse(result.content[0].text);
     expect(parsed.type).toBe("search");
     expect(parsed.meta.durationMs).toBe(100);
+    expect(result.structuredContent).toEqual(parsed);
+    expect(result.isError).toBeUndefined();
   });
 
   it("talent_search tool passes session ID", async () => {
     const { startMcpServer } = await import("./server");
     await startMcpServer();
 
-    const searchCall = mockTool.mock.calls.find(
+    const searchCall = mockRegisterTool.mock.calls.find(
       (call: unknown[]) => call[0] === "talent_search",
     );
-    const handler = searchCall![3];
+    const handler = searchCall![2];
 
-    (query as any).mockResolvedValue({
+    mockSearch({
       result: {
         type: "search",
         session: "my-session",
@@ -120,19 +256,19 @@ describe("startMcpServer", () => {
 
     await handler({ query: "Find devs", session: "my-session" });
 
-    expect(query).toHaveBeenCalledWith("Find devs", "my-session");
+    expect(queryStream).toHaveBeenCalledWith("Find devs", "my-session", {});
   });
 
   it("talent_detail tool calls getDetail and returns JSON content", async () => {
     const { startMcpServer } = await import("./server");
     await startMcpServer();
 
-    const detailCall = mockTool.mock.calls.find(
+    const detailCall = mockRegisterTool.mock.calls.find(
       (call: unknown[]) => call[0] === "talent_detail",
     );
     expect(detailCall).toBeDefined();
 
-    const handler = detailCall![3];
+    const handler = detailCall![2];
 
     (getDetail as any).mockResolvedValue({
       result: {
@@ -150,7 +286,7 @@ describe("startMcpServer", () => {
 
     const result = await handler({ session: "s1", index: 0 });
 
-    expect(getDetail).toHaveBeenCalledWith("s1", 0);
+    expect(getDetail).toHaveBeenCalledWith("s1", 0, {});
     expect(result.content).toHaveLength(1);
 
     const parsed = JSON.parse(result.content[0].text);
@@ -158,18 +294,18 @@ describe("startMcpServer", () => {
     expect(parsed.profile.displayName).toBe("Jane Doe");
   });
 
-  it("talent_refine tool calls query with session and returns results", async () => {
+  it("talent_refine tool queries the session and returns results", async () => {
     const { startMcpServer } = await import("./server");
     await startMcpServer();
 
-    const refineCall = mockTool.mock.calls.find(
+    const refineCall = mockRegisterTool.mock.calls.find(
       (call: unknown[]) => call[0] === "talent_refine",
     );
     expect(refineCall).toBeDefined();
 
-    const handler = refineCall![3];
+    const handler = refineCall![2];
 
-    (query as any).mockResolvedValue({
+    mockSearch({
       result: {
         type: "search",
         session: "s1",
@@ -188,7 +324,7 @@ describe("startMcpServer", () => {
 
     const result = await handler({ session: "s1", query: "Only seniors" });
 
-    expect(query).toHaveBeenCalledWith("Only seniors", "s1");
+    expect(queryStream).toHaveBeenCalledWith("Only seniors", "s1", {});
     expect(result.content).toHaveLength(1);
 
     const parsed = JSON.parse(result.content[0].text);
@@ -196,14 +332,152 @@ describe("startMcpServer", () => {
     expect(parsed.totalMatches).toBe(5);
   });
 
+  it("talent_next_page tool fetches the page after the current one", async () => {
+    const { startMcpServer } = await import("./server");
+    await startMcpServer();
+
+    const pageCall = mockRegisterTool.mock.calls.find(
+      (call: unknown[]) => call[0] === "talent_next_page",
+    );
+    expect(pageCall).toBeDefined();
+
+    const handler = pageCall![2];
+
+    (findSession as any).mockReturnValue({
+      id: "s1",
+      messages: [],
+      lastResult: {
+        type: "search",
+        session: "s1",
+        query: "Find devs",
+        profiles: [],
+        totalMatches: 30,
+        summary: "",
+        appliedFilters: {},
+        pagination: { page: 2, pageSize: 10, offset: 10, hasMore: true },
+      },
+    });
+    (fetchPage as any).mockResolvedValue({
+      result: {
+        type: "search",
+        session: "s1",
+        query: "Find devs",
+        profiles: [],
+        totalMatches: 30,
+        summary: "",
+        appliedFilters: {},
+        pagination: { page: 3, pageSize: 10, offset: 20, hasMore: false },
+      },
+      meta: { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
+    });
+
+    const result = await handler({ session: "s1" });
+
+    expect(fetchPage).toHaveBeenCalledWith("s1", 3, { limit: undefined });
+    const parsed = JSON.parse(result.content[0].text);
+    expect(parsed.pagination.page).toBe(3);
+  });
+
+  it("reports the agent's tool calls as progress", async () => {
+    const { startMcpServer } = await import("./server");
+    await startMcpServer();
+    const handler = mockRegisterTool.mock.calls.find(
+      (call: unknown[]) => call[0] === "talent_search",
+    )![2];
+    vi.mocked(queryStream).mockImplementation(async function* () {
+      yield { type: "text-delta", delta: "Looking" };
+      yield {
+        type: "tool-call",
+        toolCallId: "tc-1",
+        toolName: "searchProfiles",
+        args: {},
+      };
+      yield {
+        type: "tool-result",
+        toolCallId: "tc-1",
+        toolName: "searchProfiles",
+        result: {},
+      };
+      yield {
+        type: "done",
+        result: { type: "error", session: "s1", error: "x" },
+        meta: { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
+      };
+    });
+    const sendNotification = vi.fn().mockResolvedValue(undefined);
+
+    await handler(
+      { query: "Find devs" },
+      { _meta: { progressToken: "t1" }, sendNotification },
+    );
+
+    expect(sendNotification.mock.calls.map(([n]) => n.params)).toEqual([
+      {
+        progressToken: "t1",
+        progress: 1,
+        message: "Sending query to the talent agent…",
+      },
+      { progressToken: "t1", progress: 2, message: "Searching profiles…" },
+      { progressToken: "t1", progress: 3, message: "Searching profiles: done" },
+    ]);
+  });
+
+  it("sends no progress without a progress token", async () => {
+    const { startMcpServer } = await import("./server");
+    await startMcpServer();
+    const handler = mockRegisterTool.mock.calls.find(
+      (call: unknown[]) => call[0] === "talent_detail",
+    )![2];
+    (getDetail as any).mockResolvedValue({
+      result: { type: "error", session: "s1", error: "x" },
+      meta: { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
+    });
+    const sendNotification = vi.fn();
+
+    await handler({ session: "s1", index: 0 }, { sendNotification });
+
+    expect(sendNotification).not.toHaveBeenCalled();
+  });
+
+  it("passes the request's abort signal to the agent", async () => {
+    const { startMcpServer } = await import("./server");
+    await startMcpServer();
+    const handler = mockRegisterTool.mock.calls.find(
+      (call: unknown[]) => call[0] === "talent_refine",
+    )![2];
+    mockSearch({
+      result: { type: "error", session: "s1", error: "x" },
+      meta: { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
+    });
+    const signal = new AbortController().signal;
+
+    await handler({ session: "s1", query: "Only seniors" }, { signal });
+
+    expect(queryStream).toHaveBeenCalledWith("Only seniors", "s1", { signal });
+  });
+
   it("tool descriptions are meaningful", async () => {
     const { startMcpServer } = await import("./server");
     await startMcpServer();
 
-    for (const call of mockTool.mock.calls) {
-      const [name, description] = call as [string, string];
+    for (const call of mockRegisterTool.mock.calls) {
+      const [, { description }] = call as [string, { description: string }];
       expect(description).toBeTruthy();
       expect(description.length).toBeGreaterThan(10);
     }
   });
+
+  it("declares output schemas and read-only annotations", async () => {
+    const { startMcpServer } = await import("./server");
+    await startMcpServer();
+
+    for (const call of mockRegisterTool.mock.calls) {
+      const [, config] = call as [string, Record<string, any>];
+      expect(config.outputSchema.type).toBeDefined();
+      expect(config.annotations).toMatchObject({
+        readOnlyHint: true,
+        openWorldHint: true,
+      });
+    }
+  });
 });
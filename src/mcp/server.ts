@@ -1,21 +1,312 @@
 /**
  * MCP (Model Context Protocol) server for talent-agent.
  *
- * Exposes talent-agent as an MCP server over stdio transport, making it
- * natively usable by Claude, Cursor, Gemini CLI, GitHub Copilot, etc.
+ * Exposes talent-agent as an MCP server, making it natively usable by
+ * Claude, Cursor, Gemini CLI, GitHub Copilot, etc. Two transports:
  *
- * Tools:
+ *   - stdio (`--serve`): one client per process.
+ *   - Streamable HTTP (`--serve --transport http`): many clients per
+ *     process, see startMcpHttpServer().
+ *
+ * Tools (results as `structuredContent` matching each tool's output schema,
+ * failures as `isError` results carrying an ErrorCode):
  *   - talent_search: Search for talent profiles
  *   - talent_detail: Get detailed profile information
  *   - talent_refine: Refine an existing search
+ *   - talent_next_page: Fetch the next page of the last search
+ *
+ * Resources (readable as context without a tool call):
+ *   - talent://sessions: Recent search sessions
+ *   - talent://sessions/{id}: A session's transcript and last result
+ *   - talent://profiles/{id}: A profile's full details
+ *
+ * Searches report `notifications/progress` as the agent calls its tools
+ * (when the client sends a progress token), and a cancelled request aborts
+ * the underlying talent-pro requests.
+ *
+ * The resource list changes whenever a tool call updates a session, and
+ * clients are told so with `notifications/resources/list_changed`.
+ *
+ * Prompts (recruiting workflows for the client's prompt picker, each
+ * expanding into a sequence of tool calls):
+ *   - find_candidates_for_role: Search for a role and shortlist matches
+ *   - compare_candidates: Compare profiles from a search side by side
+ *   - summarize_top_candidates: Summarize the top results of a search
  */
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import {
+  McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import {
+  type CallToolResult,
+  type ProgressToken,
+  type ServerNotification,
+  type ToolAnnotations,
+  isInitializeRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { createHash, randomUUID } from "node:crypto";
+import {
+  type IncomingMessage,
+  type ServerResponse,
+  createServer,
+} from "node:http";
 import { z } from "zod";
 
-import { getDetail, query } from "../agent";
+import {
+  type AgentMeta,
+  type AgentResult,
+  type QueryOptions,
+  type StreamEvent,
+  claimSessionOwner,
+  fetchPage,
+  fetchRecentSessions,
+  findSession,
+  getDetail,
+  getProfile,
+  isTokenAccepted,
+  lastSearchResult,
+  loadSession,
+  queryStream,
+} from "../agent";
+import { getTokenSubject, withRequestToken } from "../auth/store";
+import { detailOutputSchema, searchOutputSchema } from "./schemas";
 
-export async function startMcpServer(): Promise<void> {
+// ─── Connections ────────────────────────────────────────────────────────────
+
+/**
+ * One MCP client, and the talent-agent sessions it has used (for listing
+ * them as resources). Dropped when the client's transport closes.
+ */
+interface Connection {
+  sessions: Set<string>;
+}
+
+/** The parts of the SDK's per-request `extra` that handlers use. */
+interface ClientExtra {
+  /** Set by the HTTP transport from the request's Bearer token. */
+  authInfo?: AuthInfo;
+  /** Aborted when the client cancels the request. */
+  signal?: AbortSignal;
+  _meta?: { progressToken?: ProgressToken };
+  sendNotification?: (notification: ServerNotification) => Promise<void>;
+}
+
+/**
+ * Run `fn` with the client's bearer token when there is one, else with the
+ * server's own credentials.
+ */
+function withClientToken<T>(
+  extra: ClientExtra | undefined,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const token = extra?.authInfo?.token;
+  return token ? withRequestToken(token, fn) : fn();
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Who a request acts as: the user its bearer token was issued to, a hash of
+ * the token when it names no user, or undefined for the server's own login.
+ * Used as Session.owner, so clients sharing an HTTP server can't read each
+ * other's searches by session ID, while a refreshed token keeps its user's
+ * sessions.
+ */
+function requestOwner(extra: ClientExtra | undefined): string | undefined {
+  const token = extra?.authInfo?.token;
+  if (!token) return undefined;
+  const subject = getTokenSubject(token);
+  return subject === null ? hashToken(token) : `sub:${subject}`;
+}
+
+/** Most token hashes remembered as accepted by talent-pro. */
+const MAX_ACCEPTED_TOKENS = 1000;
+
+// Hashes of tokens talent-pro has accepted, oldest first
+const acceptedTokens = new Set<string>();
+
+/**
+ * Whether talent-pro accepts `token`, remembered per token. A token's
+ * subject is read without checking its signature, so it only unlocks
+ * cached sessions once talent-pro has accepted the token.
+ */
+async function isAcceptedToken(token: string): Promise<boolean> {
+  const hash = hashToken(token);
+  if (acceptedTokens.has(hash)) return true;
+  if (!(await isTokenAccepted(token))) return false;
+  if (acceptedTokens.size >= MAX_ACCEPTED_TOKENS) {
+    acceptedTokens.delete(acceptedTokens.values().next().value!);
+  }
+  acceptedTokens.add(hash);
+  return true;
+}
+
+/**
+ * Whether the request may use `session`. Sessions this machine has seen
+ * (in memory or in the on-disk cache, which outlives restarts) belong to
+ * their recorded owner; unknown ones are loaded from talent-pro with the
+ * request's own token, which talent-pro checks.
+ */
+async function canUseSession(
+  extra: ClientExtra | undefined,
+  session: string,
+): Promise<boolean> {
+  const known = findSession(session);
+  if (!known) return true;
+  if (known.owner !== requestOwner(extra)) return false;
+  const token = extra?.authInfo?.token;
+  return !token || getTokenSubject(token) === null || isAcceptedToken(token);
+}
+
+/** Note that `connection` used `session`, and record the request's owner. */
+function claimSession(
+  connection: Connection,
+  extra: ClientExtra | undefined,
+  session: string,
+): void {
+  connection.sessions.delete(session);
+  connection.sessions.add(session);
+  const owner = requestOwner(extra);
+  if (owner) claimSessionOwner(session, owner);
+}
+
+/** Sessions `connection` has used, most recently used last. */
+function connectionSessions(connection: Connection): string[] {
+  return [...connection.sessions];
+}
+
+/**
+ * Successful results go in `structuredContent` and, for clients without
+ * structured output support, as JSON text. Errors are `isError` results
+ * with only the text, which always includes an ErrorCode.
+ */
+function toolResponse(result: AgentResult, meta?: AgentMeta): CallToolResult {
+  if (result.type === "error") {
+    const body = { ...result, code: result.code ?? "UNKNOWN_ERROR", meta };
+    return {
+      content: [{ type: "text", text: JSON.stringify(body, null, 2) }],
+      isError: true,
+    };
+  }
+  const body = { ...result, meta };
+  return {
+    content: [{ type: "text", text: JSON.stringify(body, null, 2) }],
+    structuredContent: body,
+  };
+}
+
+// ─── Progress ───────────────────────────────────────────────────────────────
+
+/** Progress messages for the talent-pro agent's tools. */
+const TOOL_PROGRESS: Record<string, string> = {
+  searchProfiles: "Searching profiles",
+  getProfileDetails: "Loading profile details",
+  searchInTable: "Filtering results",
+};
+
+/**
+ * Report progress on a request with `notifications/progress`. A no-op
+ * unless the client asked for progress by sending a progress token.
+ */
+function progressReporter(
+  extra: ClientExtra | undefined,
+): (message: string) => void {
+  const progressToken = extra?._meta?.progressToken;
+  const send = extra?.sendNotification;
+  if (progressToken === undefined || !send) return () => {};
+  let progress = 0;
+  return (message) => {
+    progress += 1;
+    // Best effort: the client may have gone away mid-request
+    send({
+      method: "notifications/progress",
+      params: { progressToken, progress, message },
+    }).catch(() => {});
+  };
+}
+
+function progressMessage(event: StreamEvent): string | undefined {
+  if (event.type !== "tool-call" && event.type !== "tool-result") {
+    return undefined;
+  }
+  const label = TOOL_PROGRESS[event.toolName] ?? `Running ${event.toolName}`;
+  return event.type === "tool-call" ? `${label}…` : `${label}: done`;
+}
+
+/** Agent options for a request: abort talent-pro calls on cancellation. */
+function agentOptions(extra: ClientExtra | undefined): QueryOptions {
+  return extra?.signal ? { signal: extra.signal } : {};
+}
+
+/**
+ * Run a search or refinement, reporting the agent's tool calls as progress.
+ */
+async function searchWithProgress(
+  queryText: string,
+  session: string | undefined,
+  extra: ClientExtra | undefined,
+): Promise<{ result: AgentResult; meta: AgentMeta }> {
+  const report = progressReporter(extra);
+  report("Sending query to the talent agent…");
+  for await (const event of queryStream(
+    queryText,
+    session,
+    agentOptions(extra),
+  )) {
+    if (event.type === "done") {
+      return { result: event.result, meta: event.meta };
+    }
+    const message = progressMessage(event);
+    if (message) report(message);
+  }
+  // queryStream always finishes with a "done" event
+  throw new Error("Query stream ended without a result");
+}
+
+// ─── Tools ──────────────────────────────────────────────────────────────────
+
+/**
+ * Every tool reads from talent-pro without changing anything a user would
+ * notice (searches only add to the session history).
+ */
+const READ_ONLY: ToolAnnotations = {
+  readOnlyHint: true,
+  openWorldHint: true,
+};
+
+/**
+ * Run one tool call for `connection`, then tell the client the resource
+ * list changed if the call produced a result.
+ */
+async function runTool(
+  server: McpServer,
+  connection: Connection,
+  extra: ClientExtra | undefined,
+  session: string | undefined,
+  call: () => Promise<{ result: AgentResult; meta: AgentMeta }>,
+) {
+  if (session && !(await canUseSession(extra, session))) {
+    return toolResponse({
+      type: "error",
+      session,
+      error: `Session ${session} belongs to another client. Start a new search with talent_search.`,
+      code: "SESSION_NOT_FOUND",
+    });
+  }
+
+  const { result, meta } = await withClientToken(extra, call);
+  if (result.session) claimSession(connection, extra, result.session);
+  if (result.type !== "error") server.sendResourceListChanged();
+  return toolResponse(result, meta);
+}
+
+function createMcpServer(connection: Connection): McpServer {
   const server = new McpServer({
     name: "talent-agent",
     version: "1.0.0",
@@ -23,91 +314,719 @@ export async function startMcpServer(): Promise<void> {
 
   // ─── talent_search ─────────────────────────────────────────────────────────
 
-  server.tool(
+  server.registerTool(
     "talent_search",
-    "Search for talent profiles using natural language. Returns a list of matching profiles with summaries.",
     {
-      query: z
-        .string()
-        .describe(
-          "Natural language search query, e.g. 'Find React developers in Lisbon'",
-        ),
-      session: z
-        .string()
-        .optional()
-        .describe("Session ID to continue a previous search conversation"),
-    },
-    async ({ query: queryText, session }) => {
-      const { result, meta } = await query(queryText, session);
-
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: JSON.stringify({ ...result, meta }, null, 2),
-          },
-        ],
-      };
+      title: "Search talent",
+      description:
+        "Search for talent profiles using natural language. Returns a list of matching profiles with summaries.",
+      inputSchema: {
+        query: z
+          .string()
+          .describe(
+            "Natural language search query, e.g. 'Find React developers in Lisbon'",
+          ),
+        session: z
+          .string()
+          .optional()
+          .describe("Session ID to continue a previous search conversation"),
+      },
+      outputSchema: searchOutputSchema,
+      annotations: READ_ONLY,
     },
+    async ({ query: queryText, session }, extra?: ClientExtra) =>
+      runTool(server, connection, extra, session, () =>
+        searchWithProgress(queryText, session, extra),
+      ),
   );
 
   // ─── talent_detail ─────────────────────────────────────────────────────────
 
-  server.tool(
+  server.registerTool(
     "talent_detail",
-    "Get detailed profile information for a candidate at a given index from the last search in a session.",
     {
-      session: z.string().describe("Session ID from a previous search"),
-      index: z
-        .number()
-        .nonnegative()
-        .describe("Zero-based index of the profile in the last search results"),
-    },
-    async ({ session, index }) => {
-      const { result, meta } = await getDetail(session, index);
-
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: JSON.stringify({ ...result, meta }, null, 2),
-          },
-        ],
-      };
+      title: "Get candidate details",
+      description:
+        "Get detailed profile information for a candidate at a given index from the last search in a session.",
+      inputSchema: {
+        session: z.string().describe("Session ID from a previous search"),
+        index: z
+          .number()
+          .nonnegative()
+          .describe(
+            "Zero-based index of the profile in the last search results",
+          ),
+      },
+      outputSchema: detailOutputSchema,
+      annotations: { ...READ_ONLY, idempotentHint: true },
     },
+    async ({ session, index }, extra?: ClientExtra) =>
+      runTool(server, connection, extra, session, () => {
+        progressReporter(extra)("Loading profile details…");
+        return getDetail(session, index, agentOptions(extra));
+      }),
   );
 
   // ─── talent_refine ─────────────────────────────────────────────────────────
 
-  server.tool(
+  server.registerTool(
     "talent_refine",
-    "Refine an existing search with additional criteria. Continues the conversation in the given session.",
     {
-      session: z
-        .string()
-        .describe("Session ID from a previous search to refine"),
-      query: z
-        .string()
-        .describe(
-          "Additional criteria or refinement query, e.g. 'Only show seniors' or 'Filter by Lisbon location'",
+      title: "Refine search",
+      description:
+        "Refine an existing search with additional criteria. Continues the conversation in the given session.",
+      inputSchema: {
+        session: z
+          .string()
+          .describe("Session ID from a previous search to refine"),
+        query: z
+          .string()
+          .describe(
+            "Additional criteria or refinement query, e.g. 'Only show seniors' or 'Filter by Lisbon location'",
+          ),
+      },
+      outputSchema: searchOutputSchema,
+      annotations: READ_ONLY,
+    },
+    async ({ session, query: queryText }, extra?: ClientExtra) =>
+      runTool(server, connection, extra, session, () =>
+        searchWithProgress(queryText, session, extra),
+      ),
+  );
+
+  // ─── talent_next_page ──────────────────────────────────────────────────────
+
+  server.registerTool(
+    "talent_next_page",
+    {
+      title: "Next page of results",
+      description:
+        "Fetch the next page of results for the last search in a session. Check pagination.hasMore on a search result (or, without pagination, whether it has fewer profiles than totalMatches) before calling.",
+      inputSchema: {
+        session: z.string().describe("Session ID from a previous search"),
+        limit: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Profiles per page (defaults to the previous page size)"),
+      },
+      outputSchema: searchOutputSchema,
+      annotations: READ_ONLY,
+    },
+    async ({ session, limit }, extra?: ClientExtra) =>
+      runTool(server, connection, extra, session, () => {
+        const current =
+          lastSearchResult(findSession(session))?.pagination?.page ?? 1;
+        progressReporter(extra)(`Fetching page ${current + 1}…`);
+        return fetchPage(session, current + 1, {
+          ...agentOptions(extra),
+          limit,
+        });
+      }),
+  );
+
+  registerResources(server, connection);
+  registerPrompts(server, connection);
+  return server;
+}
+
+// ─── Resources ──────────────────────────────────────────────────────────────
+
+function jsonResource(uri: URL, body: unknown) {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: "application/json",
+        text: JSON.stringify(body, null, 2),
+      },
+    ],
+  };
+}
+
+/** Template variables can be arrays for `{+var}`/`{var*}`; ours never are. */
+function variable(value: string | string[] | undefined): string {
+  return decodeURIComponent(Array.isArray(value) ? value[0]! : (value ?? ""));
+}
+
+interface SessionListing {
+  uri: string;
+  id: string;
+  title: string;
+  updatedAt?: string;
+}
+
+/**
+ * The client's sessions: ones used on this connection, then the account's
+ * recent sessions on talent-pro (skipping any another connection owns).
+ */
+async function listSessions(
+  connection: Connection,
+  extra: ClientExtra | undefined,
+): Promise<SessionListing[]> {
+  const listings = new Map<string, SessionListing>();
+  for (const id of connectionSessions(connection).reverse()) {
+    const last = lastSearchResult(findSession(id));
+    listings.set(id, {
+      uri: `talent://sessions/${encodeURIComponent(id)}`,
+      id,
+      title: last?.query ?? `Session ${id}`,
+    });
+  }
+  const recent = await withClientToken(extra, () => fetchRecentSessions());
+  for (const s of recent) {
+    if (
+      listings.has(s.sessionId) ||
+      !(await canUseSession(extra, s.sessionId))
+    ) {
+      continue;
+    }
+    listings.set(s.sessionId, {
+      uri: `talent://sessions/${encodeURIComponent(s.sessionId)}`,
+      id: s.sessionId,
+      title: s.title,
+      updatedAt: s.updatedAt.toISOString(),
+    });
+  }
+  return [...listings.values()];
+}
+
+function registerResources(server: McpServer, connection: Connection): void {
+  // ─── talent://sessions ─────────────────────────────────────────────────────
+
+  server.registerResource(
+    "sessions",
+    "talent://sessions",
+    {
+      title: "Search sessions",
+      description:
+        "Recent talent search sessions. Read talent://sessions/{id} for a session's transcript and results.",
+      mimeType: "application/json",
+    },
+    async (uri, extra) =>
+      jsonResource(uri, await listSessions(connection, extra)),
+  );
+
+  // ─── talent://sessions/{id} ────────────────────────────────────────────────
+
+  server.registerResource(
+    "session",
+    new ResourceTemplate("talent://sessions/{id}", {
+      list: async (extra) => ({
+        resources: (await listSessions(connection, extra)).map((s) => ({
+          uri: s.uri,
+          name: s.title,
+          mimeType: "application/json",
+        })),
+      }),
+    }),
+    {
+      title: "Search session",
+      description:
+        "A search session's message transcript and its last result (search results or profile detail).",
+      mimeType: "application/json",
+    },
+    async (uri, { id }, extra) => {
+      const sessionId = variable(id);
+      if (!(await canUseSession(extra, sessionId))) {
+        throw new Error(`Session ${sessionId} belongs to another client.`);
+      }
+      const session = await withClientToken(extra, () =>
+        loadSession(sessionId),
+      );
+      claimSession(connection, extra, session.id);
+      return jsonResource(uri, {
+        id: session.id,
+        messages: session.messages,
+        lastResult: session.lastResult,
+      });
+    },
+  );
+
+  // ─── talent://profiles/{id} ────────────────────────────────────────────────
+
+  server.registerResource(
+    "profile",
+    new ResourceTemplate("talent://profiles/{id}", {
+      // Profiles from the last search of each session on this connection
+      list: async () => {
+        const profiles = new Map<string, { uri: string; name: string }>();
+        for (const id of connectionSessions(connection)) {
+          const last = lastSearchResult(findSession(id));
+          if (!last) continue;
+          for (const p of last.profiles) {
+            profiles.set(p.id, {
+              uri: `talent://profiles/${encodeURIComponent(p.id)}`,
+              name: p.displayName || p.name || p.id,
+            });
+          }
+        }
+        return {
+          resources: [...profiles.values()].map((p) => ({
+            ...p,
+            mimeType: "application/json",
+          })),
+        };
+      },
+    }),
+    {
+      title: "Candidate profile",
+      description:
+        "Full details of a talent profile by profile ID (experience, skills, GitHub activity, credentials).",
+      mimeType: "application/json",
+    },
+    async (uri, { id }, extra) =>
+      jsonResource(
+        uri,
+        await withClientToken(extra, () =>
+          getProfile(variable(id), agentOptions(extra)),
         ),
+      ),
+  );
+}
+
+// ─── Prompts ────────────────────────────────────────────────────────────────
+
+/** Suggested values for find_candidates_for_role's `seniority`. */
+const SENIORITIES = ["junior", "mid-level", "senior", "staff", "principal"];
+
+/** Most candidates summarize_top_candidates will fetch details for. */
+const MAX_SUMMARIZED = 10;
+
+function userPrompt(text: string) {
+  return {
+    messages: [
+      { role: "user" as const, content: { type: "text" as const, text } },
+    ],
+  };
+}
+
+/** Prompt arguments are strings; complete them from the values given. */
+function suggest(values: string[]) {
+  return (value: string | undefined) =>
+    values.filter((v) => v.startsWith(value ?? ""));
+}
+
+/**
+ * Parse "0, 2, 5" into distinct profile indices. The argument schema
+ * already guarantees comma-separated integers.
+ */
+function parseIndices(value: string): number[] {
+  return [...new Set(value.split(",").map((i) => parseInt(i, 10)))];
+}
+
+function registerPrompts(server: McpServer, connection: Connection): void {
+  const sessionArg = completable(
+    z.string().describe("Session ID from a previous talent_search"),
+    (value) => suggest(connectionSessions(connection).reverse())(value),
+  );
+
+  // ─── find_candidates_for_role ──────────────────────────────────────────────
+
+  server.registerPrompt(
+    "find_candidates_for_role",
+    {
+      title: "Find candidates for a role",
+      description:
+        "Search for candidates matching a role, then shortlist the strongest with their details.",
+      argsSchema: {
+        role: z.string().describe("Role to hire for, e.g. 'React developer'"),
+        location: z
+          .string()
+          .optional()
+          .describe("City, country or region, e.g. 'Lisbon'"),
+        seniority: completable(
+          z
+            .string()
+            .optional()
+            .describe("Seniority level, e.g. 'senior' or 'staff'"),
+          suggest(SENIORITIES),
+        ),
+      },
+    },
+    ({ role, location, seniority }) => {
+      const who = seniority ? `${seniority} ${role}` : role;
+      const where = location ? ` in ${location}` : "";
+      return userPrompt(
+        [
+          `Find candidates for a ${who} role${where}.`,
+          "",
+          `1. Call talent_search with the query "Find ${who}${where}".`,
+          "2. If the results are off-target or too few, call talent_refine in the same session to adjust the criteria.",
+          "3. Call talent_detail for the 3 strongest matches.",
+          "4. Present a shortlist. For each candidate, give their name, current role and location, and why they fit, citing their experience and skills.",
+          "5. End with the session ID so the search can be refined or paged later.",
+        ].join("\n"),
+      );
+    },
+  );
+
+  // ─── compare_candidates ────────────────────────────────────────────────────
+
+  server.registerPrompt(
+    "compare_candidates",
+    {
+      title: "Compare candidates",
+      description:
+        "Compare candidates from a search side by side and recommend the strongest fit.",
+      argsSchema: {
+        session: sessionArg,
+        indices: z
+          .string()
+          .regex(
+            /^\s*\d+(\s*,\s*\d+)+\s*$/,
+            "Expected two or more comma-separated indices, e.g. '0, 2, 5'",
+          )
+          .describe(
+            "Comma-separated zero-based indices of the candidates in the last search results, e.g. '0, 2, 5'",
+          ),
+      },
     },
-    async ({ session, query: queryText }) => {
-      const { result, meta } = await query(queryText, session);
-
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: JSON.stringify({ ...result, meta }, null, 2),
-          },
-        ],
-      };
+    ({ session, indices }) => {
+      const list = parseIndices(indices).join(", ");
+      return userPrompt(
+        [
+          `Compare the candidates at indices ${list} of the last search in session ${session}.`,
+          "",
+          `1. Call talent_detail with session "${session}" once for each index: ${list}.`,
+          "2. Compare them side by side in a table: current role, seniority, years of experience, key skills, location, and notable projects or credentials.",
+          "3. Recommend the strongest fit for the search and explain why, noting anything to verify in an interview.",
+        ].join("\n"),
+      );
     },
   );
 
-  // ─── Start Server ──────────────────────────────────────────────────────────
+  // ─── summarize_top_candidates ──────────────────────────────────────────────
 
+  server.registerPrompt(
+    "summarize_top_candidates",
+    {
+      title: "Summarize top candidates",
+      description:
+        "Summarize the top candidates from a search, one short paragraph each.",
+      argsSchema: {
+        session: sessionArg,
+        n: z
+          .string()
+          .regex(/^\s*\d+\s*$/, "Expected a number, e.g. '5'")
+          .optional()
+          .describe(
+            `Number of candidates to summarize (default 5, at most ${MAX_SUMMARIZED})`,
+          ),
+      },
+    },
+    ({ session, n }) => {
+      const count = Math.min(
+        Math.max(n ? parseInt(n, 10) : 5, 1),
+        MAX_SUMMARIZED,
+      );
+      return userPrompt(
+        [
+          `Summarize the top ${count} candidates of the last search in session ${session}.`,
+          "",
+          `1. Call talent_detail with session "${session}" for each index from 0 to ${count - 1}. Stop early if an index is out of range.`,
+          "2. For each candidate, write two or three sentences: who they are, their strongest skills and experience, and how well they match the search.",
+          "3. Finish with a one-line ranking of the candidates by fit.",
+        ].join("\n"),
+      );
+    },
+  );
+}
+
+// ─── stdio ──────────────────────────────────────────────────────────────────
+
+export async function startMcpServer(): Promise<void> {
+  const server = createMcpServer({ sessions: new Set() });
   const transport = new StdioServerTransport();
   await server.connect(transport);
 }
+
+// ─── Streamable HTTP ────────────────────────────────────────────────────────
+
+/** Path of the MCP endpoint. */
+export const MCP_HTTP_PATH = "/mcp";
+
+/** Largest JSON-RPC request body accepted (same as the SDK's default). */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const DEFAULT_SHUTDOWN_TIMEOUT_MS = 10_000;
+
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+const DEFAULT_MAX_SESSIONS = 100;
+
+export interface McpHttpOptions {
+  port: number;
+  /** Interface to listen on (default 127.0.0.1; 0.0.0.0 in containers). */
+  host?: string;
+  /** How long close() waits for in-flight requests before dropping them. */
+  shutdownTimeoutMs?: number;
+  /** Close an MCP session after this long without requests (default 30m). */
+  sessionIdleTimeoutMs?: number;
+  /** Most MCP sessions open at once; more initializes get a 503. */
+  maxSessions?: number;
+  /**
+   * Serve requests without a Bearer token using the server's own login or
+   * TALENT_AGENT_TOKEN. Off by default: anyone who can reach the port
+   * would otherwise search as the operator.
+   */
+  allowServerCredentials?: boolean;
+}
+
+export interface McpHttpServer {
+  /** Base URL the server listens on, e.g. http://127.0.0.1:3000 */
+  url: string;
+  /**
+   * Stop accepting requests, let in-flight ones finish (up to the shutdown
+   * timeout), then close every MCP session.
+   */
+  close(): Promise<void>;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function sendRpcError(
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string,
+): void {
+  sendJson(res, status, {
+    jsonrpc: "2.0",
+    error: { code, message },
+    id: null,
+  });
+}
+
+class BodyTooLargeError extends Error {}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new BodyTooLargeError();
+    chunks.push(chunk as Buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+}
+
+/**
+ * The request's `Authorization: Bearer` token, passed through to
+ * talent-pro as-is. talent-pro validates it on every call.
+ */
+function bearerAuth(req: IncomingMessage): AuthInfo | undefined {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(req.headers.authorization ?? "");
+  if (!match) return undefined;
+  return { token: match[1]!, clientId: "talent-agent-mcp", scopes: [] };
+}
+
+/**
+ * Serve MCP over Streamable HTTP at `/mcp`, plus `/healthz` (process is
+ * up) and `/readyz` (accepting MCP requests; 503 while shutting down).
+ *
+ * Each client's `initialize` opens its own MCP session (the
+ * `Mcp-Session-Id` header) with its own server and transport. A request's
+ * `Authorization: Bearer <token>` is used for the talent-pro calls its tool
+ * call makes. Requests without one get a 401, unless
+ * `allowServerCredentials` lets them use the server's own credentials.
+ */
+export async function startMcpHttpServer(
+  options: McpHttpOptions,
+): Promise<McpHttpServer> {
+  const host = options.host ?? "127.0.0.1";
+  const shutdownTimeoutMs =
+    options.shutdownTimeoutMs ?? DEFAULT_SHUTDOWN_TIMEOUT_MS;
+  const sessionIdleTimeoutMs =
+    options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+  const maxSessions = options.maxSessions ?? DEFAULT_MAX_SESSIONS;
+
+  const sessions = new Map<
+    string,
+    {
+      server: McpServer;
+      transport: StreamableHTTPServerTransport;
+      /** Requests (including GET streams) still open. */
+      active: number;
+      /** Closes the session once it has been idle too long. */
+      idleTimer?: NodeJS.Timeout;
+    }
+  >();
+  let closing = false;
+  let inFlight = 0;
+  let onIdle: (() => void) | undefined;
+
+  /** Start `id`'s idle timeout once none of its requests are open. */
+  function touchSession(id: string): void {
+    const session = sessions.get(id);
+    if (!session || session.active > 0) return;
+    clearTimeout(session.idleTimer);
+    session.idleTimer = setTimeout(() => {
+      // Closing the server closes the transport, whose onclose drops it
+      void session.server.close();
+    }, sessionIdleTimeoutMs);
+    session.idleTimer.unref();
+  }
+
+  async function openSession(
+    req: IncomingMessage & { auth?: AuthInfo },
+    res: ServerResponse,
+    body: unknown,
+  ): Promise<void> {
+    const connection: Connection = { sessions: new Set() };
+    const server = createMcpServer(connection);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { server, transport, active: 0 });
+        touchSession(id);
+      },
+    });
+    transport.onclose = () => {
+      const id = transport.sessionId;
+      if (id) {
+        clearTimeout(sessions.get(id)?.idleTimer);
+        sessions.delete(id);
+      }
+      connection.sessions.clear();
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function handleMcp(
+    req: IncomingMessage & { auth?: AuthInfo },
+    res: ServerResponse,
+  ): Promise<void> {
+    req.auth = bearerAuth(req);
+    if (!req.auth && !options.allowServerCredentials) {
+      res.setHeader("WWW-Authenticate", 'Bearer realm="talent-agent"');
+      return sendRpcError(
+        res,
+        401,
+        -32000,
+        "Missing Authorization: Bearer <token> header with a Talent Pro token",
+      );
+    }
+
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        // Per the spec, 404 tells the client to start a new session
+        return sendRpcError(res, 404, -32001, "Session not found");
+      }
+      session.active++;
+      clearTimeout(session.idleTimer);
+      res.on("close", () => {
+        session.active--;
+        touchSession(sessionId);
+      });
+      return session.transport.handleRequest(req, res);
+    }
+
+    // Without a session, only an initialize request is valid
+    if (req.method !== "POST") {
+      return sendRpcError(res, 400, -32000, "Missing Mcp-Session-Id header");
+    }
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      return error instanceof BodyTooLargeError
+        ? sendRpcError(res, 413, -32000, "Request body too large")
+        : sendRpcError(res, 400, -32700, "Parse error: invalid JSON");
+    }
+    const initialize = Array.isArray(body)
+      ? body.some(isInitializeRequest)
+      : isInitializeRequest(body);
+    if (!initialize) {
+      return sendRpcError(res, 400, -32000, "Missing Mcp-Session-Id header");
+    }
+    if (sessions.size >= maxSessions) {
+      return sendRpcError(res, 503, -32000, "Too many open MCP sessions");
+    }
+    return openSession(req, res, body);
+  }
+
+  const httpServer = createServer((req, res) => {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+
+    if (path === "/healthz") return sendJson(res, 200, { status: "ok" });
+    if (path === "/readyz") {
+      return closing
+        ? sendJson(res, 503, { status: "shutting down" })
+        : sendJson(res, 200, { status: "ready", sessions: sessions.size });
+    }
+    if (path !== MCP_HTTP_PATH)
+      return sendJson(res, 404, { error: "Not found" });
+    if (closing) {
+      return sendRpcError(res, 503, -32000, "Server is shutting down");
+    }
+
+    // GET streams stay open until the session closes; only POST and
+    // DELETE count towards the requests shutdown waits for
+    if (req.method !== "GET") {
+      inFlight++;
+      res.on("close", () => {
+        if (--inFlight === 0) onIdle?.();
+      });
+    }
+
+    handleMcp(req, res).catch((error) => {
+      console.error(
+        `MCP request failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      if (!res.headersSent) {
+        sendRpcError(res, 500, -32603, "Internal server error");
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+  const { port } = httpServer.address() as { port: number };
+  const urlHost = host.includes(":") ? `[${host}]` : host;
+
+  let closed: Promise<void> | undefined;
+  const close = async (): Promise<void> => {
+    closing = true;
+    const stopped = new Promise<void>((resolve) =>
+      httpServer.close(() => resolve()),
+    );
+
+    // Let in-flight tool calls finish, up to the timeout
+    if (inFlight > 0) {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, shutdownTimeoutMs);
+        onIdle = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+    }
+
+    // Ends the open GET streams, then drop whatever is left
+    await Promise.allSettled(
+      [...sessions.values()].map(({ server }) => server.close()),
+    );
+    httpServer.closeAllConnections();
+    await stopped;
+  };
+
+  return {
+    url: `http://${urlHost}:${port}`,
+    close: () => (closed ??= close()),
+  };
+}
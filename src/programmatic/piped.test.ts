@@ -4,12 +4,23 @@
 import { Readable } from "node:stream";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
-import { getDetail, query } from "../agent";
+import {
+  fetchPage,
+  findSession,
+  getDetail,
+  query,
+  queryStream,
+} from "../agent";
 
 // Mock the agent module
-vi.mock("../agent", () => ({
+vi.mock("../agent", async (importOriginal) => ({
+  lastSearchResult: (await importOriginal<typeof import("../agent")>())
+    .lastSearchResult,
   query: vi.fn(),
   getDetail: vi.fn(),
+  fetchPage: vi.fn(),
+  findSession: vi.fn(),
+  queryStream: vi.fn(),
 }));
 
 describe("piped mode", () => {
@@ -307,6 +318,363 @@ describe("piped mode", () => {
 
     expect(query).toHaveBeenCalledWith("Only seniors", "existing-session", {
       debug: false,
+      signal: expect.any(AbortSignal),
+    });
+  });
+
+  it("handles page action relative to the session's current page", async () => {
+    createMockStdin([
+      JSON.stringify({ action: "page", id: "p-1", session: "s1" }),
+      JSON.stringify({
+        action: "page",
+        id: "p-2",
+        session: "s1",
+        direction: "prev",
+      }),
+      JSON.stringify({ action: "page", session: "s1", page: 5, limit: 20 }),
+    ]);
+
+    (findSession as any).mockReturnValue({
+      id: "s1",
+      messages: [],
+      lastResult: { type: "detail", session: "s1", profile: {}, summary: "" },
+      lastSearch: {
+        type: "search",
+        session: "s1",
+        query: "Find devs",
+        profiles: [],
+        totalMatches: 100,
+        summary: "",
+        appliedFilters: {},
+        pagination: { page: 2, pageSize: 10, offset: 10, hasMore: true },
+      },
+    });
+    (fetchPage as any).mockResolvedValue({
+      result: {
+        type: "search",
+        session: "s1",
+        query: "Find devs",
+        profiles: [],
+        totalMatches: 100,
+        summary: "",
+        appliedFilters: {},
+      },
+      meta: { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
+    });
+
+    const { runPiped } = await import("./piped");
+    await runPiped();
+
+    const signal = expect.any(AbortSignal);
+    expect(fetchPage).toHaveBeenNthCalledWith(1, "s1", 3, {
+      debug: false,
+      signal,
+    });
+    expect(fetchPage).toHaveBeenNthCalledWith(2, "s1", 1, {
+      debug: false,
+      signal,
+    });
+    expect(fetchPage).toHaveBeenNthCalledWith(3, "s1", 5, {
+      debug: false,
+      signal,
+      limit: 20,
+    });
+    const outputs = getOutputLines();
+    expect((outputs[0] as any).id).toBe("p-1");
+    expect((outputs[0] as any).success).toBe(true);
+  });
+
+  it("passes page and limit through on search", async () => {
+    createMockStdin([
+      JSON.stringify({
+        action: "search",
+        query: "Find devs",
+        page: 2,
+        limit: 5,
+      }),
+    ]);
+
+    (query as any).mockResolvedValue({
+      result: {
+        type: "search",
+        session: "s1",
+        query: "Find devs",
+        profiles: [],
+        totalMatches: 0,
+        summary: "",
+        appliedFilters: {},
+      },
+      meta: { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
+    });
+
+    const { runPiped } = await import("./piped");
+    await runPiped();
+
+    expect(query).toHaveBeenCalledWith("Find devs", undefined, {
+      debug: false,
+      signal: expect.any(AbortSignal),
+      page: 2,
+      limit: 5,
+    });
+  });
+
+  it("emits stream events before the envelope when streaming", async () => {
+    createMockStdin([
+      JSON.stringify({ action: "search", id: "req-1", query: "Find devs" }),
+    ]);
+
+    (queryStream as any).mockImplementation(async function* () {
+      yield { type: "text-delta", delta: "Found " };
+      yield { type: "text-delta", delta: "none." };
+      yield {
+        type: "done",
+        result: {
+          type: "search",
+          session: "s1",
+          query: "Find devs",
+          profiles: [],
+          totalMatches: 0,
+          summary: "Found none.",
+          appliedFilters: {},
+        },
+        meta: { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
+      };
+    });
+
+    const { runPiped } = await import("./piped");
+    await runPiped(false, { stream: true });
+
+    const outputs = getOutputLines() as any[];
+    expect(outputs).toHaveLength(3);
+    expect(outputs[0]).toEqual({
+      event: "text-delta",
+      delta: "Found ",
+      id: "req-1",
+    });
+    expect(outputs[2].success).toBe(true);
+    expect(outputs[2].id).toBe("req-1");
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it("cancels a pending request by id", async () => {
+    createMockStdin([
+      JSON.stringify({ action: "search", id: "req-1", query: "Find devs" }),
+      JSON.stringify({ action: "cancel", id: "req-1" }),
+    ]);
+
+    // Like the agent, resolve with a CANCELLED error once aborted
+    (query as any).mockImplementation(
+      (_q: string, session: string, options: { signal: AbortSignal }) =>
+        new Promise((resolve) => {
+          const cancelled = () =>
+            resolve({
+              result: {
+                type: "error",
+                session: session ?? "s1",
+                error: "Request was cancelled.",
+                code: "CANCELLED",
+              },
+              meta: { durationMs: 1, tokensUsed: 0, toolsCalled: [] },
+            });
+          if (options.signal.aborted) return cancelled();
+          options.signal.addEventListener("abort", cancelled);
+        }),
+    );
+
+    const { runPiped } = await import("./piped");
+    await runPiped();
+
+    const outputs = getOutputLines() as any[];
+    expect(outputs).toHaveLength(1);
+    expect(outputs[0]).toMatchObject({
+      success: false,
+      code: "CANCELLED",
+      id: "req-1",
+    });
+  });
+
+  it("writes an error envelope when the agent returns an error result", async () => {
+    createMockStdin([
+      JSON.stringify({ action: "search", id: "req-1", query: "Find devs" }),
+    ]);
+    (query as any).mockResolvedValue({
+      result: {
+        type: "error",
+        session: "s1",
+        error: "Rate limited.",
+        code: "RATE_LIMIT",
+      },
+      meta: { durationMs: 1, tokensUsed: 0, toolsCalled: [] },
+    });
+
+    const { runPiped } = await import("./piped");
+    await runPiped();
+
+    expect(getOutputLines()).toEqual([
+      {
+        success: false,
+        error: "Rate limited.",
+        code: "RATE_LIMIT",
+        id: "req-1",
+      },
+    ]);
+  });
+
+  it("rejects a cancel for an unknown id", async () => {
+    createMockStdin([JSON.stringify({ action: "cancel", id: "nope" })]);
+
+    const { runPiped } = await import("./piped");
+    await runPiped();
+
+    const outputs = getOutputLines() as any[];
+    expect(outputs[0].code).toBe("VALIDATION_ERROR");
+    expect(outputs[0].error).toContain('"nope"');
+  });
+
+  describe("with concurrency", () => {
+    function searchResult(session: string) {
+      return {
+        result: {
+          type: "search",
+          session,
+          query: "q",
+          profiles: [],
+          totalMatches: 0,
+          summary: "",
+          appliedFilters: {},
+        },
+        meta: { durationMs: 1, tokensUsed: 10, toolsCalled: ["search"] },
+      };
+    }
+
+    /** Mock query() so each call finishes only when released by the test. */
+    function deferredQueries() {
+      const calls: Array<{ text: string; release: () => void }> = [];
+      (query as any).mockImplementation(
+        (text: string, session?: string) =>
+          new Promise((resolve) => {
+            calls.push({
+              text,
+              release: () => resolve(searchResult(session ?? text)),
+            });
+          }),
+      );
+      return calls;
+    }
+
+    async function waitFor(check: () => boolean): Promise<void> {
+      while (!check()) await new Promise((r) => setTimeout(r, 1));
+    }
+
+    it("runs independent requests in parallel and answers out of order", async () => {
+      createMockStdin([
+        JSON.stringify({ action: "search", id: "a", query: "A" }),
+        JSON.stringify({ action: "search", id: "b", query: "B" }),
+      ]);
+      const calls = deferredQueries();
+
+      const { runPiped } = await import("./piped");
+      const done = runPiped(false, { concurrency: 2 });
+
+      await waitFor(() => calls.length === 2);
+      calls[1]!.release();
+      calls[0]!.release();
+      await done;
+
+      const outputs = getOutputLines() as any[];
+      expect(outputs.map((o) => o.id)).toEqual(["b", "a", undefined]);
+    });
+
+    it("serializes requests that share a session", async () => {
+      createMockStdin([
+        JSON.stringify({ action: "search", id: "a", query: "A", session: "s" }),
+        JSON.stringify({ action: "search", id: "b", query: "B", session: "s" }),
+        JSON.stringify({ action: "search", id: "c", query: "C" }),
+      ]);
+      const calls = deferredQueries();
+
+      const { runPiped } = await import("./piped");
+      const done = runPiped(false, { concurrency: 3 });
+
+      // "B" waits for "A" on session s; "C" is independent
+      await waitFor(() => calls.length === 2);
+      expect(calls.map((c) => c.text)).toEqual(["A", "C"]);
+
+      calls[0]!.release();
+      await waitFor(() => calls.length === 3);
+      expect(calls[2]!.text).toBe("B");
+      calls[1]!.release();
+      calls[2]!.release();
+      await done;
+
+      expect((getOutputLines() as any[]).map((o) => o.id)).toEqual([
+        "a",
+        "c",
+        "b",
+        undefined,
+      ]);
+    });
+
+    it("ends with a summary envelope when stdin closes", async () => {
+      createMockStdin([
+        JSON.stringify({ action: "search", id: "a", query: "A" }),
+        "not json",
+        JSON.stringify({ action: "search", id: "b", query: "B" }),
+      ]);
+      (query as any).mockImplementation(async (text: string) =>
+        searchResult(text),
+      );
+
+      const { runPiped } = await import("./piped");
+      await runPiped(false, { concurrency: 4 });
+
+      const outputs = getOutputLines() as any[];
+      expect(outputs).toHaveLength(4);
+      expect(outputs.at(-1)).toMatchObject({
+        success: true,
+        data: {
+          type: "summary",
+          requests: 3,
+          succeeded: 2,
+          failed: 1,
+          cancelled: 0,
+        },
+        meta: { tokensUsed: 20, toolsCalled: ["search"] },
+      });
+    });
+
+    it("counts requests cancelled in flight as cancelled", async () => {
+      createMockStdin([
+        JSON.stringify({ action: "search", id: "a", query: "A" }),
+        JSON.stringify({ action: "cancel", id: "a" }),
+      ]);
+      (query as any).mockImplementation(
+        (_q: string, _s: string, options: { signal: AbortSignal }) =>
+          new Promise((resolve) => {
+            const cancelled = () =>
+              resolve({
+                result: {
+                  type: "error",
+                  session: "s1",
+                  error: "Request was cancelled.",
+                  code: "CANCELLED",
+                },
+                meta: { durationMs: 1, tokensUsed: 0, toolsCalled: [] },
+              });
+            if (options.signal.aborted) return cancelled();
+            options.signal.addEventListener("abort", cancelled);
+          }),
+      );
+
+      const { runPiped } = await import("./piped");
+      await runPiped(false, { concurrency: 2 });
+
+      expect((getOutputLines() as any[]).at(-1).data).toMatchObject({
+        requests: 1,
+        succeeded: 0,
+        failed: 0,
+        cancelled: 1,
+      });
     });
   });
 });
@@ -5,6 +5,12 @@
  *   {"action": "search", "query": "Find React developers in Lisbon"}
  *   {"action": "search", "query": "Only show seniors", "session": "abc123"}
  *   {"action": "detail", "session": "abc123", "index": 0}
+ *   {"action": "page", "session": "abc123"}                  (next page)
+ *   {"action": "page", "session": "abc123", "direction": "prev"}
+ *   {"action": "page", "session": "abc123", "page": 3, "limit": 20}
+ *   {"action": "cancel", "id": "req-1"}                    (abort request req-1)
+ *
+ * Search requests also accept "page" and "limit".
  *
  * Legacy format (backward compatible):
  *   {"query": "Find React developers in Lisbon"}
@@ -14,12 +20,27 @@
  * Output format (one JSON envelope per line):
  *   {"success": true, "data": {...}, "meta": {...}, "id": "..."}
  *   {"success": false, "error": "...", "code": "...", "id": "..."}
+ *
+ * With --stream, search requests also emit incremental event lines before
+ * their envelope:
+ *   {"event": "tool-call", "toolCallId": "...", "toolName": "...", "args": {...}, "id": "..."}
+ *   {"event": "text-delta", "delta": "Found 12", "id": "..."}
  */
 import { createInterface } from "node:readline";
 import { z } from "zod";
 
-import { getDetail, query } from "../agent";
+import {
+  type AgentMeta,
+  type AgentResult,
+  fetchPage,
+  findSession,
+  getDetail,
+  lastSearchResult,
+  query,
+  queryStream,
+} from "../agent";
 import { toAIFriendlyError } from "../errors";
+import { toStreamEventLine } from "../format";
 
 // ─── Zod-Validated Input Schema ──────────────────────────────────────────────
 
@@ -28,6 +49,8 @@ const searchInputSchema = z.object({
   id: z.string().optional(),
   query: z.string().min(1),
   session: z.string().optional(),
+  page: z.number().int().positive().optional(),
+  limit: z.number().int().positive().optional(),
 });
 
 const detailInputSchema = z.object({
@@ -37,13 +60,28 @@ const detailInputSchema = z.object({
   index: z.number().nonnegative(),
 });
 
+const pageInputSchema = z.object({
+  action: z.literal("page"),
+  id: z.string().optional(),
+  session: z.string(),
+  page: z.number().int().positive().optional(),
+  direction: z.enum(["next", "prev"]).optional(),
+  limit: z.number().int().positive().optional(),
+});
+
 const pipedInputSchema = z.discriminatedUnion("action", [
   searchInputSchema,
   detailInputSchema,
+  pageInputSchema,
 ]);
 
 type PipedInput = z.infer<typeof pipedInputSchema>;
 
+const cancelInputSchema = z.object({
+  action: z.literal("cancel"),
+  id: z.string().min(1),
+});
+
 // ─── Legacy Input ────────────────────────────────────────────────────────────
 
 interface LegacyInput {
@@ -76,6 +114,24 @@ function tryParseLegacy(raw: unknown): PipedInput | null {
   return null;
 }
 
+/** Read the `action` and `id` of a request that has not been validated. */
+function requestHeader(raw: unknown): { action?: unknown; id?: string } {
+  if (typeof raw !== "object" || raw === null) return {};
+  const { action, id } = raw as Record<string, unknown>;
+  return { action, id: typeof id === "string" ? id : undefined };
+}
+
+/**
+ * Resolve a relative page move against the session's current page.
+ * Sessions with no search in memory or in the on-disk cache are treated as
+ * being on page 1.
+ */
+function targetPage(sessionId: string, direction?: "next" | "prev"): number {
+  const current =
+    lastSearchResult(findSession(sessionId))?.pagination?.page ?? 1;
+  return direction === "prev" ? current - 1 : current + 1;
+}
+
 // ─── Output Helpers ──────────────────────────────────────────────────────────
 
 function writeSuccess(
@@ -100,55 +156,288 @@ function writeError(message: string, code: string, requestId?: string): void {
 
 // ─── Main ────────────────────────────────────────────────────────────────────
 
-export async function runPiped(debug: boolean = false): Promise<void> {
+export interface PipedOptions {
+  /** Emit incremental stream events before each search envelope. */
+  stream?: boolean;
+  /** Per-request timeout in milliseconds. */
+  timeoutMs?: number;
+  /**
+   * Run up to this many requests at once. Responses are then written as they
+   * complete and a summary envelope follows when stdin closes.
+   */
+  concurrency?: number;
+}
+
+/** Stop reading stdin while this many requests are waiting for a slot. */
+const MAX_QUEUED = 64;
+
+/**
+ * Run one request and write its envelope(s). Returns the written response.
+ */
+async function handleRequest(
+  input: PipedInput,
+  signal: AbortSignal,
+  debug: boolean,
+  options: PipedOptions,
+): Promise<{ result: AgentResult; meta: AgentMeta }> {
+  const requestId = input.id;
+  const agentOptions = { debug, signal, timeoutMs: options.timeoutMs };
+
+  let response: { result: AgentResult; meta: AgentMeta } | undefined;
+  if (input.action === "detail") {
+    response = await getDetail(input.session, input.index, agentOptions);
+  } else if (input.action === "page") {
+    response = await fetchPage(
+      input.session,
+      input.page ?? targetPage(input.session, input.direction),
+      { ...agentOptions, limit: input.limit },
+    );
+  } else if (options.stream) {
+    const events = queryStream(input.query, input.session, {
+      ...agentOptions,
+      page: input.page,
+      limit: input.limit,
+    });
+    for await (const event of events) {
+      if (event.type === "done") {
+        response = { result: event.result, meta: event.meta };
+      } else {
+        process.stdout.write(toStreamEventLine(event, requestId) + "\n");
+      }
+    }
+    if (!response) throw new Error("Query stream ended without a result");
+  } else {
+    response = await query(input.query, input.session, {
+      ...agentOptions,
+      page: input.page,
+      limit: input.limit,
+    });
+  }
+
+  const { result, meta } = response;
+  if (result.type === "error") {
+    writeError(result.error, result.code ?? "UNKNOWN_ERROR", requestId);
+  } else {
+    writeSuccess(result, meta, requestId);
+  }
+  return response;
+}
+
+interface Task {
+  /** Requests on the same session run one after another. */
+  session?: string;
+  run: () => Promise<void>;
+}
+
+interface Summary {
+  requests: number;
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  tokensUsed: number;
+  toolsCalled: Set<string>;
+}
+
+/**
+ * Read JSONL requests from stdin and answer them.
+ *
+ * By default requests run one at a time and are answered in input order.
+ * With `concurrency` > 1, independent requests run in parallel and are
+ * answered as they finish (correlate by `id`); requests that share a
+ * `session` still run in input order, since each builds on the previous
+ * one's history.
+ *
+ * Input keeps being read while requests are in flight so
+ * `{"action": "cancel", "id": ...}` can abort one (or drop a queued one)
+ * immediately. Reading pauses while MAX_QUEUED requests are waiting.
+ * Ctrl+C (SIGINT) cancels everything outstanding and stops reading input.
+ */
+export async function runPiped(
+  debug: boolean = false,
+  options: PipedOptions = {},
+): Promise<void> {
+  const startTime = Date.now();
+  const concurrency = Math.max(1, options.concurrency ?? 1);
   const rl = createInterface({
     input: process.stdin,
     terminal: false,
   });
 
-  for await (const line of rl) {
-    const trimmed = line.trim();
-    if (!trimmed) continue;
+  // Abort controllers for queued and in-flight requests that carry an ID
+  const pending = new Map<string, AbortController>();
+  const all = new Set<AbortController>();
 
-    let requestId: string | undefined;
+  const onSigint = () => {
+    for (const controller of all) controller.abort();
+    rl.close();
+  };
+  process.on("SIGINT", onSigint);
 
-    try {
-      const raw = JSON.parse(trimmed);
+  const summary: Summary = {
+    requests: 0,
+    succeeded: 0,
+    failed: 0,
+    cancelled: 0,
+    tokensUsed: 0,
+    toolsCalled: new Set(),
+  };
+  const fail = (message: string, code: string, requestId?: string) => {
+    if (code === "CANCELLED") summary.cancelled++;
+    else summary.failed++;
+    writeError(message, code, requestId);
+  };
 
-      // Try Zod-validated input first, then fall back to legacy format
-      const zodResult = pipedInputSchema.safeParse(raw);
-      let input: PipedInput;
+  // ─── Scheduling ──────────────────────────────────────────────────────────
 
-      if (zodResult.success) {
-        input = zodResult.data;
-      } else {
-        const legacy = tryParseLegacy(raw);
-        if (legacy) {
-          input = legacy;
+  // Tasks start in input order, skipping those whose session is busy
+  const waiting: Task[] = [];
+  const busySessions = new Set<string>();
+  let active = 0;
+  let onSettle: (() => void) | null = null;
+
+  const pump = () => {
+    for (let i = 0; i < waiting.length && active < concurrency;) {
+      const task = waiting[i]!;
+      if (task.session && busySessions.has(task.session)) {
+        i++;
+        continue;
+      }
+      waiting.splice(i, 1);
+      active++;
+      if (task.session) busySessions.add(task.session);
+      void task.run().finally(() => {
+        active--;
+        if (task.session) busySessions.delete(task.session);
+        pump();
+        onSettle?.();
+      });
+    }
+  };
+
+  const schedule = (task: Task) => {
+    summary.requests++;
+    waiting.push(task);
+    pump();
+  };
+
+  const waitForSettle = () =>
+    new Promise<void>((resolve) => {
+      onSettle = () => {
+        onSettle = null;
+        resolve();
+      };
+    });
+
+  // ─── Input ───────────────────────────────────────────────────────────────
+
+  try {
+    for await (const line of rl) {
+      const trimmed = line.trim();
+      if (!trimmed) continue;
+
+      let raw: unknown;
+      try {
+        raw = JSON.parse(trimmed);
+      } catch (error) {
+        const friendly = toAIFriendlyError(error);
+        schedule({ run: async () => fail(friendly.message, friendly.code) });
+        continue;
+      }
+
+      const header = requestHeader(raw);
+
+      // Cancellation is handled out of band, ahead of the queue
+      if (header.action === "cancel") {
+        const parsed = cancelInputSchema.safeParse(raw);
+        const controller = parsed.success && pending.get(parsed.data.id);
+        if (controller) {
+          controller.abort();
         } else {
           writeError(
-            'Invalid input: must provide "action" + "query" or "action" + "session" + "index". Legacy format: "query" or "detail" + "session".',
+            parsed.success
+              ? `No pending request with id "${parsed.data.id}".`
+              : 'Invalid cancel: "id" of a pending request is required.',
             "VALIDATION_ERROR",
-            raw?.id,
+            header.id,
           );
-          continue;
         }
+        continue;
       }
 
-      requestId = input.id;
-
-      if (input.action === "detail") {
-        const response = await getDetail(input.session, input.index, {
-          debug,
+      // Try Zod-validated input first, then fall back to legacy format
+      const zodResult = pipedInputSchema.safeParse(raw);
+      const input = zodResult.success ? zodResult.data : tryParseLegacy(raw);
+      if (!input) {
+        schedule({
+          run: async () =>
+            fail(
+              'Invalid input: must provide "action" + "query", "action" + "session" + "index", or "action": "page" + "session". Legacy format: "query" or "detail" + "session".',
+              "VALIDATION_ERROR",
+              header.id,
+            ),
         });
-        writeSuccess(response.result, response.meta, requestId);
-      } else {
-        const response = await query(input.query, input.session, { debug });
-        writeSuccess(response.result, response.meta, requestId);
+        continue;
       }
-    } catch (error) {
-      const friendly = toAIFriendlyError(error);
-      writeError(friendly.message, friendly.code, requestId);
+
+      const controller = new AbortController();
+      all.add(controller);
+      if (input.id) pending.set(input.id, controller);
+
+      schedule({
+        session: input.session,
+        run: async () => {
+          try {
+            if (controller.signal.aborted) {
+              const friendly = toAIFriendlyError(controller.signal.reason);
+              fail(friendly.message, friendly.code, input.id);
+              return;
+            }
+            const { result, meta } = await handleRequest(
+              input,
+              controller.signal,
+              debug,
+              options,
+            );
+            if (result.type !== "error") summary.succeeded++;
+            else if (result.code === "CANCELLED") summary.cancelled++;
+            else summary.failed++;
+            summary.tokensUsed += meta.tokensUsed;
+            for (const tool of meta.toolsCalled) summary.toolsCalled.add(tool);
+          } catch (error) {
+            const friendly = toAIFriendlyError(error);
+            fail(friendly.message, friendly.code, input.id);
+          } finally {
+            all.delete(controller);
+            if (input.id && pending.get(input.id) === controller) {
+              pending.delete(input.id);
+            }
+          }
+        },
+      });
+
+      // Backpressure: stop pulling lines until a request finishes
+      while (waiting.length >= MAX_QUEUED) await waitForSettle();
+    }
+
+    while (active > 0 || waiting.length > 0) await waitForSettle();
+
+    if (options.concurrency !== undefined) {
+      writeSuccess(
+        {
+          type: "summary",
+          requests: summary.requests,
+          succeeded: summary.succeeded,
+          failed: summary.failed,
+          cancelled: summary.cancelled,
+        },
+        {
+          durationMs: Date.now() - startTime,
+          tokensUsed: summary.tokensUsed,
+          toolsCalled: [...summary.toolsCalled],
+        },
+      );
     }
+  } finally {
+    process.off("SIGINT", onSigint);
   }
 }
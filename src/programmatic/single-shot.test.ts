@@ -3,13 +3,15 @@
  */
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
-import { getDetail, query } from "../agent";
+import { fetchPage, getDetail, query, queryStream } from "../agent";
 import { formatDetailResult, formatError, formatSearchResult } from "../format";
 
 // Mock dependencies
 vi.mock("../agent", () => ({
   query: vi.fn(),
   getDetail: vi.fn(),
+  fetchPage: vi.fn(),
+  queryStream: vi.fn(),
 }));
 
 vi.mock("../format", () => ({
@@ -17,6 +19,7 @@ vi.mock("../format", () => ({
   formatDetailResult: vi.fn(() => "formatted-detail"),
   formatError: vi.fn((msg: string) => `Error: ${msg}`),
   toJSON: vi.fn(() => "{}"),
+  toStreamEventLine: vi.fn((e: { type: string }) => `event:${e.type}`),
 }));
 
 // Import after mocks
@@ -167,6 +170,27 @@ describe("runSingleShot", () => {
       expect(output.error).toBeDefined();
       expect(output.code).toBeDefined();
     });
+
+    it("keeps the error result's code and exits with its exit code", async () => {
+      (query as any).mockResolvedValue({
+        result: {
+          type: "error",
+          session: "s1",
+          error: "Too many requests, slow down.",
+          code: "RATE_LIMIT",
+        },
+        meta: { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
+      });
+
+      await expect(
+        runSingleShot("Find devs", undefined, undefined, true),
+      ).rejects.toThrow("process.exit");
+
+      const output = JSON.parse(mockConsoleLog.mock.calls[0]![0]);
+      expect(output.error).toBe("Too many requests, slow down.");
+      expect(output.code).toBe("RATE_LIMIT");
+      expect(mockProcessExit).toHaveBeenCalledWith(4);
+    });
   });
 
   describe("exception handling", () => {
@@ -238,4 +262,141 @@ describe("runSingleShot", () => {
       });
     });
   });
+
+  describe("paging", () => {
+    const pageResult = {
+      result: {
+        type: "search",
+        session: "s1",
+        query: "Find devs",
+        profiles: [],
+        totalMatches: 30,
+        summary: "",
+        appliedFilters: {},
+        pagination: { page: 2, pageSize: 10, offset: 10, hasMore: true },
+      },
+      meta: { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
+    };
+
+    it("fetches a page of the session's last search when no query is given", async () => {
+      (fetchPage as any).mockResolvedValue(pageResult);
+
+      await runSingleShot("", "s1", undefined, false, false, { page: 2 });
+
+      expect(fetchPage).toHaveBeenCalledWith("s1", 2, { debug: false });
+      expect(query).not.toHaveBeenCalled();
+    });
+
+    it("passes page and limit to query alongside a new search", async () => {
+      (query as any).mockResolvedValue(pageResult);
+
+      await runSingleShot("Find devs", undefined, undefined, false, false, {
+        page: 2,
+        limit: 10,
+      });
+
+      expect(query).toHaveBeenCalledWith("Find devs", undefined, {
+        debug: false,
+        page: 2,
+        limit: 10,
+      });
+    });
+  });
+
+  describe("streaming", () => {
+    it("prints stream events then a single-line envelope", async () => {
+      (queryStream as any).mockImplementation(async function* () {
+        yield { type: "text-delta", delta: "Found" };
+        yield {
+          type: "done",
+          result: {
+            type: "search",
+            session: "s1",
+            query: "Find devs",
+            profiles: [],
+            totalMatches: 0,
+            summary: "Found",
+            appliedFilters: {},
+          },
+          meta: { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
+        };
+      });
+
+      await runSingleShot("Find devs", undefined, undefined, true, false, {
+        stream: true,
+      });
+
+      expect(query).not.toHaveBeenCalled();
+      const lines = mockConsoleLog.mock.calls.map((c) => String(c[0]));
+      expect(lines[0]).toBe("event:text-delta");
+      expect(lines[1]).not.toContain("\n");
+      expect(JSON.parse(lines[1]!).success).toBe(true);
+    });
+
+    it("ignores stream outside JSON mode", async () => {
+      (query as any).mockResolvedValue({
+        result: {
+          type: "search",
+          session: "s1",
+          query: "Find devs",
+          profiles: [],
+          totalMatches: 0,
+          summary: "",
+          appliedFilters: {},
+        },
+        meta: { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
+      });
+
+      await runSingleShot("Find devs", undefined, undefined, false, false, {
+        stream: true,
+      });
+
+      expect(queryStream).not.toHaveBeenCalled();
+      expect(query).toHaveBeenCalled();
+    });
+  });
+
+  describe("export formats", () => {
+    it("writes the result in the requested format instead of the table", async () => {
+      const mockStdoutWrite = vi
+        .spyOn(process.stdout, "write")
+        .mockImplementation(() => true);
+      (query as any).mockResolvedValue({
+        result: {
+          type: "search",
+          session: "s1",
+          query: "Find devs",
+          profiles: [{ id: "p1", displayName: "Jane Doe" }],
+          totalMatches: 1,
+          summary: "",
+          appliedFilters: {},
+        },
+        meta: { durationMs: 100, tokensUsed: 0, toolsCalled: [] },
+      });
+
+      await runSingleShot("Find devs", undefined, undefined, false, false, {
+        format: "md",
+      });
+
+      expect(formatSearchResult).not.toHaveBeenCalled();
+      const output = String(mockStdoutWrite.mock.calls[0]![0]);
+      expect(output).toContain("| Name |");
+      expect(output).toContain("Jane Doe");
+    });
+
+    it("still reports errors on stderr", async () => {
+      (query as any).mockResolvedValue({
+        result: { type: "error", session: "s1", error: "Boom" },
+        meta: { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
+      });
+
+      await expect(
+        runSingleShot("Find devs", undefined, undefined, false, false, {
+          format: "csv",
+        }),
+      ).rejects.toThrow("process.exit");
+
+      expect(formatError).toHaveBeenCalledWith("Boom", "s1");
+    });
+  });
 });
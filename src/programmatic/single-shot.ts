@@ -6,19 +6,46 @@
  *   talent-agent --json "Find senior Python engineers"
  *   talent-agent --session abc123 "Only show seniors"
  *   talent-agent --session abc123 --detail 0
+ *   talent-agent --session abc123 --page 2
+ *   talent-agent --limit 25 "Find Rust developers"
+ *   talent-agent --json --stream "Find Go developers"
+ *   talent-agent --format csv "Find Go developers" > devs.csv
+ *   talent-agent --columns name,company,years "Find Go developers"
+ *
+ * With --stream (JSON mode only), each text delta and tool step is printed as
+ * a JSONL `{"event": ...}` line as it arrives, followed by the usual envelope
+ * on a single line.
+ *
+ * With --format, results are printed as CSV/TSV/Markdown/JSONL/HTML (see
+ * ../export) instead of the ANSI table; errors still go to stderr.
+ *
+ * The ANSI table shows --columns, else the `columns` default from
+ * ~/.talent-agent/config.json (see ../columns).
  */
-import { getDetail, query } from "../agent";
+import {
+  type AgentMeta,
+  type AgentResult,
+  type QueryOptions,
+  fetchPage,
+  getDetail,
+  query,
+  queryStream,
+} from "../agent";
+import { type ColumnId, resolveColumns } from "../columns";
+import { loadConfig } from "../config";
 import {
   EXIT_APP_ERROR,
   EXIT_SUCCESS,
   exitCodeForError,
   toAIFriendlyError,
 } from "../errors";
+import { type ExportFormat, exportResult } from "../export";
 import {
   formatDetailResult,
   formatError,
   formatSearchResult,
   toJSON,
+  toStreamEventLine,
 } from "../format";
 
 function wrapEnvelope(
@@ -26,56 +53,121 @@ function wrapEnvelope(
   data: unknown,
   meta: { durationMs: number; tokensUsed: number; toolsCalled: string[] },
   error?: { message: string; code: string },
+  indent: number = 2,
 ): string {
   if (success) {
-    return JSON.stringify({ success: true, data, meta }, null, 2);
+    return JSON.stringify({ success: true, data, meta }, null, indent);
   }
   return JSON.stringify(
     { success: false, error: error!.message, code: error!.code },
     null,
-    2,
+    indent,
   );
 }
 
+/**
+ * Run a query, printing each stream event as a JSONL line, and return the
+ * final result.
+ */
+async function streamQuery(
+  queryText: string,
+  sessionId: string | undefined,
+  options: QueryOptions,
+): Promise<{ result: AgentResult; meta: AgentMeta }> {
+  for await (const event of queryStream(queryText, sessionId, options)) {
+    if (event.type === "done") {
+      return { result: event.result, meta: event.meta };
+    }
+    console.log(toStreamEventLine(event));
+  }
+  throw new Error("Query stream ended without a result");
+}
+
+export interface SingleShotOptions {
+  page?: number;
+  limit?: number;
+  /** Print JSONL stream events before the envelope (JSON mode only). */
+  stream?: boolean;
+  /** Give up after this many milliseconds with a TIMEOUT error. */
+  timeoutMs?: number;
+  /** Print results in an export format instead of the ANSI table. */
+  format?: ExportFormat;
+  /** Search table columns; defaults to the configured columns. */
+  columns?: ColumnId[];
+}
+
 export async function runSingleShot(
   queryText: string,
   sessionId?: string,
   detailIndex?: number,
   jsonOutput: boolean = false,
   debug: boolean = false,
+  options: SingleShotOptions = {},
 ): Promise<void> {
+  // Stream events and the envelope together form JSONL, so keep it on one line
+  const stream = jsonOutput && options.stream === true;
+  const indent = stream ? 0 : 2;
+
   try {
     let response;
 
     if (detailIndex !== undefined && sessionId) {
       // Detail mode: get profile detail by index from previous search
-      response = await getDetail(sessionId, detailIndex, { debug });
+      response = await getDetail(sessionId, detailIndex, {
+        debug,
+        timeoutMs: options.timeoutMs,
+      });
+    } else if (!queryText && sessionId && options.page !== undefined) {
+      // Page mode: another page of the session's last search
+      response = await fetchPage(sessionId, options.page, {
+        debug,
+        limit: options.limit,
+        timeoutMs: options.timeoutMs,
+      });
     } else {
       // Search mode
-      response = await query(queryText, sessionId, { debug });
+      const queryOptions = {
+        debug,
+        page: options.page,
+        limit: options.limit,
+        timeoutMs: options.timeoutMs,
+      };
+      response = stream
+        ? await streamQuery(queryText, sessionId, queryOptions)
+        : await query(queryText, sessionId, queryOptions);
     }
 
     const { result, meta } = response;
 
     if (jsonOutput) {
       if (result.type === "error") {
-        const friendly = toAIFriendlyError(result.error);
-        console.log(wrapEnvelope(false, null, meta, friendly));
+        const friendly = result.code
+          ? { message: result.error, code: result.code }
+          : toAIFriendlyError(result.error);
+        console.log(wrapEnvelope(false, null, meta, friendly, indent));
         process.exit(exitCodeForError(friendly.code));
       } else {
-        console.log(wrapEnvelope(true, result, meta));
+        console.log(wrapEnvelope(true, result, meta, undefined, indent));
       }
+    } else if (options.format && result.type !== "error") {
+      process.stdout.write(exportResult(result, options.format));
     } else {
       switch (result.type) {
         case "search":
-          console.log(formatSearchResult(result));
+          console.log(
+            formatSearchResult(result, {
+              columns: resolveColumns(options.columns, loadConfig().columns),
+            }),
+          );
           break;
         case "detail":
           console.log(formatDetailResult(result));
           break;
         case "error":
           console.error(formatError(result.error, result.session));
-          process.exit(EXIT_APP_ERROR);
+          process.exit(
+            result.code ? exitCodeForError(result.code) : EXIT_APP_ERROR,
+          );
       }
     }
   } catch (error) {
@@ -87,6 +179,7 @@ export async function runSingleShot(
           null,
           { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
           friendly,
+          indent,
         ),
       );
     } else {
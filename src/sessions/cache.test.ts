@@ -0,0 +1,203 @@
+/**
+ * Unit tests for the on-disk session cache.
+ *
+ * We mock `node:os` homedir to redirect the cache to a temp directory, the
+ * same way the credential store tests do.
+ */
+import {
+  existsSync,
+  mkdtempSync,
+  readdirSync,
+  rmSync,
+  utimesSync,
+  writeFileSync,
+} from "node:fs";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { Session } from "../agent";
+import {
+  _resetPruneSchedule,
+  getSessionTtlMs,
+  pruneSessionCache,
+  readCachedSession,
+  removeCachedSession,
+  writeCachedSession,
+} from "./cache";
+
+let tempHome: string;
+
+vi.mock("node:os", () => ({
+  homedir: () => tempHome,
+  tmpdir: () => require("os").tmpdir(),
+}));
+
+const originalEnv = { ...process.env };
+
+function sessionsDir(): string {
+  return join(tempHome, ".talent-agent", "sessions");
+}
+
+function sampleSession(id: string): Session {
+  return {
+    id,
+    serverSessionId: id,
+    messages: [
+      { id: "m1", role: "user", parts: [{ type: "text", text: "Find devs" }] },
+    ],
+    lastResult: {
+      type: "search",
+      session: id,
+      query: "Find devs",
+      profiles: [{ id: "p1" }],
+      totalMatches: 1,
+      summary: "",
+      appliedFilters: {},
+    },
+  };
+}
+
+function backdate(path: string, ageMs: number): void {
+  const when = (Date.now() - ageMs) / 1000;
+  utimesSync(path, when, when);
+}
+
+beforeEach(() => {
+  tempHome = mkdtempSync(join(require("os").tmpdir(), "talent-agent-cache-"));
+  delete process.env.TALENT_AGENT_SESSION_CACHE;
+  delete process.env.TALENT_AGENT_SESSION_TTL;
+  _resetPruneSchedule();
+});
+
+afterEach(() => {
+  rmSync(tempHome, { recursive: true, force: true });
+  process.env = { ...originalEnv };
+});
+
+describe("session cache", () => {
+  it("round-trips a session through disk", () => {
+    writeCachedSession(sampleSession("123"));
+
+    const cached = readCachedSession("123");
+    expect(cached?.id).toBe("123");
+    expect(cached?.lastResult?.type).toBe("search");
+    expect(cached?.messages[0]?.parts[0]?.text).toBe("Find devs");
+  });
+
+  it("returns null for unknown sessions", () => {
+    expect(readCachedSession("nope")).toBeNull();
+  });
+
+  it("ignores and removes expired entries", () => {
+    writeCachedSession(sampleSession("old"));
+    backdate(join(sessionsDir(), "old.json"), 8 * 24 * 60 * 60 * 1000);
+
+    expect(readCachedSession("old")).toBeNull();
+    expect(existsSync(join(sessionsDir(), "old.json"))).toBe(false);
+  });
+
+  it("honours TALENT_AGENT_SESSION_TTL", () => {
+    process.env.TALENT_AGENT_SESSION_TTL = "1h";
+    expect(getSessionTtlMs()).toBe(60 * 60 * 1000);
+
+    writeCachedSession(sampleSession("s1"));
+    backdate(join(sessionsDir(), "s1.json"), 2 * 60 * 60 * 1000);
+    expect(readCachedSession("s1")).toBeNull();
+  });
+
+  it("prunes expired entries on write", () => {
+    writeCachedSession(sampleSession("stale"));
+    backdate(join(sessionsDir(), "stale.json"), 30 * 24 * 60 * 60 * 1000);
+    _resetPruneSchedule();
+
+    writeCachedSession(sampleSession("fresh"));
+
+    expect(readdirSync(sessionsDir())).toEqual(["fresh.json"]);
+    expect(pruneSessionCache()).toBe(0);
+  });
+
+  it("prunes at most once an hour", () => {
+    writeCachedSession(sampleSession("first"));
+    writeCachedSession(sampleSession("stale"));
+    backdate(join(sessionsDir(), "stale.json"), 30 * 24 * 60 * 60 * 1000);
+
+    writeCachedSession(sampleSession("fresh"));
+    expect(existsSync(join(sessionsDir(), "stale.json"))).toBe(true);
+
+    vi.spyOn(Date, "now").mockReturnValue(Date.now() + 61 * 60 * 1000);
+    writeCachedSession(sampleSession("later"));
+    vi.restoreAllMocks();
+    expect(existsSync(join(sessionsDir(), "stale.json"))).toBe(false);
+  });
+
+  it("breaks stale lock files left by crashed processes", () => {
+    writeCachedSession(sampleSession("locked"));
+    const lockPath = join(sessionsDir(), "locked.json.lock");
+    writeFileSync(lockPath, "");
+    backdate(lockPath, 60_000);
+
+    const updated = sampleSession("locked");
+    updated.messages.push({
+      id: "m2",
+      role: "assistant",
+      parts: [{ type: "text", text: "Found 1." }],
+    });
+    writeCachedSession(updated);
+
+    expect(readCachedSession("locked")?.messages).toHaveLength(2);
+    expect(existsSync(lockPath)).toBe(false);
+  });
+
+  it("waits for a held lock without blocking, keeping writes in order", async () => {
+    writeCachedSession(sampleSession("busy"));
+    const lockPath = join(sessionsDir(), "busy.json.lock");
+    writeFileSync(lockPath, "");
+
+    const second = sampleSession("busy");
+    second.messages.push({
+      id: "m2",
+      role: "assistant",
+      parts: [{ type: "text", text: "Found 1." }],
+    });
+    const third = structuredClone(second);
+    third.messages.push({
+      id: "m3",
+      role: "user",
+      parts: [{ type: "text", text: "Only seniors" }],
+    });
+    writeCachedSession(second);
+    writeCachedSession(third);
+    expect(readCachedSession("busy")?.messages).toHaveLength(1);
+
+    // Timers still fire while the writes wait for the lock
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    rmSync(lockPath);
+
+    await vi.waitFor(() =>
+      expect(readCachedSession("busy")?.messages).toHaveLength(3),
+    );
+    expect(existsSync(lockPath)).toBe(false);
+  });
+
+  it("does not cache IDs that aren't file-safe", () => {
+    writeCachedSession(sampleSession("a.b"));
+    writeCachedSession(sampleSession("a_b"));
+
+    expect(readCachedSession("a.b")).toBeNull();
+    expect(readCachedSession("a_b")?.id).toBe("a_b");
+    expect(readdirSync(sessionsDir())).toEqual(["a_b.json"]);
+  });
+
+  it("removes a single entry", () => {
+    writeCachedSession(sampleSession("gone"));
+    removeCachedSession("gone");
+    expect(readCachedSession("gone")).toBeNull();
+  });
+
+  it("does nothing when disabled", () => {
+    process.env.TALENT_AGENT_SESSION_CACHE = "0";
+    writeCachedSession(sampleSession("off"));
+    expect(existsSync(sessionsDir())).toBe(false);
+    expect(readCachedSession("off")).toBeNull();
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * On-disk session cache shared across CLI invocations.
+ *
+ * Each session is stored as `~/.talent-agent/sessions/<id>.json` using the
+ * session file format from ./file, so a second process can pick up the
+ * message history and `lastResult` of a search started by the first one
+ * (e.g. `talent-agent --session abc --detail 0`).
+ *
+ * - Entries older than the TTL (default 7 days, `TALENT_AGENT_SESSION_TTL`
+ *   accepts "12h", "30d", ...) are ignored on read and pruned on write, at
+ *   most once an hour per process.
+ * - Writes take a `<id>.lock` file (exclusive create) and replace the entry
+ *   atomically via rename, so concurrent invocations never see a torn file.
+ *   While another process holds the lock, the write retries on a timer.
+ * - Only IDs made of letters, digits, `_` and `-` (server IDs and nanoids)
+ *   are cached, so two IDs never share a file.
+ * - Set `TALENT_AGENT_SESSION_CACHE=0` to disable the cache entirely.
+ */
+import {
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+
+import type { Session } from "../agent";
+import { parseDuration } from "../duration";
+import { deserializeSession, serializeSession } from "./file";
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+const DEFAULT_TTL_MS = 7 * 24 * 60 * 60 * 1_000; // 7 days
+const LOCK_TIMEOUT_MS = 2_000;
+const LOCK_STALE_MS = 10_000;
+const LOCK_RETRY_MS = 25;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1_000; // 1 hour
+
+// Computed lazily so tests can mock homedir() per-test without vi.resetModules()
+function getSessionsDir(): string {
+  return join(homedir(), ".talent-agent", "sessions");
+}
+
+/** Session IDs are numeric (server) or nanoid, both usable as file names. */
+const CACHEABLE_ID = /^[A-Za-z0-9_-]{1,128}$/;
+
+/**
+ * Cache file of a session, or null for an ID that is not file-safe as-is.
+ * Those aren't cached rather than mapped onto another ID's file.
+ */
+function entryPath(sessionId: string): string | null {
+  if (!CACHEABLE_ID.test(sessionId)) return null;
+  return join(getSessionsDir(), `${sessionId}.json`);
+}
+
+function isCacheEnabled(): boolean {
+  const flag = process.env.TALENT_AGENT_SESSION_CACHE;
+  return flag !== "0" && flag !== "false";
+}
+
+export function getSessionTtlMs(): number {
+  const raw = process.env.TALENT_AGENT_SESSION_TTL;
+  if (!raw) return DEFAULT_TTL_MS;
+  return parseDuration(raw) ?? DEFAULT_TTL_MS;
+}
+
+// ─── Locking ────────────────────────────────────────────────────────────────
+
+/** Locked operations still waiting for their turn, by entry path. */
+const waiting = new Map<string, Promise<void>>();
+
+/**
+ * Take the lock file, or return false while another process holds it.
+ * Locks left behind by a crashed process are broken after LOCK_STALE_MS.
+ */
+function tryLock(lockPath: string): boolean {
+  while (true) {
+    try {
+      closeSync(openSync(lockPath, "wx", 0o600));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      try {
+        if (Date.now() - statSync(lockPath).mtimeMs <= LOCK_STALE_MS) {
+          return false;
+        }
+        unlinkSync(lockPath);
+      } catch {
+        // Lock disappeared between checks -- retry immediately
+      }
+    }
+  }
+}
+
+function runLocked(lockPath: string, fn: () => void): void {
+  try {
+    fn();
+  } finally {
+    try {
+      unlinkSync(lockPath);
+    } catch {
+      // Already removed (e.g. broken as stale by another process)
+    }
+  }
+}
+
+/**
+ * Run `fn` while holding an exclusive lock file next to the entry. Runs at
+ * once when the lock is free; otherwise retries every LOCK_RETRY_MS without
+ * blocking the event loop, after any earlier call for the same entry, and
+ * rejects after LOCK_TIMEOUT_MS.
+ */
+function withLock(path: string, fn: () => void): Promise<void> {
+  const lockPath = `${path}.lock`;
+  const earlier = waiting.get(path);
+  if (!earlier && tryLock(lockPath)) {
+    runLocked(lockPath, fn);
+    return Promise.resolve();
+  }
+
+  const run = (earlier ?? Promise.resolve())
+    .catch(() => {})
+    .then(async () => {
+      const deadline = Date.now() + LOCK_TIMEOUT_MS;
+      while (!tryLock(lockPath)) {
+        if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for session lock ${lockPath}`);
+        }
+        await sleep(LOCK_RETRY_MS);
+      }
+      runLocked(lockPath, fn);
+    });
+  const queued: Promise<void> = run.finally(() => {
+    if (waiting.get(path) === queued) waiting.delete(path);
+  });
+  waiting.set(path, queued);
+  return queued;
+}
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Read a cached session. Returns null if caching is disabled, the entry is
+ * missing, expired or unreadable.
+ */
+export function readCachedSession(sessionId: string): Session | null {
+  if (!isCacheEnabled()) return null;
+
+  const path = entryPath(sessionId);
+  if (!path) return null;
+  try {
+    if (!existsSync(path)) return null;
+    if (Date.now() - statSync(path).mtimeMs > getSessionTtlMs()) {
+      removeCachedSession(sessionId);
+      return null;
+    }
+    return deserializeSession(JSON.parse(readFileSync(path, "utf-8")));
+  } catch {
+    return null;
+  }
+}
+
+/** When this process last pruned the cache. */
+let lastPruneAt = -Infinity;
+
+/**
+ * Forget when the cache was last pruned (for testing only).
+ */
+export function _resetPruneSchedule(): void {
+  lastPruneAt = -Infinity;
+}
+
+/**
+ * Write a session to the cache, pruning expired entries if this process
+ * hasn't done so in the last PRUNE_INTERVAL_MS. The entry is written before
+ * this returns unless another process holds its lock.
+ *
+ * Best-effort: failures are swallowed so a read-only home directory never
+ * breaks a search.
+ */
+export function writeCachedSession(session: Session): void {
+  if (!isCacheEnabled()) return;
+  const path = entryPath(session.id);
+  if (!path) return;
+
+  try {
+    const dir = getSessionsDir();
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true, mode: 0o700 });
+
+    const data = JSON.stringify(serializeSession(session));
+    withLock(path, () => {
+      const tmpPath = `${path}.${process.pid}.tmp`;
+      writeFileSync(tmpPath, data, { encoding: "utf-8", mode: 0o600 });
+      renameSync(tmpPath, path);
+    }).catch(() => {
+      // Lock never freed up; the in-memory session is still valid
+    });
+
+    const now = Date.now();
+    if (now - lastPruneAt >= PRUNE_INTERVAL_MS) {
+      lastPruneAt = now;
+      pruneSessionCache(now);
+    }
+  } catch {
+    // Non-critical: the in-memory session is still valid for this process
+  }
+}
+
+/**
+ * Remove a single session from the cache.
+ */
+export function removeCachedSession(sessionId: string): void {
+  const path = entryPath(sessionId);
+  if (!path) return;
+  try {
+    withLock(path, () => {
+      if (existsSync(path)) unlinkSync(path);
+    }).catch(() => {
+      // Ignore -- nothing to clean up
+    });
+  } catch {
+    // Ignore -- nothing to clean up
+  }
+}
+
+/**
+ * Delete cache entries whose last write is older than the TTL.
+ * Returns the number of entries removed.
+ */
+export function pruneSessionCache(now: number = Date.now()): number {
+  const dir = getSessionsDir();
+  if (!existsSync(dir)) return 0;
+
+  const ttl = getSessionTtlMs();
+  let removed = 0;
+  for (const name of readdirSync(dir)) {
+    if (!name.endsWith(".json")) continue;
+    const path = join(dir, name);
+    try {
+      if (now - statSync(path).mtimeMs > ttl) {
+        unlinkSync(path);
+        removed++;
+      }
+    } catch {
+      // Entry vanished or is being replaced -- skip it
+    }
+  }
+  return removed;
+}
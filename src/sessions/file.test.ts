@@ -0,0 +1,200 @@
+/**
+ * Unit tests for session file save/load.
+ */
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  type SearchResult,
+  type Session,
+  getSession,
+  restoreSession,
+} from "../agent";
+import {
+  SESSION_FILE_VERSION,
+  deserializeSession,
+  loadSessionFromFile,
+  saveSessionToFile,
+  serializeSession,
+} from "./file";
+
+let tempDir: string;
+
+// restoreSession() writes through to ~/.talent-agent/sessions; keep it in tempDir.
+vi.mock("node:os", () => ({
+  homedir: () => tempDir,
+  tmpdir: () => require("os").tmpdir(),
+}));
+
+let getValidTokenSpy: ReturnType<typeof vi.spyOn> | undefined;
+
+const originalEnv = { ...process.env };
+
+function sampleSession(id: string): Session {
+  return {
+    id,
+    serverSessionId: id,
+    messages: [
+      {
+        id: "m1",
+        role: "user",
+        parts: [{ type: "text", text: "Find React devs" }],
+      },
+      {
+        id: "m2",
+        role: "assistant",
+        parts: [{ type: "text", text: "Found 1 developer." }],
+      },
+    ],
+    lastResult: {
+      type: "search",
+      session: id,
+      query: "Find React devs",
+      profiles: [{ id: "p1", displayName: "Jane Doe" }],
+      totalMatches: 1,
+      summary: "Found 1 developer.",
+      appliedFilters: {},
+    },
+  };
+}
+
+beforeEach(async () => {
+  tempDir = mkdtempSync(
+    join(require("os").tmpdir(), "talent-agent-session-file-test-"),
+  );
+  process.env.TALENT_PRO_URL = "http://localhost:3000";
+
+  const store = await import("../auth/store");
+  getValidTokenSpy = vi
+    .spyOn(store, "getValidToken")
+    .mockResolvedValue("mock-token" as any);
+});
+
+afterEach(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+  process.env = { ...originalEnv };
+  getValidTokenSpy?.mockRestore();
+  vi.restoreAllMocks();
+});
+
+describe("serializeSession / deserializeSession", () => {
+  it("round-trips messages, lastResult and server session ID", () => {
+    const session = sampleSession("101");
+    const file = serializeSession(session);
+
+    expect(file.version).toBe(SESSION_FILE_VERSION);
+    expect(file.serverSessionId).toBe("101");
+    expect(file.messages).toEqual([
+      { id: "m1", role: "user", content: "Find React devs" },
+      { id: "m2", role: "assistant", content: "Found 1 developer." },
+    ]);
+
+    const restored = deserializeSession(JSON.parse(JSON.stringify(file)));
+    expect(restored).toEqual(session);
+  });
+
+  it("round-trips the session owner", () => {
+    const session = { ...sampleSession("101"), owner: "abc123" };
+
+    const file = serializeSession(session);
+
+    expect(file.owner).toBe("abc123");
+    expect(deserializeSession(JSON.parse(JSON.stringify(file)))).toEqual(
+      session,
+    );
+  });
+
+  it("round-trips the last search behind a detail result", () => {
+    const base = sampleSession("101");
+    const session: Session = {
+      ...base,
+      lastResult: {
+        type: "detail",
+        session: "101",
+        profile: { id: "p1" } as never,
+        summary: "",
+      },
+      lastSearch: base.lastResult as SearchResult,
+    };
+
+    const restored = deserializeSession(
+      JSON.parse(JSON.stringify(serializeSession(session))),
+    );
+
+    expect(restored).toEqual(session);
+  });
+
+  it("rejects unsupported versions", () => {
+    const file = { ...serializeSession(sampleSession("1")), version: 99 };
+    expect(() => deserializeSession(file)).toThrow(
+      "Unsupported session file version",
+    );
+  });
+
+  it("rejects malformed files with the offending path", () => {
+    const file = serializeSession(sampleSession("1")) as any;
+    file.messages[0].role = "robot";
+    expect(() => deserializeSession(file)).toThrow("messages.0.role");
+  });
+});
+
+describe("saveSessionToFile / loadSessionFromFile", () => {
+  it("saves a cached session and loads it back into the cache", async () => {
+    restoreSession(sampleSession("save-1"));
+    const path = join(tempDir, "session.json");
+
+    await saveSessionToFile("save-1", path);
+    const onDisk = JSON.parse(readFileSync(path, "utf-8"));
+    expect(onDisk.id).toBe("save-1");
+    expect(onDisk.lastResult.profiles).toHaveLength(1);
+
+    onDisk.id = "load-1";
+    writeFileSync(path, JSON.stringify(onDisk));
+    const loaded = await loadSessionFromFile(path);
+
+    expect(loaded.id).toBe("load-1");
+    expect(getSession("load-1")?.lastResult?.type).toBe("search");
+  });
+
+  it("re-registers the history with the server when requested", async () => {
+    const path = join(tempDir, "session.json");
+    writeFileSync(
+      path,
+      JSON.stringify(serializeSession(sampleSession("old-1"))),
+    );
+
+    const fetchSpy = vi
+      .spyOn(globalThis, "fetch")
+      .mockImplementation(async (input: string | URL | Request) => {
+        const url = String(input);
+        if (url.endsWith("/messages/bulk")) {
+          return new Response("{}", { status: 201 });
+        }
+        return new Response(JSON.stringify({ session: { id: 555 } }), {
+          status: 200,
+        });
+      });
+
+    const loaded = await loadSessionFromFile(path, { register: true });
+
+    expect(loaded.id).toBe("555");
+    expect(loaded.serverSessionId).toBe("555");
+    expect(loaded.lastResult?.session).toBe("555");
+    expect(getSession("old-1")).toBeUndefined();
+
+    const bulkCall = fetchSpy.mock.calls.find((c) =>
+      String(c[0]).includes("/api/ai-chat/sessions/555/messages/bulk"),
+    );
+    expect(bulkCall).toBeDefined();
+    const body = JSON.parse((bulkCall![1] as RequestInit).body as string);
+    expect(body.messages).toHaveLength(2);
+    expect(body.messages[0].content).toBe("Find React devs");
+  });
+
+  it("reports unreadable files", async () => {
+    await expect(
+      loadSessionFromFile(join(tempDir, "missing.json")),
+    ).rejects.toThrow("Cannot read session file");
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Versioned session files for `talent-agent session save` / `session load`.
+ *
+ * A session file captures everything needed to reopen a search elsewhere:
+ * the text message history, the last structured result, and the server
+ * session ID it was backed by.
+ *
+ * Format (version 1):
+ *   {
+ *     "version": 1,
+ *     "id": "abc123",
+ *     "serverSessionId": "abc123",
+ *     "savedAt": "2025-01-01T00:00:00.000Z",
+ *     "messages": [{ "id": "...", "role": "user", "content": "..." }],
+ *     "lastResult": { "type": "search", ... } | null,
+ *     "lastSearch": { "type": "search", ... }  (optional, see Session.lastSearch)
+ *     "owner": "..."  (optional, see Session.owner)
+ *   }
+ */
+import { readFileSync, writeFileSync } from "node:fs";
+import { z } from "zod";
+
+import {
+  type AgentResult,
+  type SearchResult,
+  type Session,
+  loadSession,
+  registerSession,
+  restoreSession,
+} from "../agent";
+
+// ─── Schema ─────────────────────────────────────────────────────────────────
+
+export const SESSION_FILE_VERSION = 1;
+
+const messageSchema = z.object({
+  id: z.string(),
+  role: z.enum(["user", "assistant", "system"]),
+  content: z.string(),
+});
+
+const lastResultSchema = z.looseObject({
+  type: z.enum(["search", "detail", "error"]),
+});
+
+const sessionFileSchema = z.object({
+  version: z.literal(SESSION_FILE_VERSION),
+  id: z.string().min(1),
+  serverSessionId: z.string().nullable(),
+  savedAt: z.string(),
+  messages: z.array(messageSchema),
+  lastResult: lastResultSchema.nullable(),
+  lastSearch: z
+    .custom<SearchResult>(
+      (value) => (value as { type?: unknown } | null)?.type === "search",
+      "Expected a search result",
+    )
+    .optional(),
+  owner: z.string().optional(),
+});
+
+export type SessionFile = Omit<
+  z.infer<typeof sessionFileSchema>,
+  "lastResult"
+> & { lastResult: AgentResult | null };
+
+// ─── Serialization ──────────────────────────────────────────────────────────
+
+/**
+ * Convert an in-memory session into the session file format.
+ * Only text parts are kept, matching what the server accepts on replay.
+ */
+export function serializeSession(session: Session): SessionFile {
+  return {
+    version: SESSION_FILE_VERSION,
+    id: session.id,
+    serverSessionId: session.serverSessionId ?? null,
+    savedAt: new Date().toISOString(),
+    messages: session.messages.map((m) => ({
+      id: m.id,
+      role: m.role,
+      content: m.parts
+        .filter((p) => p.type === "text" && p.text)
+        .map((p) => p.text)
+        .join(""),
+    })),
+    lastResult: session.lastResult,
+    ...(session.lastSearch && { lastSearch: session.lastSearch }),
+    ...(session.owner && { owner: session.owner }),
+  };
+}
+
+/**
+ * Validate raw session file contents and convert them back into a session.
+ * Throws with a readable message if the file is malformed or from an
+ * unsupported version.
+ */
+export function deserializeSession(raw: unknown): Session {
+  const version = (raw as { version?: unknown } | null)?.version;
+  if (version !== undefined && version !== SESSION_FILE_VERSION) {
+    throw new Error(
+      `Unsupported session file version: ${String(version)} (expected ${SESSION_FILE_VERSION})`,
+    );
+  }
+
+  const parsed = sessionFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const path = issue?.path.join(".") || "(root)";
+    throw new Error(`Invalid session file at ${path}: ${issue?.message}`);
+  }
+
+  const file = parsed.data;
+  return {
+    id: file.id,
+    serverSessionId: file.serverSessionId ?? undefined,
+    messages: file.messages.map((m) => ({
+      id: m.id,
+      role: m.role,
+      parts: m.content ? [{ type: "text", text: m.content }] : [],
+    })),
+    lastResult: file.lastResult as AgentResult | null,
+    ...(file.lastSearch && { lastSearch: file.lastSearch }),
+    ...(file.owner && { owner: file.owner }),
+  };
+}
+
+// ─── File I/O ───────────────────────────────────────────────────────────────
+
+/**
+ * Save a session to a JSON file.
+ * Loads the session from the server first if this process hasn't seen it.
+ */
+export async function saveSessionToFile(
+  sessionId: string,
+  path: string,
+): Promise<SessionFile> {
+  const session = await loadSession(sessionId);
+  const file = serializeSession(session);
+  writeFileSync(path, JSON.stringify(file, null, 2) + "\n", "utf-8");
+  return file;
+}
+
+export interface LoadSessionOptions {
+  /** Upload the history to a fresh server session (new session ID). */
+  register?: boolean;
+}
+
+/**
+ * Load a session file into the local session cache.
+ *
+ * With `register`, the history is re-created server-side so the session can
+ * be continued from a machine that never saw the original server session.
+ */
+export async function loadSessionFromFile(
+  path: string,
+  options?: LoadSessionOptions,
+): Promise<Session> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `Cannot read session file ${path}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const session = restoreSession(deserializeSession(raw));
+  if (options?.register) {
+    return registerSession(session);
+  }
+  return session;
+}
@@ -112,6 +112,7 @@ vi.mock("@opentui/core", () => {
       root: {
         add: vi.fn(),
       },
+      on: vi.fn(),
       keyInput: {
         on: (_event: string, handler: (key: { name: string }) => void) => {
           keyHandlers.push(handler);
@@ -125,6 +126,7 @@ vi.mock("@opentui/core", () => {
 // cross-file contamination (vi.mock leaks across files in Bun 1.x).
 let sidebarSpy: ReturnType<typeof vi.spyOn> | undefined;
 let resultsSpy: ReturnType<typeof vi.spyOn> | undefined;
+let resultsState: any;
 
 describe("runTUI", () => {
   beforeEach(async () => {
@@ -172,7 +174,7 @@ describe("runTUI", () => {
         }) as any,
     );
 
-    let currentState: any = { result: null, loading: false };
+    resultsState = { result: null, loading: false };
     const resultsModule = await import("./results");
     resultsSpy = vi
       .spyOn(resultsModule, "createResultsPanel")
@@ -196,10 +198,10 @@ describe("runTUI", () => {
               focus: vi.fn(),
             },
             update: vi.fn((newState: any) => {
-              Object.assign(currentState, newState);
+              Object.assign(resultsState, newState);
             }),
             showHelp: vi.fn(),
-            getState: vi.fn(() => currentState),
+            getState: vi.fn(() => resultsState),
           }) as any,
       );
   });
@@ -241,4 +243,44 @@ describe("runTUI", () => {
     // focus() should have been called on the search input
     expect(mockFocus).toHaveBeenCalled();
   });
+
+  it("opens another profile after Esc goes back from a detail", async () => {
+    const { runTUI } = await import("./app");
+    await runTUI();
+
+    const search = {
+      type: "search",
+      session: "s1",
+      query: "rust developers",
+      profiles: [{ id: "p1" }, { id: "p2" }],
+      totalMatches: 2,
+      appliedFilters: {},
+    };
+    resultsState.result = search;
+    vi.mocked(mockGetDetail).mockImplementation(
+      async (session: string, index: number) =>
+        ({
+          result: {
+            type: "detail",
+            session,
+            profile: search.profiles[index],
+          },
+          meta: { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
+        }) as any,
+    );
+    const press = (name: string) =>
+      (keyHandlers[0] as (key: { name: string }) => Promise<void>)({ name });
+
+    await press("tab");
+    await press("0");
+    expect(resultsState.result.profile).toEqual({ id: "p1" });
+
+    await press("escape");
+    expect(resultsState.result).toBe(search);
+
+    await press("tab");
+    await press("1");
+    expect(mockGetDetail).toHaveBeenLastCalledWith("s1", 1, expect.anything());
+    expect(resultsState.result.profile).toEqual({ id: "p2" });
+  });
 });
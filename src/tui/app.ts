@@ -11,13 +11,17 @@
  *   j/k, Up/Dn - Navigate (sidebar selection, results scroll)
  *   Enter       - Submit search / select sidebar entry
  *   0-9         - Show detail for profile at that index (outside input)
- *   Esc         - Back to results from detail view / return to input
+ *   n / p       - Next / previous page of results (outside input)
+ *   Esc         - Cancel a loading request / back to results from detail
+ *                 view / return to input
  *   q / Ctrl+C  - Quit (when input is not focused)
  *
  * Slash commands (typed in the input):
  *   /help, /h       - Show help
  *   /detail n, /d n - View profile at index n
  *   /clear          - Clear results and history
+ *   /export <path>  - Save the shown results (format from the extension)
+ *   /columns [list] - Show or set the search table columns (saved to config)
  *   /quit, /q       - Exit
  */
 import {
@@ -31,16 +35,28 @@ import {
   fg,
   t,
 } from "@opentui/core";
+import { writeFileSync } from "node:fs";
 
 import {
   type AgentResult,
   type SearchResult,
   fetchRecentSessions,
+  hasMoreResults,
+  loadSession,
+  queryStream,
+  fetchPage as rawFetchPage,
   getDetail as rawGetDetail,
-  query as rawQuery,
 } from "../agent";
 import { runInteractiveLogin } from "../auth/flows";
 import { clearCredentials, getValidToken } from "../auth/store";
+import {
+  COLUMN_IDS,
+  type ColumnId,
+  parseColumns,
+  resolveColumns,
+} from "../columns";
+import { loadConfig, updateConfig } from "../config";
+import { EXPORT_FORMATS, exportResult, formatFromPath } from "../export";
 import { createResultsPanel } from "./results";
 import {
   type SearchHistoryEntry,
@@ -50,20 +66,30 @@ import {
 import { initTheme, theme } from "./theme";
 
 /** Unwrap the { result, meta } envelope from agent calls for TUI usage. */
-async function query(input: string, sessionId?: string): Promise<AgentResult> {
-  const { result } = await rawQuery(input, sessionId);
+async function getDetail(
+  sessionId: string,
+  profileIndex: number,
+  signal?: AbortSignal,
+): Promise<AgentResult> {
+  const { result } = await rawGetDetail(sessionId, profileIndex, { signal });
   return result;
 }
 
-async function getDetail(
+async function fetchPage(
   sessionId: string,
-  profileIndex: number,
+  page: number,
+  signal?: AbortSignal,
 ): Promise<AgentResult> {
-  const { result } = await rawGetDetail(sessionId, profileIndex);
+  const { result } = await rawFetchPage(sessionId, page, { signal });
   return result;
 }
 
-export async function runTUI(): Promise<void> {
+export interface TUIOptions {
+  /** Table columns for this run; defaults to the configured columns. */
+  columns?: ColumnId[];
+}
+
+export async function runTUI(options: TUIOptions = {}): Promise<void> {
   // ─── Detect Terminal Color Scheme ─────────────────────────────────────────
 
   initTheme();
@@ -129,9 +155,26 @@ export async function runTUI(): Promise<void> {
     onSelect: async (entry: SearchHistoryEntry) => {
       activeSessionId = entry.sessionId;
       resultsPanel.update({ loading: true, loadingMessage: "Loading..." });
-      const result = await query(entry.query, entry.sessionId);
-      resultsPanel.update({ result, loading: false });
+      // Show the session's last result as stored; don't re-run the query
+      let empty = false;
+      try {
+        const session = await loadSession(entry.sessionId);
+        resultsPanel.update({ result: session.lastResult, loading: false });
+        empty = !session.lastResult;
+      } catch (error) {
+        resultsPanel.update({
+          result: {
+            type: "error",
+            session: entry.sessionId,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          loading: false,
+        });
+      }
       setFocus("input");
+      if (empty) {
+        updateStatusBar("No results in this chat yet. Type to continue it.");
+      }
     },
     onNewChat: () => {
       activeSessionId = null;
@@ -143,6 +186,12 @@ export async function runTUI(): Promise<void> {
   // ─── Results Panel ─────────────────────────────────────────────────────────
 
   const resultsPanel = createResultsPanel(renderer);
+  resultsPanel.update({
+    columns: resolveColumns(options.columns, loadConfig().columns),
+  });
+
+  // Fit the table to the new terminal width
+  renderer.on("resize", () => resultsPanel.relayout());
 
   // ─── Search Input ──────────────────────────────────────────────────────────
 
@@ -175,7 +224,7 @@ export async function runTUI(): Promise<void> {
       case "input":
         return "Type to search or / for commands    Tab: switch panel";
       case "results":
-        return "j/k: scroll    0-9: detail    Esc: back    Tab: switch panel";
+        return "j/k: scroll    0-9: detail    n/p: page    Esc: back    Tab: switch panel";
       case "sidebar":
         return "j/k: navigate    Enter: select    Tab: switch panel";
     }
@@ -310,6 +359,14 @@ export async function runTUI(): Promise<void> {
         updateStatusBar("Cleared results and history");
         break;
 
+      case "export":
+        exportTo(args.join(" "));
+        break;
+
+      case "columns":
+        setColumns(args.join(""));
+        break;
+
       case "login":
         handleLogin();
         break;
@@ -330,6 +387,54 @@ export async function runTUI(): Promise<void> {
     }
   }
 
+  function exportTo(path: string): void {
+    if (!path) {
+      updateStatusBar("Usage: /export <path>  e.g. /export devs.csv");
+      return;
+    }
+    const format = formatFromPath(path);
+    if (!format) {
+      updateStatusBar(
+        `Unknown export format. Use a ${EXPORT_FORMATS.map((f) => `.${f}`).join(", ")} file`,
+      );
+      return;
+    }
+    const result = resultsPanel.getState().result;
+    if (!result || result.type === "error") {
+      updateStatusBar("Nothing to export. Run a search first.");
+      return;
+    }
+    try {
+      writeFileSync(path, exportResult(result, format), "utf-8");
+      const count = result.type === "search" ? result.profiles.length : 1;
+      updateStatusBar(
+        `Exported ${count} profile${count === 1 ? "" : "s"} to ${path}`,
+      );
+    } catch (error) {
+      updateStatusBar(
+        `Export failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  function setColumns(spec: string): void {
+    const current = resultsPanel.getState().columns ?? [];
+    if (!spec) {
+      updateStatusBar(
+        `Columns: ${current.join(",")}  Available: ${COLUMN_IDS.join(",")}`,
+      );
+      return;
+    }
+    try {
+      const columns = parseColumns(spec);
+      updateConfig({ columns });
+      resultsPanel.update({ columns });
+      updateStatusBar(`Columns: ${columns.join(",")} (saved)`);
+    } catch (error) {
+      updateStatusBar(error instanceof Error ? error.message : String(error));
+    }
+  }
+
   async function handleLogin(): Promise<void> {
     // Suspend the TUI so the interactive login flow can use the terminal
     renderer.suspend();
@@ -355,17 +460,69 @@ export async function runTUI(): Promise<void> {
 
   // ─── Search Execution ──────────────────────────────────────────────────────
 
+  // Request currently loading; Esc aborts it
+  let inflight: AbortController | null = null;
+
+  // Search the open profile detail came from; Esc goes back to it
+  let searchBehindDetail: SearchResult | null = null;
+
+  function beginRequest(): AbortSignal {
+    inflight?.abort();
+    inflight = new AbortController();
+    updateStatusBar("Loading...    Esc: cancel");
+    return inflight.signal;
+  }
+
+  /**
+   * Show a finished request's result, or put the previous view back if the
+   * request was cancelled.
+   */
+  function finishRequest(
+    result: AgentResult,
+    previous: AgentResult | null,
+  ): void {
+    inflight = null;
+    if (result.type === "error" && result.code === "CANCELLED") {
+      resultsPanel.update({ result: previous, loading: false });
+      updateStatusBar("Cancelled");
+      return;
+    }
+    resultsPanel.update({ result, loading: false });
+    updateStatusBar(getStatusHint());
+  }
+
   async function executeSearch(queryText: string): Promise<void> {
     if (!queryText.trim()) return;
 
+    const previous = resultsPanel.getState().result;
+    const signal = beginRequest();
     resultsPanel.update({
       loading: true,
       loadingMessage: `Searching: "${queryText}"`,
+      streamingText: "",
     });
 
     try {
       // Continue the active chat if one is selected, otherwise create a new one
-      const result = await query(queryText, activeSessionId ?? undefined);
+      let result: AgentResult | null = null;
+      for await (const event of queryStream(
+        queryText,
+        activeSessionId ?? undefined,
+        { signal },
+      )) {
+        if (event.type === "text-delta") {
+          resultsPanel.appendStreamingText(event.delta);
+        } else if (event.type === "tool-call") {
+          updateStatusBar(`Agent calling ${event.toolName}...    Esc: cancel`);
+        } else if (event.type === "done") {
+          result = event.result;
+        }
+      }
+      if (!result) throw new Error("Search ended without a result");
+      if (result.type === "error" && result.code === "CANCELLED") {
+        finishRequest(result, previous);
+        return;
+      }
 
       if (activeSessionId) {
         // Update existing sidebar entry with the latest query
@@ -392,8 +549,9 @@ export async function runTUI(): Promise<void> {
       }
 
       sidebar.update();
-      resultsPanel.update({ result, loading: false });
+      finishRequest(result, previous);
     } catch (error) {
+      inflight = null;
       resultsPanel.update({
         result: {
           type: "error",
@@ -417,15 +575,62 @@ export async function runTUI(): Promise<void> {
       return;
     }
 
+    const signal = beginRequest();
     resultsPanel.update({
       loading: true,
       loadingMessage: "Loading profile details...",
     });
 
     try {
-      const result = await getDetail(currentResult.session, profileIndex);
-      resultsPanel.update({ result, loading: false });
+      const result = await getDetail(
+        currentResult.session,
+        profileIndex,
+        signal,
+      );
+      searchBehindDetail = currentResult;
+      finishRequest(result, currentResult);
     } catch (error) {
+      inflight = null;
+      resultsPanel.update({
+        result: {
+          type: "error",
+          session: currentResult.session,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        loading: false,
+      });
+    }
+  }
+
+  async function showPage(delta: 1 | -1): Promise<void> {
+    const currentResult = resultsPanel.getState().result;
+    if (!currentResult || currentResult.type !== "search") return;
+
+    const current = currentResult.pagination?.page ?? 1;
+    if (delta === 1 && !hasMoreResults(currentResult)) {
+      updateStatusBar("Already on the last page");
+      return;
+    }
+    if (delta === -1 && current === 1) {
+      updateStatusBar("Already on the first page");
+      return;
+    }
+
+    const signal = beginRequest();
+    resultsPanel.update({
+      loading: true,
+      loadingMessage: `Loading page ${current + delta}...`,
+    });
+
+    try {
+      const result = await fetchPage(
+        currentResult.session,
+        current + delta,
+        signal,
+      );
+      finishRequest(result, currentResult);
+    } catch (error) {
+      inflight = null;
       resultsPanel.update({
         result: {
           type: "error",
@@ -455,7 +660,9 @@ export async function runTUI(): Promise<void> {
   // Show command hints when typing "/"
   searchInput.on(InputRenderableEvents.INPUT, (value: string) => {
     if (value.startsWith("/")) {
-      updateStatusBar("/help  /detail <n>  /clear  /login  /logout  /quit");
+      updateStatusBar(
+        "/help  /detail <n>  /export <path>  /columns  /clear  /login  /logout  /quit",
+      );
     } else if (currentFocus === "input") {
       updateStatusBar(getStatusHint());
     }
@@ -477,17 +684,19 @@ export async function runTUI(): Promise<void> {
       return;
     }
 
-    // Escape: go back to list / return to input
+    // Escape: cancel a loading request / go back to list / return to input
     if (key.name === "escape") {
       const state = resultsPanel.getState();
-      if (state.result?.type === "detail") {
-        // Go back to the search results (offset by 1; index 0 = New Chat)
-        const lastSearch = sidebarState.entries[sidebarState.selectedIndex - 1];
-        if (lastSearch) {
-          resultsPanel.update({ loading: true });
-          const result = await query(lastSearch.query, lastSearch.sessionId);
-          resultsPanel.update({ result, loading: false });
-        }
+      if (state.loading && inflight) {
+        inflight.abort();
+        return;
+      }
+      if (
+        state.result?.type === "detail" &&
+        searchBehindDetail?.session === state.result.session
+      ) {
+        // Go back to the search results as shown; don't re-run the query
+        resultsPanel.update({ result: searchBehindDetail });
       }
       setFocus("input");
       return;
@@ -526,6 +735,11 @@ export async function runTUI(): Promise<void> {
 
     // Number keys for quick detail access (when not typing in input)
     if (currentFocus !== "input") {
+      if (key.name === "n" || key.name === "p") {
+        await showPage(key.name === "n" ? 1 : -1);
+        return;
+      }
+
       const digit = parseInt(key.name, 10);
       if (!isNaN(digit)) {
         await showDetail(digit);
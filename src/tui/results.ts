@@ -8,6 +8,7 @@ import {
   BoxRenderable,
   type CliRenderer,
   ScrollBoxRenderable,
+  type TextChunk,
   TextRenderable,
   bold,
   fg,
@@ -20,6 +21,14 @@ import type {
   ProfileSummary,
   SearchResult,
 } from "../agent";
+import {
+  type ColumnId,
+  type ColumnStyle,
+  DEFAULT_COLUMNS,
+  INDEX_WIDTH,
+  layoutColumns,
+} from "../columns";
+import { SIDEBAR_WIDTH } from "./sidebar";
 import { theme } from "./theme";
 
 // ─── Colors ─────────────────────────────────────────────────────────────────
@@ -82,14 +91,32 @@ function wordWrap(text: string, maxWidth: number): string[] {
   return lines;
 }
 
+function searchMeta(result: SearchResult): string {
+  const { pagination: p } = result;
+  if (!p || result.profiles.length === 0) {
+    return `${result.totalMatches} matches, showing ${result.profiles.length}`;
+  }
+  return `${result.totalMatches} matches, showing ${p.offset + 1}-${p.offset + result.profiles.length} (page ${p.page})`;
+}
+
 // ─── Results State ───────────────────────────────────────────────────────────
 
 export interface ResultsState {
   result: AgentResult | null;
   loading: boolean;
   loadingMessage?: string;
+  /** Agent text streamed so far, shown under the loading indicator. */
+  streamingText?: string;
+  /** Search table columns; defaults to DEFAULT_COLUMNS. */
+  columns?: ColumnId[];
 }
 
+/** Sidebar, panel borders, row padding and scrollbar around the table. */
+const TABLE_CHROME = SIDEBAR_WIDTH + 5;
+
+/** Used when the renderer doesn't report a size. */
+const DEFAULT_WIDTH = 120;
+
 /**
  * Create the results panel.
  * Uses a ScrollBox inside a bordered container for scrollable content.
@@ -138,6 +165,9 @@ export function createResultsPanel(renderer: CliRenderer) {
   // Loading animation timer
   let loadingTimer: ReturnType<typeof setInterval> | null = null;
 
+  // Live agent text while loading (updated in place, see appendStreamingText)
+  let streamingTextNode: TextRenderable | null = null;
+
   function stopLoadingAnimation(): void {
     if (loadingTimer) {
       clearInterval(loadingTimer);
@@ -152,6 +182,7 @@ export function createResultsPanel(renderer: CliRenderer) {
 
   function clearContent(): void {
     stopLoadingAnimation();
+    streamingTextNode = null;
     for (const id of contentIds) {
       scrollBox.remove(id);
     }
@@ -191,12 +222,23 @@ export function createResultsPanel(renderer: CliRenderer) {
       flexGrow: 1,
       justifyContent: "center",
       alignItems: "center",
+      flexDirection: "column",
+      gap: 1,
     });
     const loadingText = new TextRenderable(renderer, {
       id: uid("loading-text"),
       content: t`${fg(COL.dim)("Loading")}`,
     });
     box.add(loadingText);
+
+    // Summary text streams in below the indicator as the agent writes it
+    streamingTextNode = new TextRenderable(renderer, {
+      id: uid("loading-stream"),
+      content: t`${fg(theme.fg)(state.streamingText ?? "")}`,
+      paddingLeft: 2,
+      paddingRight: 2,
+    });
+    box.add(streamingTextNode);
     addContent(box);
 
     // Animate dots: "Loading.  ", "Loading.. ", "Loading...", ...
@@ -342,6 +384,8 @@ export function createResultsPanel(renderer: CliRenderer) {
       ["/help, /h", "Show this help"],
       ["/detail <n>, /d <n>", "View profile at index n"],
       ["/clear", "Clear results and search history"],
+      ["/export <path>", "Save results (.csv .tsv .md .jsonl .html)"],
+      ["/columns [list]", "Show or set table columns, e.g. name,company"],
       ["/login", "Sign in (switches to login flow)"],
       ["/logout", "Sign out and clear credentials"],
       ["/quit, /q", "Exit the TUI"],
@@ -365,10 +409,11 @@ export function createResultsPanel(renderer: CliRenderer) {
     const shortcuts = [
       ["Tab", "Cycle focus: input -> results -> history"],
       ["Enter", "Submit search or select history item"],
-      ["Esc", "Go back to results / return to input"],
+      ["Esc", "Cancel loading / back to results / return to input"],
       ["j / Down", "Navigate down"],
       ["k / Up", "Navigate up"],
       ["0-9", "Show profile detail at index"],
+      ["n / p", "Next / previous page of results"],
       ["q", "Quit (when input is not focused)"],
       ["Ctrl+C", "Force quit"],
     ];
@@ -412,7 +457,7 @@ export function createResultsPanel(renderer: CliRenderer) {
     addContent(
       new TextRenderable(renderer, {
         id: uid("search-meta"),
-        content: t`${fg(COL.dim)(`${result.totalMatches} matches, showing ${result.profiles.length}`)}`,
+        content: t`${fg(COL.dim)(searchMeta(result))}`,
         paddingLeft: 1,
         paddingRight: 1,
       }),
@@ -438,8 +483,20 @@ export function createResultsPanel(renderer: CliRenderer) {
       return;
     }
 
-    // Column widths
-    const W = { idx: 4, name: 20, role: 20, location: 16, lang: 18 };
+    const layout = layoutColumns(
+      state.columns ?? DEFAULT_COLUMNS,
+      (renderer.width || DEFAULT_WIDTH) - TABLE_CHROME,
+    );
+    const styleCell: Record<ColumnStyle, (text: string) => TextChunk> = {
+      name: (text) => bold(fg(COL.name)(text)),
+      role: (text) => fg(COL.role)(text),
+      location: (text) => fg(COL.location)(text),
+      accent: (text) => fg(COL.lang)(text),
+      dim: (text) => fg(COL.dim)(text),
+    };
+    // Each cell is padded one past its width for the column gap
+    const cell = (text: string, width: number) =>
+      pad(truncate(text, width), width + 1);
 
     // Table header row (muted labels -- they shouldn't compete with data)
     const headerRow = new BoxRenderable(renderer, {
@@ -452,40 +509,28 @@ export function createResultsPanel(renderer: CliRenderer) {
     headerRow.add(
       new TextRenderable(renderer, {
         id: uid("h-idx"),
-        content: t`${fg(COL.header)(pad("#", W.idx))}`,
-      }),
-    );
-    headerRow.add(
-      new TextRenderable(renderer, {
-        id: uid("h-name"),
-        content: t`${fg(COL.header)(pad("Name", W.name))}`,
-      }),
-    );
-    headerRow.add(
-      new TextRenderable(renderer, {
-        id: uid("h-role"),
-        content: t`${fg(COL.header)(pad("Role", W.role))}`,
-      }),
-    );
-    headerRow.add(
-      new TextRenderable(renderer, {
-        id: uid("h-loc"),
-        content: t`${fg(COL.header)(pad("Location", W.location))}`,
-      }),
-    );
-    headerRow.add(
-      new TextRenderable(renderer, {
-        id: uid("h-lang"),
-        content: t`${fg(COL.header)(pad("Languages", W.lang))}`,
+        content: t`${fg(COL.header)(pad("#", INDEX_WIDTH))}`,
       }),
     );
+    for (const { column, width } of layout) {
+      headerRow.add(
+        new TextRenderable(renderer, {
+          id: uid(`h-${column.id}`),
+          content: t`${fg(COL.header)(cell(column.header, width))}`,
+        }),
+      );
+    }
     addContent(headerRow);
 
     // Separator (uses border color, not muted text)
+    const tableWidth = layout.reduce(
+      (sum, l) => sum + l.width + 1,
+      INDEX_WIDTH,
+    );
     addContent(
       new TextRenderable(renderer, {
         id: uid("separator"),
-        content: t`${fg(COL.separator)("─".repeat(W.idx + W.name + W.role + W.location + W.lang))}`,
+        content: t`${fg(COL.separator)("─".repeat(tableWidth))}`,
         paddingLeft: 1,
       }),
     );
@@ -493,10 +538,6 @@ export function createResultsPanel(renderer: CliRenderer) {
     // Data rows
     for (let i = 0; i < result.profiles.length; i++) {
       const p = result.profiles[i]!;
-      const name = truncate(p.displayName || p.name || "Unknown", W.name);
-      const role = truncate(p.mainRole || p.linkedinCurrentTitle || "", W.role);
-      const location = truncate(p.location || "", W.location);
-      const languages = truncate(p.githubTopLanguages || "", W.lang);
 
       const row = new BoxRenderable(renderer, {
         id: uid("row"),
@@ -508,33 +549,17 @@ export function createResultsPanel(renderer: CliRenderer) {
       row.add(
         new TextRenderable(renderer, {
           id: uid("r-idx"),
-          content: t`${fg(COL.idx)(pad(String(i), W.idx))}`,
-        }),
-      );
-      row.add(
-        new TextRenderable(renderer, {
-          id: uid("r-name"),
-          content: t`${bold(fg(COL.name)(pad(name, W.name)))}`,
-        }),
-      );
-      row.add(
-        new TextRenderable(renderer, {
-          id: uid("r-role"),
-          content: t`${fg(COL.role)(pad(role, W.role))}`,
-        }),
-      );
-      row.add(
-        new TextRenderable(renderer, {
-          id: uid("r-loc"),
-          content: t`${fg(COL.location)(pad(location, W.location))}`,
-        }),
-      );
-      row.add(
-        new TextRenderable(renderer, {
-          id: uid("r-lang"),
-          content: t`${fg(COL.lang)(pad(languages, W.lang))}`,
+          content: t`${fg(COL.idx)(pad(String(i), INDEX_WIDTH))}`,
         }),
       );
+      for (const { column, width } of layout) {
+        row.add(
+          new TextRenderable(renderer, {
+            id: uid(`r-${column.id}`),
+            content: t`${styleCell[column.style](cell(column.value(p), width))}`,
+          }),
+        );
+      }
       addContent(row);
     }
 
@@ -542,7 +567,7 @@ export function createResultsPanel(renderer: CliRenderer) {
     addContent(
       new TextRenderable(renderer, {
         id: uid("f-hints"),
-        content: t`${fg(COL.dim)("0-9 or /detail <n> for profile details")}`,
+        content: t`${fg(COL.dim)(result.pagination || result.profiles.length < result.totalMatches ? "0-9 or /detail <n> for profile details    n / p for next / previous page" : "0-9 or /detail <n> for profile details")}`,
         paddingLeft: 1,
         marginTop: 1,
       }),
@@ -828,14 +853,27 @@ export function createResultsPanel(renderer: CliRenderer) {
     scrollBox,
     update: (newState: Partial<ResultsState>) => {
       Object.assign(state, newState);
+      if (!state.loading) state.streamingText = undefined;
       render();
     },
+    appendStreamingText: (delta: string) => {
+      if (!state.loading) return;
+      state.streamingText = (state.streamingText ?? "") + delta;
+      // Update in place so the loading animation keeps running
+      if (streamingTextNode) {
+        streamingTextNode.content = t`${fg(theme.fg)(state.streamingText)}`;
+      }
+    },
     showHelp: () => {
       state.result = null;
       state.loading = false;
       clearContent();
       renderHelp();
     },
+    /** Re-lay out the search table, e.g. after a terminal resize. */
+    relayout: () => {
+      if (!state.loading && state.result?.type === "search") render();
+    },
     getState: () => state,
   };
 }
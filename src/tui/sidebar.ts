@@ -16,6 +16,9 @@ import {
 
 import { theme } from "./theme";
 
+/** Fixed sidebar width; the results panel takes the rest of the row. */
+export const SIDEBAR_WIDTH = 28;
+
 export interface SearchHistoryEntry {
   sessionId: string;
   query: string;
@@ -44,7 +47,7 @@ export function createSidebar(
 ) {
   const container = new BoxRenderable(renderer, {
     id: "sidebar",
-    width: 28,
+    width: SIDEBAR_WIDTH,
     flexShrink: 0,
     flexDirection: "column",
     borderStyle: "rounded",
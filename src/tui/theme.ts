@@ -5,13 +5,16 @@
  *   packages/tailwind-config/shared-styles.css
  *
  * Detection order:
- *   1. TALENT_CLI_THEME env var ("light" | "dark")
+ *   1. TALENT_CLI_THEME env var, else the config profile's theme
+ *      ("light" | "dark")
  *   2. COLORFGBG env var (set by some terminal emulators)
  *   3. macOS system appearance (AppleInterfaceStyle)
  *   4. Default: "dark"
  */
 import { execSync } from "node:child_process";
 
+import { getSetting } from "../config";
+
 // ─── Types ──────────────────────────────────────────────────────────────────
 
 export type ColorScheme = "light" | "dark";
@@ -135,8 +138,8 @@ export function initTheme(): void {
  * Detect the terminal's color scheme using a chain of heuristics.
  */
 export function detectColorScheme(): ColorScheme {
-  // 1. Explicit override via env var
-  const override = process.env.TALENT_CLI_THEME?.toLowerCase();
+  // 1. Explicit override via env var or the active config profile
+  const override = getSetting("theme")?.toLowerCase();
   if (override === "light" || override === "dark") return override;
 
   // 2. COLORFGBG (set by some terminal emulators, e.g. rxvt, iTerm2)
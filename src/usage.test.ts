@@ -0,0 +1,164 @@
+/**
+ * Unit tests for the local usage ledger.
+ *
+ * We mock `node:os` homedir to redirect the ledger to a temp directory, the
+ * same way the session cache tests do.
+ */
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { AgentMeta } from "./agent";
+import {
+  type UsageRecord,
+  appendUsage,
+  getUsageLogPath,
+  readUsage,
+  summarizeUsage,
+  toUsageRecord,
+} from "./usage";
+
+let tempHome: string;
+
+vi.mock("node:os", () => ({
+  homedir: () => tempHome,
+  tmpdir: () => require("os").tmpdir(),
+}));
+
+const originalEnv = { ...process.env };
+
+beforeEach(() => {
+  tempHome = mkdtempSync(join(require("os").tmpdir(), "talent-agent-usage-"));
+});
+
+afterEach(() => {
+  rmSync(tempHome, { recursive: true, force: true });
+  process.env = { ...originalEnv };
+});
+
+function record(overrides: Partial<UsageRecord>): UsageRecord {
+  return {
+    ts: "2026-10-17T12:00:00.000Z",
+    kind: "search",
+    session: "s1",
+    toolsCalled: ["searchProfiles"],
+    durationMs: 1000,
+    tokensUsed: 100,
+    ...overrides,
+  };
+}
+
+const meta: AgentMeta = {
+  durationMs: 1200,
+  tokensUsed: 500,
+  inputTokens: 400,
+  outputTokens: 100,
+  toolsCalled: ["searchProfiles"],
+};
+
+describe("toUsageRecord", () => {
+  it("copies session, tools, duration and tokens", () => {
+    const now = new Date("2026-10-17T08:00:00Z");
+    const result = {
+      type: "search" as const,
+      session: "s1",
+      query: "Find devs",
+      profiles: [],
+      totalMatches: 0,
+      summary: "",
+      appliedFilters: {},
+    };
+
+    expect(toUsageRecord("search", result, meta, now)).toEqual({
+      ts: "2026-10-17T08:00:00.000Z",
+      kind: "search",
+      session: "s1",
+      toolsCalled: ["searchProfiles"],
+      durationMs: 1200,
+      tokensUsed: 500,
+      inputTokens: 400,
+      outputTokens: 100,
+    });
+  });
+
+  it("records the error code of failed calls", () => {
+    const failed = toUsageRecord(
+      "detail",
+      { type: "error", session: "s1", error: "Nope", code: "RATE_LIMIT" },
+      { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
+    );
+    expect(failed.code).toBe("RATE_LIMIT");
+
+    const uncoded = toUsageRecord(
+      "search",
+      { type: "error", session: "s1", error: "Nope" },
+      { durationMs: 0, tokensUsed: 0, toolsCalled: [] },
+    );
+    expect(uncoded.code).toBe("UNKNOWN_ERROR");
+  });
+});
+
+describe("appendUsage / readUsage", () => {
+  it("appends JSON lines and reads them back", () => {
+    appendUsage(record({ session: "a" }));
+    appendUsage(record({ session: "b" }));
+
+    expect(readUsage().map((r) => r.session)).toEqual(["a", "b"]);
+  });
+
+  it("filters by since and skips unparseable lines", () => {
+    appendUsage(record({ ts: "2026-10-01T00:00:00.000Z", session: "old" }));
+    writeFileSync(getUsageLogPath(), '{"ts": "2026-10-\n', { flag: "a" });
+    appendUsage(record({ ts: "2026-10-17T00:00:00.000Z", session: "new" }));
+
+    const since = Date.parse("2026-10-10T00:00:00.000Z");
+    expect(readUsage(since).map((r) => r.session)).toEqual(["new"]);
+    expect(readUsage()).toHaveLength(2);
+  });
+
+  it("does nothing when TALENT_AGENT_USAGE_LOG=0", () => {
+    process.env.TALENT_AGENT_USAGE_LOG = "0";
+    appendUsage(record({}));
+
+    expect(existsSync(getUsageLogPath())).toBe(false);
+    expect(readUsage()).toEqual([]);
+  });
+});
+
+describe("summarizeUsage", () => {
+  it("aggregates totals by day, session and tool", () => {
+    const summary = summarizeUsage([
+      record({ ts: "2026-10-16T12:00:00.000Z", session: "a" }),
+      record({
+        ts: "2026-10-17T12:00:00.000Z",
+        session: "a",
+        kind: "detail",
+        toolsCalled: [],
+        tokensUsed: 0,
+      }),
+      record({
+        ts: "2026-10-17T12:00:00.000Z",
+        session: "b",
+        code: "RATE_LIMIT",
+        toolsCalled: ["searchProfiles", "getProfileDetails"],
+      }),
+    ]);
+
+    expect(summary.since).toBeNull();
+    expect(summary.total).toEqual({
+      requests: 3,
+      searches: 2,
+      details: 1,
+      errors: 1,
+      tokensUsed: 200,
+      durationMs: 3000,
+    });
+    expect(Object.keys(summary.byDay)).toHaveLength(2);
+    expect(summary.bySession.a!.requests).toBe(2);
+    expect(summary.bySession.b!.errors).toBe(1);
+    expect(summary.byTool).toEqual({
+      searchProfiles: 2,
+      getProfileDetails: 1,
+    });
+  });
+});
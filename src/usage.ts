@@ -0,0 +1,185 @@
+/**
+ * Local usage ledger.
+ *
+ * Every `query()` and `getDetail()` call appends one JSON line to
+ * `~/.talent-agent/usage.jsonl` with its timestamp, session, tools called,
+ * duration, tokens and error code (if any). `talent-agent usage` reads the
+ * ledger back and aggregates it by day, session and tool.
+ *
+ * Appends are best-effort and never fail a search. Set
+ * `TALENT_AGENT_USAGE_LOG=0` to stop recording.
+ */
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+
+import type { AgentMeta, AgentResult } from "./agent";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface UsageRecord {
+  /** ISO timestamp of when the call finished. */
+  ts: string;
+  kind: "search" | "detail";
+  session: string;
+  toolsCalled: string[];
+  durationMs: number;
+  tokensUsed: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  /** Error code when the call failed. */
+  code?: string;
+}
+
+export interface UsageTotals {
+  requests: number;
+  searches: number;
+  details: number;
+  errors: number;
+  tokensUsed: number;
+  durationMs: number;
+}
+
+export interface UsageSummary {
+  /** ISO timestamp of the window start, or null for all recorded usage. */
+  since: string | null;
+  total: UsageTotals;
+  /** Keyed by local date (YYYY-MM-DD). */
+  byDay: Record<string, UsageTotals>;
+  bySession: Record<string, UsageTotals>;
+  /** Number of calls per tool. */
+  byTool: Record<string, number>;
+}
+
+// ─── Ledger File ────────────────────────────────────────────────────────────
+
+// Computed lazily so tests can mock homedir() per-test without vi.resetModules()
+export function getUsageLogPath(): string {
+  return join(homedir(), ".talent-agent", "usage.jsonl");
+}
+
+function isLedgerEnabled(): boolean {
+  const flag = process.env.TALENT_AGENT_USAGE_LOG;
+  return flag !== "0" && flag !== "false";
+}
+
+/**
+ * Build a ledger record from an agent call's result and meta.
+ */
+export function toUsageRecord(
+  kind: UsageRecord["kind"],
+  result: AgentResult,
+  meta: AgentMeta,
+  now: Date = new Date(),
+): UsageRecord {
+  const record: UsageRecord = {
+    ts: now.toISOString(),
+    kind,
+    session: result.session,
+    toolsCalled: meta.toolsCalled,
+    durationMs: meta.durationMs,
+    tokensUsed: meta.tokensUsed,
+  };
+  if (meta.inputTokens !== undefined) record.inputTokens = meta.inputTokens;
+  if (meta.outputTokens !== undefined) record.outputTokens = meta.outputTokens;
+  if (result.type === "error") record.code = result.code ?? "UNKNOWN_ERROR";
+  return record;
+}
+
+/**
+ * Append a record to the ledger. Failures are swallowed.
+ */
+export function appendUsage(record: UsageRecord): void {
+  if (!isLedgerEnabled()) return;
+  try {
+    const path = getUsageLogPath();
+    const dir = dirname(path);
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true, mode: 0o700 });
+    appendFileSync(path, JSON.stringify(record) + "\n", {
+      encoding: "utf-8",
+      mode: 0o600,
+    });
+  } catch {
+    // Non-critical: usage tracking must never break a search
+  }
+}
+
+/**
+ * Read ledger records, optionally only those at or after `since` (epoch ms).
+ * Unparseable lines are skipped.
+ */
+export function readUsage(since?: number): UsageRecord[] {
+  const path = getUsageLogPath();
+  if (!existsSync(path)) return [];
+
+  const records: UsageRecord[] = [];
+  for (const line of readFileSync(path, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const record = JSON.parse(line) as UsageRecord;
+      if (since !== undefined && Date.parse(record.ts) < since) continue;
+      records.push(record);
+    } catch {
+      // Torn or hand-edited line -- skip it
+    }
+  }
+  return records;
+}
+
+// ─── Aggregation ────────────────────────────────────────────────────────────
+
+function emptyTotals(): UsageTotals {
+  return {
+    requests: 0,
+    searches: 0,
+    details: 0,
+    errors: 0,
+    tokensUsed: 0,
+    durationMs: 0,
+  };
+}
+
+function addTo(totals: UsageTotals, record: UsageRecord): void {
+  totals.requests++;
+  if (record.kind === "detail") totals.details++;
+  else totals.searches++;
+  if (record.code) totals.errors++;
+  totals.tokensUsed += record.tokensUsed ?? 0;
+  totals.durationMs += record.durationMs ?? 0;
+}
+
+function localDay(ts: string): string {
+  const date = new Date(ts);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Aggregate records into totals by day, session and tool.
+ */
+export function summarizeUsage(
+  records: UsageRecord[],
+  since?: number,
+): UsageSummary {
+  const summary: UsageSummary = {
+    since: since === undefined ? null : new Date(since).toISOString(),
+    total: emptyTotals(),
+    byDay: {},
+    bySession: {},
+    byTool: {},
+  };
+
+  for (const record of records) {
+    addTo(summary.total, record);
+    addTo((summary.byDay[localDay(record.ts)] ??= emptyTotals()), record);
+    if (record.session) {
+      addTo((summary.bySession[record.session] ??= emptyTotals()), record);
+    }
+    for (const tool of record.toolsCalled ?? []) {
+      summary.byTool[tool] = (summary.byTool[tool] ?? 0) + 1;
+    }
+  }
+
+  return summary;
+}